@@ -1,22 +1,89 @@
 import React, { useState, useRef, useMemo, useEffect } from 'react';
-import { FileNode, ViewMode, GalleryStats, SerializedNode } from './types';
-import { parseFilesToTree, deserializeTree } from './utils/fileUtils';
-import { Sidebar } from './components/Sidebar';
+import {
+  FileNode, ViewMode, GalleryStats, CaptionReport, SourceFile, DirectoryHandle, ApplyResult, SessionSummary, ExportProfile, Command,
+  GallerySort, GalleryGrouping, BucketSettings, ColorLabel, SmartCollection
+} from './types';
+import { parseFilesToTree, deserializeTree, loadCaptions, loadDimensions, formatBytes, createSubsetFilter } from './utils/fileUtils';
+import { loadSnapshot, formatSnapshotError } from './utils/snapshot';
+import { DEFAULT_EXPORT_PROFILE, estimateExportSize } from './utils/exportProfiles';
+import { revokeImageUrl } from './utils/imageUrls';
+import { parseQuery, compileQuery } from './utils/search';
+import { loadHashes } from './utils/hashing';
+import { findDuplicates } from './utils/duplicates';
+import { computeCaptionStats, computeFolderCaptionStats, DEFAULT_TOKEN_LIMIT } from './utils/captionStats';
+import { computeBucketReport, DEFAULT_BUCKET_SETTINGS } from './utils/buckets';
+import { loadMetadata } from './utils/metadata';
+import { DEFAULT_SORT, sortNodes, groupNodes } from './utils/sorting';
+import { editCaption, undoCaption, redoCaption } from './utils/captions';
+import {
+  CaptionBulkMode, createCommandHistory, runCommand, undoCommand, redoCommand,
+  createDeleteCommand, createMoveCommand, createTagCommand, createCaptionCommand,
+  createTransformCommand, TransformAction, createKeepBestCommand, createCaptionBatchCommand,
+  createFolderCommand, createRenameCommand, createMergeCommand, createDeleteFolderCommand,
+  createUntagCommand, createRatingCommand, createColorLabelCommand, createReviewCommand, createResetReviewCommand,
+  createKeepOneCommand
+} from './utils/commands';
+import { reviewKeyAction } from './utils/ratings';
+import { createCollection, loadCollections, saveCollections } from './utils/collections';
+import { findNodeById, isInside } from './utils/tree';
+import { isFileSystemAccessSupported, pickDirectory, readDirectory, removeTrashedNodes } from './utils/fileSystem';
+import {
+  isSessionStorageSupported, createSessionId, listSessions, assignSessionImageRefs,
+  persistSessionImages, saveSession, loadSession, deleteSession
+} from './utils/sessions';
+import { CollectionActions, FolderActions, Sidebar } from './components/Sidebar';
 import { Gallery } from './components/Gallery';
 import { Lightbox } from './components/Lightbox';
-import { ShareModal } from './components/ShareModal';
+import { ShareModal, ExportScope } from './components/ShareModal';
+import { ApplyChangesModal } from './components/ApplyChangesModal';
+import { SessionPicker } from './components/SessionPicker';
+import { SelectionBar } from './components/SelectionBar';
+import { DuplicatesView } from './components/DuplicatesView';
+import { CaptionBatchModal, CaptionBatchScope } from './components/CaptionBatchModal';
+import { CaptionStatsView } from './components/CaptionStatsView';
+import { ResolutionView } from './components/ResolutionView';
+import { CullingView } from './components/CullingView';
+import { CompareView } from './components/CompareView';
+
+// Quiet period before the workspace is autosaved after a change
+const AUTOSAVE_DELAY_MS = 1000;
 
 const App: React.FC = () => {
   const [rootNode, setRootNode] = useState<FileNode | null>(null);
   const [currentNode, setCurrentNode] = useState<FileNode | null>(null);
   const [allImages, setAllImages] = useState<FileNode[]>([]);
   const [viewMode, setViewMode] = useState<ViewMode>(ViewMode.HIERARCHY);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [collections, setCollections] = useState<SmartCollection[]>(loadCollections);
+  const [sort, setSort] = useState<GallerySort>(DEFAULT_SORT);
+  const [grouping, setGrouping] = useState<GalleryGrouping>('none'); // All Photos only
+  const [similarityThreshold, setSimilarityThreshold] = useState<number | undefined>(); // Exact copies only when unset
+  const [hashProgress, setHashProgress] = useState<{ done: number; total: number } | null>(null);
+  const [tokenLimit, setTokenLimit] = useState(DEFAULT_TOKEN_LIMIT);
+  const [statsInFolder, setStatsInFolder] = useState(false); // Caption stats for the current folder only
+  const [bucketSettings, setBucketSettings] = useState<BucketSettings>(DEFAULT_BUCKET_SETTINGS);
   const [lightboxNode, setLightboxNode] = useState<FileNode | null>(null);
   const [isShareModalOpen, setIsShareModalOpen] = useState(false);
   const [isImporting, setIsImporting] = useState(false);
+  const [isWritable, setIsWritable] = useState(false); // Opened through showDirectoryPicker
+  const [isApplyModalOpen, setIsApplyModalOpen] = useState(false);
+  const [isCaptionBatchOpen, setIsCaptionBatchOpen] = useState(false);
+  const [cullingNodes, setCullingNodes] = useState<FileNode[] | null>(null); // The queue while culling
+  const [compareNodes, setCompareNodes] = useState<FileNode[] | null>(null);
+  const [exportProfile, setExportProfile] = useState<ExportProfile>(DEFAULT_EXPORT_PROFILE);
+  const [shareScope, setShareScope] = useState<ExportScope | undefined>();
+
+  // Gallery multi-select and the undo stack for bulk actions on it
+  const [selection, setSelection] = useState<Set<FileNode>>(new Set());
+  const commandHistoryRef = useRef(createCommandHistory());
+
+  // Autosaved session backing the current workspace
+  const [session, setSession] = useState<Omit<SessionSummary, 'updatedAt' | 'imageCount'> | null>(null);
+  const [savedSessions, setSavedSessions] = useState<SessionSummary[]>([]);
   
   // Stats
-  const [stats, setStats] = useState<GalleryStats>({ totalFiles: 0, totalFolders: 0, totalSize: 0 });
+  const [stats, setStats] = useState<GalleryStats>({ totalFiles: 0, totalFolders: 0, totalSize: 0, totalCaptions: 0 });
+  const [captionReport, setCaptionReport] = useState<CaptionReport | null>(null);
   
   // Dummy state to force re-renders when deep properties (isDeleted) change
   const [updateTick, setUpdateTick] = useState(0);
@@ -31,34 +98,92 @@ const App: React.FC = () => {
         // This runs when the component unmounts or before the effect re-runs
         // However, we want to be careful not to revoke URLs that are still in use if we just added to them.
         // But in this app, handleUpload replaces the entire state.
-        allImages.forEach(node => {
-            if (node.url && node.url.startsWith('blob:')) {
-                URL.revokeObjectURL(node.url);
-            }
-        });
+        allImages.forEach(revokeImageUrl);
     };
   }, [allImages]);
 
+  // Embedded metadata and pixel sizes are read in the background so large folders open right
+  // away. Most sizes come with the metadata; the rest are decoded afterwards. Restored snapshots
+  // have no sizes since their images were resized. Replacing or clearing the workspace stops both.
+  useEffect(() => {
+    if (allImages.length === 0) return;
+    const controller = new AbortController();
+    const refresh = () => {
+      if (!controller.signal.aborted) setUpdateTick(prev => prev + 1);
+    };
+    loadMetadata(allImages, controller.signal)
+      .then(refresh)
+      .then(() => loadDimensions(allImages, controller.signal))
+      .then(refresh);
+    return () => controller.abort();
+  }, [allImages]);
+
+  // Keep the snapshot size estimate in line with the workspace and the chosen export profile.
+  // Snapshots leave deleted images out by default, so they do not count towards it.
+  useEffect(() => {
+    const exported = allImages.filter(node => !node.isDeleted);
+    setStats(prev => ({ ...prev, estimatedExportSize: estimateExportSize(exported, exportProfile) }));
+  }, [allImages, exportProfile, updateTick]);
+
+  // Refresh the resumable sessions whenever the landing screen is shown
+  useEffect(() => {
+    if (rootNode || !isSessionStorageSupported()) return;
+    listSessions().then(setSavedSessions).catch(err => console.warn('Failed to list sessions', err));
+  }, [rootNode]);
+
+  // Autosave structure, soft deletes, captions and navigation state after each change
+  useEffect(() => {
+    if (!session || !rootNode) return;
+    const timer = setTimeout(() => {
+      saveSession({ ...session, imageCount: allImages.length }, rootNode, currentNode, viewMode, searchQuery)
+        .catch(err => console.warn('Autosave failed', err));
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [session, rootNode, currentNode, viewMode, searchQuery, allImages, updateTick]);
+
+  // Selection and bulk undo belong to one workspace
+  const resetSelection = () => {
+    setSelection(new Set());
+    commandHistoryRef.current = createCommandHistory();
+  };
+
+  const startSession = (name: string, images: FileNode[]) => {
+    if (!isSessionStorageSupported()) return;
+    const id = createSessionId();
+    assignSessionImageRefs(images);
+    setSession({ id, name, createdAt: new Date().toISOString(), incomplete: true });
+    // Copying bytes can take a while for big folders; the tree is saved independently meanwhile and
+    // the session stays marked incomplete until the last image is stored
+    persistSessionImages(id, images)
+      .then(() => setSession(prev => (prev?.id === id ? { ...prev, incomplete: false } : prev)))
+      .catch(err => {
+        console.warn('Failed to store session images', err);
+        alert(`Images could not be stored for resuming this session later (${err instanceof Error ? err.message : String(err)}). Resuming it will bring back only the images stored so far.`);
+      });
+  };
+
   const handleReset = () => {
-    if (window.confirm("Are you sure you want to clear the workspace? This will remove all loaded images from memory.")) {
+    if (window.confirm("Are you sure you want to clear the workspace? This will remove all loaded images from memory. The autosaved session can still be resumed from the start screen.")) {
         setRootNode(null);
         setCurrentNode(null);
         setAllImages([]);
-        setStats({ totalFiles: 0, totalFolders: 0, totalSize: 0 });
+        setStats({ totalFiles: 0, totalFolders: 0, totalSize: 0, totalCaptions: 0 });
+        setCaptionReport(null);
+        setIsWritable(false);
+        setSession(null);
         setViewMode(ViewMode.HIERARCHY);
+        setSearchQuery('');
+        resetSelection();
     }
   };
 
-  const handleUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const files = event.target.files;
-    if (!files || files.length === 0) return;
-
+  const loadWorkspace = (files: FileList | SourceFile[], directoryHandles?: Map<string, DirectoryHandle>) => {
     // Revoke old URLs before creating new ones happens automatically via the useEffect cleanup 
     // when setAllImages is called, BUT we need to be careful about the order.
     // Actually, React state updates are batched. The cleanup of the previous effect runs before the new effect.
     // So the old allImages will be cleaned up.
 
-    const { root, allImages: images } = parseFilesToTree(files);
+    const { root, allImages: images, captionReport: report } = parseFilesToTree(files, directoryHandles);
     
     // Calculate stats
     let folders = 0;
@@ -70,7 +195,8 @@ const App: React.FC = () => {
       }
     };
     countFolders(root);
-    Array.from(files).forEach((f: File) => size += f.size);
+    const fileList = Array.isArray(files) ? files.map(source => source.file) : Array.from(files);
+    fileList.forEach((f: File) => size += f.size);
 
     setRootNode(root);
     setCurrentNode(root);
@@ -78,53 +204,136 @@ const App: React.FC = () => {
     setStats({
       totalFiles: images.length,
       totalFolders: folders - 1, // Subtract root
-      totalSize: size
+      totalSize: size,
+      totalCaptions: images.length - report.uncaptionedImages.length
     });
+    setCaptionReport(report);
+    setIsWritable(!!directoryHandles);
+    resetSelection();
+    startSession(root.children[0]?.name || 'Untitled', images);
+    if (report.orphanCaptions.length > 0) {
+      console.warn(`${report.orphanCaptions.length} caption file(s) have no matching image:`, report.orphanCaptions);
+    }
+
+    // Sidecars are read in the background so large folders open immediately
+    loadCaptions(images).then(() => setUpdateTick(prev => prev + 1));
+  };
+
+  const handleUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = event.target.files;
+    if (!files || files.length === 0) return;
+
+    loadWorkspace(files);
     
     // Reset input so same folder can be selected again if needed
     event.target.value = '';
   };
 
-  const handleImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+  const handleOpenWritable = async () => {
+    try {
+        const handle = await pickDirectory();
+        setIsImporting(true);
+        const { files, directoryHandles } = await readDirectory(handle);
+        loadWorkspace(files, directoryHandles);
+    } catch (err) {
+        // Closing the picker rejects with AbortError; that is not worth an alert
+        if (!(err instanceof DOMException && err.name === 'AbortError')) {
+            alert("Could not open the folder for editing.");
+            console.error(err);
+        }
+    } finally {
+        setIsImporting(false);
+    }
+  };
+
+  const handleChangesApplied = (result: ApplyResult) => {
+    removeTrashedNodes(result.applied, allImages);
+    // Trashed files are gone from the tree; commands referring to them can no longer be undone
+    setSelection(prev => new Set([...prev].filter(node => allImages.includes(node))));
+    commandHistoryRef.current = createCommandHistory();
+    setStats(prev => ({
+        ...prev,
+        totalFiles: allImages.length,
+        totalCaptions: allImages.filter(node => node.captionFile || node.caption !== undefined).length
+    }));
+    setUpdateTick(prev => prev + 1);
+  };
+
+  // Shared by snapshot import and session resume
+  const showRestoredWorkspace = (restoredRoot: FileNode, allImagesList: FileNode[], startNode: FileNode) => {
+    let folders = 0;
+    const countFolders = (node: FileNode) => {
+        if (node.type === 'folder') {
+            folders++;
+            node.children.forEach(countFolders);
+        }
+    };
+    countFolders(restoredRoot);
+
+    setRootNode(restoredRoot);
+    setCurrentNode(startNode);
+    setAllImages(allImagesList);
+    setIsWritable(false);
+    resetSelection();
+    setStats({
+        totalFiles: allImagesList.length,
+        totalFolders: folders - 1,
+        totalSize: allImagesList.reduce((sum, node) => sum + (node.file?.size || 0), 0),
+        totalCaptions: allImagesList.filter(node => node.caption !== undefined).length
+    });
+    setCaptionReport({
+        orphanCaptions: [],
+        uncaptionedImages: allImagesList.filter(node => node.caption === undefined)
+    });
+  };
+
+  const handleResumeSession = async (summary: SessionSummary) => {
+    setIsImporting(true);
+    try {
+        const { root, allImages: images, currentNode: startNode, viewMode: savedViewMode, query } = await loadSession(summary.id);
+        showRestoredWorkspace(root, images, startNode);
+        setViewMode(savedViewMode);
+        setSearchQuery(query);
+        setSession({ id: summary.id, name: summary.name, createdAt: summary.createdAt, incomplete: summary.incomplete });
+    } catch (err) {
+        alert("This session could not be restored.");
+        console.error(err);
+    } finally {
+        setIsImporting(false);
+    }
+  };
+
+  const handleDiscardSession = async (summary: SessionSummary) => {
+    if (!window.confirm(`Discard the saved session "${summary.name}"? This cannot be undone.`)) return;
+    try {
+        await deleteSession(summary.id);
+        setSavedSessions(prev => prev.filter(s => s.id !== summary.id));
+    } catch (err) {
+        alert("This session could not be discarded.");
+        console.error(err);
+    }
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
 
     setIsImporting(true);
-    const reader = new FileReader();
-    reader.onload = (e) => {
-        try {
-            const json = e.target?.result as string;
-            const serializedRoot: SerializedNode = JSON.parse(json);
-            const allImagesList: FileNode[] = [];
-            const restoredRoot = deserializeTree(serializedRoot, allImagesList);
-
-            let folders = 0;
-            const countFolders = (node: FileNode) => {
-                if (node.type === 'folder') {
-                    folders++;
-                    node.children.forEach(countFolders);
-                }
-            };
-            countFolders(restoredRoot);
-
-            setRootNode(restoredRoot);
-            setCurrentNode(restoredRoot);
-            setAllImages(allImagesList);
-            setStats({
-                totalFiles: allImagesList.length,
-                totalFolders: folders - 1,
-                totalSize: 0 
-            });
-        } catch (err) {
-            alert("Invalid snapshot file.");
-            console.error(err);
-        } finally {
-            setIsImporting(false);
-            // Reset input
-            event.target.value = '';
-        }
-    };
-    reader.readAsText(file);
+    try {
+        // Handles every snapshot layout we have shipped and validates it before anything is restored
+        const { manifest, images } = await loadSnapshot(file);
+        const allImagesList: FileNode[] = [];
+        const restoredRoot = deserializeTree(manifest.root, allImagesList, undefined, images);
+        showRestoredWorkspace(restoredRoot, allImagesList, restoredRoot);
+        startSession(file.name.replace(/\.[^/.]+$/, ''), allImagesList);
+    } catch (err) {
+        alert(formatSnapshotError(err));
+        console.error(err);
+    } finally {
+        setIsImporting(false);
+        // Reset input
+        event.target.value = '';
+    }
   };
 
   const handleSelectNode = (node: FileNode) => {
@@ -133,6 +342,7 @@ const App: React.FC = () => {
   };
 
   const handlePublish = () => {
+    setShareScope(undefined);
     setIsShareModalOpen(true);
   };
 
@@ -141,28 +351,234 @@ const App: React.FC = () => {
     setUpdateTick(prev => prev + 1); // Force re-render to reflect change
   };
 
+  const handleEditCaption = (node: FileNode, text: string) => {
+    if (editCaption(node, text)) setUpdateTick(prev => prev + 1);
+  };
+
+  const handleUndoCaption = (node: FileNode) => {
+    if (undoCaption(node)) setUpdateTick(prev => prev + 1);
+  };
+
+  const handleRedoCaption = (node: FileNode) => {
+    if (redoCaption(node)) setUpdateTick(prev => prev + 1);
+  };
+
+  // --- Bulk actions on the selection ---
+
+  const selectedNodes = useMemo(() => Array.from(selection), [selection]);
+
+  const runBulkCommand = (command: Command) => {
+    runCommand(commandHistoryRef.current, command);
+    setUpdateTick(prev => prev + 1);
+  };
+
+  const handleBulkUndo = () => {
+    if (undoCommand(commandHistoryRef.current)) setUpdateTick(prev => prev + 1);
+  };
+
+  const handleBulkRedo = () => {
+    if (redoCommand(commandHistoryRef.current)) setUpdateTick(prev => prev + 1);
+  };
+
+  const handleTransform = (node: FileNode, action: TransformAction) => {
+    runBulkCommand(createTransformCommand([node], action));
+  };
+
+  const handleRate = (nodes: FileNode[], rating: number | undefined) => {
+    if (nodes.length > 0) runBulkCommand(createRatingCommand(nodes, rating));
+  };
+
+  // A label every node already has is taken off again
+  const handleColorLabel = (nodes: FileNode[], label: ColorLabel) => {
+    if (nodes.length === 0) return;
+    runBulkCommand(createColorLabelCommand(nodes, nodes.every(node => node.colorLabel === label) ? undefined : label));
+  };
+
+  const handleBulkCaptions = async (text: string, mode: CaptionBulkMode) => {
+    runBulkCommand(await createCaptionCommand(selectedNodes, text, mode));
+  };
+
+  // --- Folder edits from the sidebar and drag and drop ---
+
+  const handleDropNodes = (ids: string[], target: FileNode, merge: boolean) => {
+    if (!rootNode) return;
+    const nodes = ids.map(id => findNodeById(rootNode, id)).filter((node): node is FileNode => !!node);
+    if (!nodes.some(node => node.parent !== target && !isInside(node, target))) return;
+    // Alt-dropping a single folder merges its contents instead of nesting it
+    if (merge && nodes.length === 1 && nodes[0].type === 'folder') runBulkCommand(createMergeCommand(nodes[0], target));
+    else runBulkCommand(createMoveCommand(nodes, target));
+  };
+
+  const folderActions: FolderActions = {
+    onCreate: (parent, name) => runBulkCommand(createFolderCommand(parent, name)),
+    onRename: (folder, name) => runBulkCommand(createRenameCommand(folder, name)),
+    onMerge: (source, target) => runBulkCommand(createMergeCommand(source, target)),
+    onDelete: (folder) => runBulkCommand(createDeleteFolderCommand(folder)),
+    onDrop: handleDropNodes,
+  };
+
+  // Tree edits and their undo can take the open folder out of the tree; fall back to the library
+  useEffect(() => {
+    if (rootNode && currentNode && !isInside(rootNode, currentNode)) setCurrentNode(rootNode);
+  }, [rootNode, currentNode, updateTick]);
+
+  const handleExportSelection = () => {
+    setShareScope('selection');
+    setIsShareModalOpen(true);
+  };
+
+  // Move targets in tree order
+  const folders = useMemo(() => {
+    const result: FileNode[] = [];
+    const visit = (node: FileNode) => {
+      if (node.type !== 'folder') return;
+      result.push(node);
+      node.children.forEach(visit);
+    };
+    if (rootNode) visit(rootNode);
+    return result;
+  }, [rootNode, updateTick]);
+
+  const parsedQuery = useMemo(() => parseQuery(searchQuery), [searchQuery]);
+
+  const handleSearchChange = (query: string) => {
+    setSearchQuery(query);
+    setViewMode(query.trim() ? ViewMode.SEARCH : ViewMode.ALL_PHOTOS);
+  };
+
+  useEffect(() => saveCollections(collections), [collections]);
+
+  // Counts follow ratings, labels and captions as they change
+  const collectionCounts = useMemo(() => {
+    const counts: Record<string, number> = {};
+    collections.forEach(collection => {
+      counts[collection.id] = allImages.filter(compileQuery(parseQuery(collection.query))).length;
+    });
+    return counts;
+  }, [collections, allImages, updateTick]);
+
+  const collectionActions: CollectionActions = {
+    collections,
+    counts: collectionCounts,
+    activeQuery: viewMode === ViewMode.SEARCH ? searchQuery : '',
+    onOpen: (collection) => handleSearchChange(collection.query),
+    onSave: (name) => setCollections(current => [...current, createCollection(name, searchQuery)]),
+    onDelete: (collection) => setCollections(current => current.filter(c => c.id !== collection.id)),
+  };
+
+  // Hashing reads every image, so it only starts once the duplicates view is opened
+  useEffect(() => {
+    if (viewMode !== ViewMode.DUPLICATES) return;
+    const controller = new AbortController();
+    loadHashes(allImages, (done, total) => setHashProgress({ done, total }), controller.signal).then(() => {
+      if (controller.signal.aborted) return;
+      setHashProgress(null);
+      setUpdateTick(prev => prev + 1);
+    });
+    return () => {
+      controller.abort();
+      setHashProgress(null);
+    };
+  }, [viewMode, allImages]);
+
+  // Grouping is redone only when hashes or the threshold change; the view debounces the slider
+  const duplicateGroups = useMemo(
+    () => (viewMode === ViewMode.DUPLICATES && !hashProgress ? findDuplicates(allImages, similarityThreshold) : []),
+    [viewMode, allImages, similarityThreshold, hashProgress]
+  );
+
+  // Caption stats for the whole workspace or the open folder; captions load in the background,
+  // so they are recounted on every tick while the view is open
+  const statsFolder = statsInFolder && currentNode && currentNode !== rootNode && currentNode.type === 'folder' ? currentNode : undefined;
+  const captionStats = useMemo(() => {
+    if (viewMode !== ViewMode.STATS) return null;
+    const nodes = statsFolder ? allImages.filter(createSubsetFilter([statsFolder])) : allImages;
+    return { stats: computeCaptionStats(nodes, tokenLimit), folders: computeFolderCaptionStats(nodes, tokenLimit) };
+  }, [viewMode, statsFolder, allImages, tokenLimit, updateTick]);
+
+  const bucketReport = useMemo(
+    () => (viewMode === ViewMode.RESOLUTION ? computeBucketReport(allImages, bucketSettings) : null),
+    [viewMode, allImages, bucketSettings, updateTick]
+  );
+
   const galleryNodes = useMemo(() => {
-    if (viewMode === ViewMode.ALL_PHOTOS) {
-      return allImages;
+    // Duplicates keep their group order so the lightbox steps through one group after the other
+    if (viewMode === ViewMode.DUPLICATES) return duplicateGroups.flatMap(group => group.nodes);
+    const nodes = viewMode === ViewMode.ALL_PHOTOS ? allImages
+      : viewMode === ViewMode.SEARCH ? allImages.filter(compileQuery(parsedQuery))
+      : currentNode ? currentNode.children : [];
+    return sortNodes(nodes, sort);
+  }, [viewMode, currentNode, allImages, parsedQuery, sort, duplicateGroups, updateTick]); // Depend on updateTick
+
+  const galleryGroups = useMemo(
+    () => groupNodes(galleryNodes.filter(n => n.type === 'file'), viewMode === ViewMode.ALL_PHOTOS ? grouping : 'none'),
+    [galleryNodes, viewMode, grouping]
+  );
+
+  // Display order across groups; the lightbox steps through images in this order
+  const orderedImages = useMemo(() => galleryGroups.flatMap(group => group.nodes), [galleryGroups]);
+
+  // What a batch caption edit can run over, narrowest first
+  const captionBatchScopes = useMemo<CaptionBatchScope[]>(() => {
+    if (!isCaptionBatchOpen) return [];
+    const scopes: CaptionBatchScope[] = [{ id: 'selection', label: 'Selection', nodes: selectedNodes }];
+    if (searchQuery.trim()) {
+      scopes.push({ id: 'search', label: `Search "${searchQuery.trim()}"`, nodes: allImages.filter(compileQuery(parsedQuery)) });
     }
-    return currentNode ? currentNode.children : [];
-  }, [viewMode, currentNode, allImages, updateTick]); // Depend on updateTick
+    if (currentNode && currentNode !== rootNode) {
+      scopes.push({ id: 'folder', label: `Folder ${currentNode.name}`, nodes: allImages.filter(createSubsetFilter([currentNode])) });
+    }
+    scopes.push({ id: 'workspace', label: 'Whole workspace', nodes: allImages });
+    return scopes;
+  }, [isCaptionBatchOpen, selectedNodes, searchQuery, parsedQuery, currentNode, rootNode, allImages]);
+
+  // Escape clears the selection, Ctrl+A selects the view, Ctrl+Z / Ctrl+Shift+Z step through bulk actions,
+  // 0-5 and 6-9 rate and label the selection
+  useEffect(() => {
+    if (!rootNode || lightboxNode || cullingNodes || compareNodes || isShareModalOpen || isApplyModalOpen || isCaptionBatchOpen) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.closest('input, textarea, select, [contenteditable="true"]')) return;
+      const modifier = e.ctrlKey || e.metaKey;
+
+      if (e.key === 'Escape') {
+        setSelection(new Set());
+      } else if (modifier && e.key.toLowerCase() === 'a') {
+        e.preventDefault();
+        setSelection(new Set(galleryNodes.filter(node => node.type === 'file')));
+      } else if (modifier && e.key.toLowerCase() === 'z') {
+        e.preventDefault();
+        if (e.shiftKey) handleBulkRedo();
+        else handleBulkUndo();
+      } else if (modifier && e.key.toLowerCase() === 'y') {
+        e.preventDefault();
+        handleBulkRedo();
+      } else {
+        const review = reviewKeyAction(e);
+        if (review?.kind === 'rating') handleRate(selectedNodes, review.rating);
+        if (review?.kind === 'label') handleColorLabel(selectedNodes, review.label);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [rootNode, lightboxNode, cullingNodes, compareNodes, isShareModalOpen, isApplyModalOpen, isCaptionBatchOpen, galleryNodes, selectedNodes]);
+
+  // What the lightbox steps through and shows in its filmstrip
+  const lightboxImages = useMemo(() => orderedImages.filter(n => !n.isDeleted), [orderedImages]);
 
   const handleNextImage = () => {
     if (!lightboxNode) return;
-    const currentList = galleryNodes.filter(n => n.type === 'file' && !n.isDeleted); 
-    const idx = currentList.findIndex(n => n.id === lightboxNode.id);
-    if (idx !== -1 && idx < currentList.length - 1) {
-      setLightboxNode(currentList[idx + 1]);
+    const idx = lightboxImages.indexOf(lightboxNode);
+    if (idx !== -1 && idx < lightboxImages.length - 1) {
+      setLightboxNode(lightboxImages[idx + 1]);
     }
   };
 
   const handlePrevImage = () => {
     if (!lightboxNode) return;
-    const currentList = galleryNodes.filter(n => n.type === 'file' && !n.isDeleted);
-    const idx = currentList.findIndex(n => n.id === lightboxNode.id);
+    const idx = lightboxImages.indexOf(lightboxNode);
     if (idx !== -1 && idx > 0) {
-      setLightboxNode(currentList[idx - 1]);
+      setLightboxNode(lightboxImages[idx - 1]);
     }
   };
 
@@ -239,6 +655,19 @@ const App: React.FC = () => {
                             </svg>
                             Open Local Folder
                         </button>
+
+                        {isFileSystemAccessSupported() && (
+                            <button 
+                                onClick={handleOpenWritable}
+                                disabled={isImporting}
+                                className="w-full sm:w-auto px-8 py-4 bg-white/5 text-gray-300 border border-white/10 font-medium rounded-xl transition-all duration-300 hover:bg-white/10 hover:text-white hover:border-white/20 backdrop-blur-sm flex items-center justify-center gap-2"
+                            >
+                                <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+                                </svg>
+                                Open Folder (Read/Write)
+                            </button>
+                        )}
                         
                         <button 
                             onClick={() => importInputRef.current?.click()}
@@ -251,17 +680,25 @@ const App: React.FC = () => {
                             {isImporting ? 'Loading...' : 'Import Snapshot'}
                         </button>
                     </div>
+
+                    {/* Autosaved sessions */}
+                    <SessionPicker
+                        sessions={savedSessions}
+                        onResume={handleResumeSession}
+                        onDiscard={handleDiscardSession}
+                        disabled={isImporting}
+                    />
                 </div>
 
                  {/* Hidden Inputs */}
                 <input ref={fileInputRef} type="file" webkitdirectory="" directory="" multiple className="hidden" onChange={handleUpload} />
-                <input ref={importInputRef} type="file" accept=".afm,.json" className="hidden" onChange={handleImport} />
+                <input ref={importInputRef} type="file" accept=".afm,.json,.zip" className="hidden" onChange={handleImport} />
             </div>
         ) : (
             // --- Main Application Dashboard ---
             <>
                 <div className="hidden md:block h-full relative z-20">
-                     <Sidebar root={rootNode} selectedNode={currentNode} onSelect={handleSelectNode} />
+                     <Sidebar root={rootNode} selectedNode={currentNode} onSelect={handleSelectNode} actions={folderActions} collections={collectionActions} />
                 </div>
                 
                 <div className="flex-1 flex flex-col h-full overflow-hidden relative bg-white/[0.02] md:rounded-l-3xl border-l border-white/5 shadow-2xl">
@@ -276,6 +713,34 @@ const App: React.FC = () => {
                                 <button onClick={() => setViewMode(ViewMode.ALL_PHOTOS)} className={`px-5 py-2 rounded-lg text-xs font-bold transition-all duration-300 ${viewMode === ViewMode.ALL_PHOTOS ? 'bg-indigo-600 text-white shadow-lg shadow-indigo-500/20' : 'text-gray-400 hover:text-white hover:bg-white/5'}`}>
                                     All Assets
                                 </button>
+                                <button onClick={() => setViewMode(ViewMode.DUPLICATES)} className={`px-5 py-2 rounded-lg text-xs font-bold transition-all duration-300 ${viewMode === ViewMode.DUPLICATES ? 'bg-indigo-600 text-white shadow-lg shadow-indigo-500/20' : 'text-gray-400 hover:text-white hover:bg-white/5'}`}>
+                                    Duplicates
+                                </button>
+                                <button onClick={() => setViewMode(ViewMode.STATS)} className={`px-5 py-2 rounded-lg text-xs font-bold transition-all duration-300 ${viewMode === ViewMode.STATS ? 'bg-indigo-600 text-white shadow-lg shadow-indigo-500/20' : 'text-gray-400 hover:text-white hover:bg-white/5'}`}>
+                                    Stats
+                                </button>
+                                <button onClick={() => setViewMode(ViewMode.RESOLUTION)} className={`px-5 py-2 rounded-lg text-xs font-bold transition-all duration-300 ${viewMode === ViewMode.RESOLUTION ? 'bg-indigo-600 text-white shadow-lg shadow-indigo-500/20' : 'text-gray-400 hover:text-white hover:bg-white/5'}`}>
+                                    Resolution
+                                </button>
+                            </div>
+
+                            {/* Search, e.g. path:portraits caption:"red dress" width:<768 deleted:false ext:png */}
+                            <div className="relative">
+                                <input
+                                    type="search"
+                                    value={searchQuery}
+                                    onChange={(e) => handleSearchChange(e.target.value)}
+                                    onFocus={() => searchQuery.trim() && setViewMode(ViewMode.SEARCH)}
+                                    onKeyDown={(e) => e.key === 'Escape' && handleSearchChange('')}
+                                    placeholder='Search, e.g. path:portraits caption:"red dress"'
+                                    title="Fields: name, path, caption, ctag, ext, tag, label, review, camera, lens, keyword, meta, width, height, size, iso, tokens, words, rating, deleted, has. Prefix with - to exclude."
+                                    className={`w-72 bg-black/40 border rounded-xl px-4 py-2 text-xs text-gray-200 outline-none placeholder:text-gray-600 ${parsedQuery.errors.length > 0 ? 'border-amber-500/40' : viewMode === ViewMode.SEARCH ? 'border-indigo-500/50' : 'border-white/5 focus:border-indigo-500/50'}`}
+                                />
+                                {parsedQuery.errors.length > 0 && (
+                                    <div className="absolute top-full left-0 mt-1 text-[10px] text-amber-400 whitespace-nowrap">
+                                        {parsedQuery.errors[0]}{parsedQuery.errors.length > 1 && ` (+${parsedQuery.errors.length - 1} more)`}
+                                    </div>
+                                )}
                             </div>
                         </div>
 
@@ -286,12 +751,49 @@ const App: React.FC = () => {
                                     <span className="text-sm text-gray-200 font-mono">{stats.totalFiles}</span>
                                 </div>
                                 <div className="w-[1px] h-8 bg-white/10"></div>
+                                <div
+                                    className="flex flex-col"
+                                    title={captionReport ? `${captionReport.uncaptionedImages.length} image(s) without caption, ${captionReport.orphanCaptions.length} orphan caption file(s)` : undefined}
+                                >
+                                    <span className="text-[10px] text-gray-500 uppercase tracking-wider font-bold">Captions</span>
+                                    <span className="text-sm text-gray-200 font-mono">
+                                        {stats.totalCaptions}
+                                        {captionReport && captionReport.orphanCaptions.length > 0 && (
+                                            <span className="text-amber-400"> · {captionReport.orphanCaptions.length} orphan</span>
+                                        )}
+                                    </span>
+                                </div>
+                                <div className="w-[1px] h-8 bg-white/10"></div>
                                 <div className="flex flex-col">
                                     <span className="text-[10px] text-gray-500 uppercase tracking-wider font-bold">Size</span>
                                     <span className="text-sm text-gray-200 font-mono">{stats.totalSize > 0 ? (stats.totalSize / 1024 / 1024).toFixed(0) + ' MB' : 'Local'}</span>
                                 </div>
+                                <div className="w-[1px] h-8 bg-white/10"></div>
+                                <div className="flex flex-col" title={`Estimated snapshot size with "${exportProfile.name}"`}>
+                                    <span className="text-[10px] text-gray-500 uppercase tracking-wider font-bold">Export</span>
+                                    <span className="text-sm text-gray-200 font-mono">~{formatBytes(stats.estimatedExportSize || 0, 0)}</span>
+                                </div>
                             </div>
                             
+                            {isWritable && (
+                                <button onClick={() => setIsApplyModalOpen(true)} className="text-gray-300 hover:text-white border border-white/10 hover:border-white/20 px-4 py-2 rounded-lg text-xs font-bold transition-colors">
+                                    Apply Changes
+                                </button>
+                            )}
+
+                            <button
+                                onClick={() => setCullingNodes(orderedImages)}
+                                disabled={orderedImages.length === 0}
+                                title="Review the images in this view one at a time with the keyboard"
+                                className="text-gray-300 hover:text-white border border-white/10 hover:border-white/20 px-4 py-2 rounded-lg text-xs font-bold transition-colors disabled:opacity-30"
+                            >
+                                Cull
+                            </button>
+
+                            <button onClick={() => setIsCaptionBatchOpen(true)} className="text-gray-300 hover:text-white border border-white/10 hover:border-white/20 px-4 py-2 rounded-lg text-xs font-bold transition-colors">
+                                Batch Captions
+                            </button>
+
                             <button onClick={handleReset} className="text-gray-500 hover:text-red-400 px-3 py-2 rounded-lg text-xs font-medium transition-colors">
                                 Reset Workspace
                             </button>
@@ -304,12 +806,76 @@ const App: React.FC = () => {
                     </header>
 
                     <main className="flex-1 overflow-hidden relative">
-                        <Gallery 
-                            nodes={galleryNodes} 
-                            onImageClick={setLightboxNode} 
-                            onFolderClick={handleSelectNode} 
-                            onToggleDelete={handleToggleDelete}
-                            title={viewMode === ViewMode.ALL_PHOTOS ? 'All Photos' : (currentNode?.name || 'Library')} 
+                        {viewMode === ViewMode.DUPLICATES ? (
+                            <DuplicatesView
+                                groups={duplicateGroups}
+                                progress={hashProgress}
+                                threshold={similarityThreshold}
+                                onThresholdChange={setSimilarityThreshold}
+                                onKeepBest={(groups) => runBulkCommand(createKeepBestCommand(groups))}
+                                onCompare={setCompareNodes}
+                                onToggleDelete={handleToggleDelete}
+                                onImageClick={setLightboxNode}
+                            />
+                        ) : viewMode === ViewMode.STATS && captionStats ? (
+                            <CaptionStatsView
+                                stats={captionStats.stats}
+                                folders={captionStats.folders}
+                                scopeFolder={statsFolder}
+                                canScopeToFolder={!!currentNode && currentNode !== rootNode && currentNode.type === 'folder'}
+                                onScopeChange={setStatsInFolder}
+                                tokenLimit={tokenLimit}
+                                onTokenLimitChange={setTokenLimit}
+                                onSearch={handleSearchChange}
+                                onFolderClick={handleSelectNode}
+                            />
+                        ) : viewMode === ViewMode.RESOLUTION && bucketReport ? (
+                            <ResolutionView
+                                report={bucketReport}
+                                settings={bucketSettings}
+                                onSettingsChange={setBucketSettings}
+                                onSelect={(nodes) => setSelection(new Set(nodes))}
+                                onDelete={(nodes) => runBulkCommand(createDeleteCommand(nodes, true))}
+                                onTag={(nodes, tags) => runBulkCommand(createTagCommand(nodes, tags))}
+                                onImageClick={setLightboxNode}
+                            />
+                        ) : (
+                            <Gallery 
+                                nodes={galleryNodes} 
+                                groups={galleryGroups}
+                                sort={sort}
+                                onSortChange={setSort}
+                                grouping={viewMode === ViewMode.ALL_PHOTOS ? grouping : undefined}
+                                onGroupingChange={setGrouping}
+                                onImageClick={setLightboxNode} 
+                                onFolderClick={handleSelectNode} 
+                                onDropNodes={handleDropNodes}
+                                onToggleDelete={handleToggleDelete}
+                                onEditCaption={handleEditCaption}
+                                onUndoCaption={handleUndoCaption}
+                                onRedoCaption={handleRedoCaption}
+                                selection={selection}
+                                onSelectionChange={setSelection}
+                                title={viewMode === ViewMode.ALL_PHOTOS ? 'All Photos' : viewMode === ViewMode.SEARCH ? `Search (${galleryNodes.length})` : (currentNode?.name || 'Library')} 
+                            />
+                        )}
+                        <SelectionBar
+                            selection={selectedNodes}
+                            folders={folders}
+                            undoLabel={commandHistoryRef.current.undoStack[commandHistoryRef.current.undoStack.length - 1]?.label}
+                            redoLabel={commandHistoryRef.current.redoStack[commandHistoryRef.current.redoStack.length - 1]?.label}
+                            onSetDeleted={(isDeleted) => runBulkCommand(createDeleteCommand(selectedNodes, isDeleted))}
+                            onMove={(folder) => runBulkCommand(createMoveCommand(selectedNodes, folder))}
+                            onAddTags={(tags) => runBulkCommand(createTagCommand(selectedNodes, tags))}
+                            onRate={(rating) => handleRate(selectedNodes, rating)}
+                            onLabel={(label) => handleColorLabel(selectedNodes, label)}
+                            onTransform={(action) => runBulkCommand(createTransformCommand(selectedNodes, action))}
+                            onEditCaptions={handleBulkCaptions}
+                            onExport={handleExportSelection}
+                            onCompare={() => setCompareNodes(selectedNodes)}
+                            onClear={() => setSelection(new Set())}
+                            onUndo={handleBulkUndo}
+                            onRedo={handleBulkRedo}
                         />
                     </main>
                 </div>
@@ -319,11 +885,66 @@ const App: React.FC = () => {
 
       {/* Lightbox Overlay (Global z-index 50) */}
       {lightboxNode && (
-        <Lightbox node={lightboxNode} onClose={() => setLightboxNode(null)} onNext={handleNextImage} onPrev={handlePrevImage} />
+        <Lightbox
+            node={lightboxNode}
+            images={lightboxImages}
+            onSelect={setLightboxNode}
+            onClose={() => setLightboxNode(null)}
+            onNext={handleNextImage}
+            onPrev={handlePrevImage}
+            onEditCaption={handleEditCaption}
+            onUndoCaption={handleUndoCaption}
+            onRedoCaption={handleRedoCaption}
+            onTransform={handleTransform}
+            onRate={(node, rating) => handleRate([node], rating)}
+            onLabel={(node, label) => handleColorLabel([node], label)}
+            onAddTags={(node, tags) => runBulkCommand(createTagCommand([node], tags))}
+            onRemoveTag={(node, tag) => runBulkCommand(createUntagCommand([node], [tag]))}
+        />
+      )}
+
+      {cullingNodes && (
+        <CullingView
+            nodes={cullingNodes}
+            undoLabel={commandHistoryRef.current.undoStack[commandHistoryRef.current.undoStack.length - 1]?.label}
+            onReview={(node, change) => runBulkCommand(createReviewCommand(node, change))}
+            onUndo={handleBulkUndo}
+            onResetReview={(nodes) => runBulkCommand(createResetReviewCommand(nodes))}
+            onClose={() => setCullingNodes(null)}
+        />
+      )}
+
+      {compareNodes && (
+        <CompareView
+            nodes={compareNodes}
+            onKeep={(keep, nodes) => runBulkCommand(createKeepOneCommand(keep, nodes))}
+            onUndo={handleBulkUndo}
+            onClose={() => setCompareNodes(null)}
+        />
       )}
 
       {/* Share Modal */}
-      <ShareModal isOpen={isShareModalOpen} onClose={() => setIsShareModalOpen(false)} rootNode={rootNode} stats={{ files: stats.totalFiles, size: stats.totalSize }} />
+      {/* Write-back dialog for read/write folders */}
+      <ApplyChangesModal isOpen={isApplyModalOpen} onClose={() => setIsApplyModalOpen(false)} images={allImages} onApplied={handleChangesApplied} />
+
+      <CaptionBatchModal
+        isOpen={isCaptionBatchOpen}
+        onClose={() => setIsCaptionBatchOpen(false)}
+        scopes={captionBatchScopes}
+        onApply={(changes, description) => runBulkCommand(createCaptionBatchCommand(changes, description))}
+      />
+
+      <ShareModal
+        isOpen={isShareModalOpen}
+        onClose={() => setIsShareModalOpen(false)}
+        rootNode={rootNode}
+        currentNode={currentNode}
+        visibleNodes={galleryNodes}
+        selection={selectedNodes}
+        initialScope={shareScope}
+        profile={exportProfile}
+        onProfileChange={setExportProfile}
+      />
     </div>
   );
 };
@@ -0,0 +1,135 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { ApplyResult, FileNode } from '../types';
+import { applyChanges, planChanges, TRASH_FOLDER } from '../utils/fileSystem';
+
+interface ApplyChangesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  images: FileNode[];
+  onApplied: (result: ApplyResult) => void;
+}
+
+export const ApplyChangesModal: React.FC<ApplyChangesModalProps> = ({ isOpen, onClose, images, onApplied }) => {
+  const [step, setStep] = useState<'review' | 'applying' | 'done'>('review');
+  const [progress, setProgress] = useState(0);
+  const [result, setResult] = useState<ApplyResult | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setStep('review');
+      setProgress(0);
+      setResult(null);
+    }
+  }, [isOpen]);
+
+  // The dry run is recomputed every time the dialog opens so it reflects the latest edits
+  const changes = useMemo(() => (isOpen ? planChanges(images) : []), [isOpen, images]);
+  const trashCount = changes.filter(c => c.kind === 'trash').length;
+  const captionCount = changes.length - trashCount;
+
+  const handleApply = async () => {
+    setStep('applying');
+    const applyResult = await applyChanges(changes, (done) => {
+      setProgress(Math.round((done / changes.length) * 100));
+    });
+    setResult(applyResult);
+    setStep('done');
+    onApplied(applyResult);
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/90 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+      <div className="bg-gray-900 border border-gray-800 rounded-2xl w-full max-w-2xl p-6 shadow-2xl relative flex flex-col max-h-[85vh]">
+        <button onClick={onClose} disabled={step === 'applying'} className="absolute top-4 right-4 text-gray-500 hover:text-white transition-colors">
+          <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+
+        <h2 className="text-xl font-bold text-white mb-2">Apply Changes to Disk</h2>
+        <p className="text-gray-400 text-sm mb-6">
+            Review what will be written to the opened folder. Deleted images are moved to <span className="font-mono text-gray-300">{TRASH_FOLDER}/</span>, never erased.
+        </p>
+
+        {step === 'review' && (
+          <>
+            {changes.length === 0 ? (
+              <div className="bg-white/5 border border-white/10 p-4 rounded-xl mb-6 text-center text-sm text-gray-400">
+                Nothing to apply. The folder on disk already matches the workspace.
+              </div>
+            ) : (
+              <>
+                <div className="bg-indigo-900/30 border border-indigo-500/30 p-4 rounded-xl mb-4">
+                  <p className="text-indigo-200 text-sm font-medium">{changes.length} change(s)</p>
+                  <p className="text-indigo-400/60 text-xs mt-1">{trashCount} file(s) to trash · {captionCount} caption(s) to save</p>
+                </div>
+                <div className="flex-1 overflow-y-auto custom-scrollbar mb-6 border border-white/5 rounded-xl divide-y divide-white/5">
+                  {changes.map((change) => (
+                    <div key={`${change.kind}:${change.path}`} className="p-3 text-xs font-mono">
+                      {change.kind === 'trash' ? (
+                        <p className="text-red-300">
+                          <span className="font-bold">MOVE</span> {change.path}
+                          {change.sidecar && <span className="text-red-400/60"> (+ {change.sidecar})</span>}
+                          <span className="text-gray-500"> → {TRASH_FOLDER}/</span>
+                        </p>
+                      ) : (
+                        <>
+                          <p className="text-emerald-300"><span className="font-bold">WRITE</span> {change.path}</p>
+                          {change.before !== undefined && (
+                            <p className="text-red-400/80 whitespace-pre-wrap mt-1 line-clamp-3">- {change.before}</p>
+                          )}
+                          <p className="text-emerald-400/80 whitespace-pre-wrap mt-1 line-clamp-3">+ {change.after}</p>
+                        </>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
+            <button
+              onClick={handleApply}
+              disabled={changes.length === 0}
+              className="w-full bg-indigo-600 hover:bg-indigo-500 disabled:opacity-40 disabled:hover:bg-indigo-600 text-white font-bold py-3 px-4 rounded-xl transition-colors shadow-lg shadow-indigo-900/20"
+            >
+              Apply {changes.length} Change(s)
+            </button>
+          </>
+        )}
+
+        {step === 'applying' && (
+          <div className="py-8">
+            <div className="flex justify-between text-xs font-mono text-gray-400 mb-2">
+              <span>WRITING TO DISK...</span>
+              <span>{progress}%</span>
+            </div>
+            <div className="h-2 bg-gray-800 rounded-full overflow-hidden">
+              <div className="h-full bg-indigo-500 transition-all duration-300" style={{ width: `${progress}%` }} />
+            </div>
+          </div>
+        )}
+
+        {step === 'done' && result && (
+          <div className="py-2">
+            <h3 className="text-center text-white font-medium mb-1">
+              {result.failed.length === 0 ? 'All changes applied' : `${result.applied.length} applied, ${result.failed.length} failed`}
+            </h3>
+            {result.failed.length > 0 && (
+              <div className="max-h-48 overflow-y-auto custom-scrollbar my-4 border border-red-500/20 rounded-xl divide-y divide-white/5">
+                {result.failed.map(({ change, error }) => (
+                  <p key={`${change.kind}:${change.path}`} className="p-3 text-xs font-mono text-red-300">
+                    {change.path}: <span className="text-gray-400">{error}</span>
+                  </p>
+                ))}
+              </div>
+            )}
+            <button onClick={onClose} className="block w-full mt-3 text-gray-500 hover:text-gray-300 text-sm py-2">
+              Close
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
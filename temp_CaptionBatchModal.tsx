@@ -0,0 +1,212 @@
+import React, { useState, useEffect } from 'react';
+import { CaptionChange, CaptionOperation, FileNode } from '../types';
+import {
+  CAPTION_OPERATION_LABELS, createCaptionOperation, describeOperationError, diffWords, previewCaptionBatch
+} from '../utils/captionBatch';
+
+// Images a batch can run over, e.g. the current folder or the selection
+export interface CaptionBatchScope {
+  id: string;
+  label: string;
+  nodes: FileNode[];
+}
+
+interface CaptionBatchModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  scopes: CaptionBatchScope[]; // Empty scopes are listed but disabled
+  onApply: (changes: CaptionChange[], description: string) => void;
+}
+
+// Rendering every diff of a big batch would stall the dialog; the count still covers all of them
+const MAX_PREVIEW_ROWS = 200;
+
+const inputClass = 'bg-gray-800 border border-white/10 rounded-md px-2 py-1 text-xs text-gray-200 outline-none focus:border-indigo-500/50';
+
+const describeOperations = (operations: CaptionOperation[]) =>
+  operations.map(operation => {
+    if (operation.kind === 'trigger') return `${operation.position === 'prepend' ? 'Prepend' : 'Append'} "${operation.word.trim()}"`;
+    if (operation.kind === 'replace') return `Replace "${operation.find}"`;
+    return CAPTION_OPERATION_LABELS[operation.kind];
+  }).join(', ');
+
+const OperationEditor: React.FC<{
+  operation: CaptionOperation;
+  onChange: (operation: CaptionOperation) => void;
+}> = ({ operation, onChange }) => {
+  switch (operation.kind) {
+    case 'trigger':
+      return (
+        <div className="flex items-center gap-2">
+          <select value={operation.position} onChange={(e) => onChange({ ...operation, position: e.target.value as 'prepend' | 'append' })} className={inputClass}>
+            <option value="prepend">Prepend</option>
+            <option value="append">Append</option>
+          </select>
+          <input value={operation.word} onChange={(e) => onChange({ ...operation, word: e.target.value })} placeholder="ohwx person" className={`${inputClass} flex-1`} />
+        </div>
+      );
+    case 'replace':
+      return (
+        <div className="flex flex-col gap-2">
+          <div className="flex items-center gap-2">
+            <input value={operation.find} onChange={(e) => onChange({ ...operation, find: e.target.value })} placeholder={operation.regex ? 'Pattern, e.g. \\bgirl\\b' : 'Find'} className={`${inputClass} flex-1 font-mono`} />
+            <input value={operation.replace} onChange={(e) => onChange({ ...operation, replace: e.target.value })} placeholder={operation.regex ? 'Replace, $1 for groups' : 'Replace'} className={`${inputClass} flex-1 font-mono`} />
+          </div>
+          <div className="flex items-center gap-4 text-[11px] text-gray-400">
+            <label className="flex items-center gap-1.5">
+              <input type="checkbox" checked={operation.regex} onChange={(e) => onChange({ ...operation, regex: e.target.checked })} className="accent-indigo-500" />
+              Regular expression
+            </label>
+            <label className="flex items-center gap-1.5">
+              <input type="checkbox" checked={operation.caseSensitive} onChange={(e) => onChange({ ...operation, caseSensitive: e.target.checked })} className="accent-indigo-500" />
+              Match case
+            </label>
+          </div>
+        </div>
+      );
+    case 'normalize-tags':
+      return (
+        <label className="flex items-center gap-1.5 text-[11px] text-gray-400">
+          <input type="checkbox" checked={operation.sort} onChange={(e) => onChange({ ...operation, sort: e.target.checked })} className="accent-indigo-500" />
+          Sort alphabetically
+        </label>
+      );
+    default:
+      return null;
+  }
+};
+
+export const CaptionBatchModal: React.FC<CaptionBatchModalProps> = ({ isOpen, onClose, scopes, onApply }) => {
+  const [scopeId, setScopeId] = useState('');
+  const [operations, setOperations] = useState<CaptionOperation[]>([createCaptionOperation('trigger')]);
+  const [changes, setChanges] = useState<CaptionChange[] | null>(null); // Set once previewed
+  const [isPreviewing, setIsPreviewing] = useState(false);
+
+  // Start from the narrowest scope that has images, usually the selection
+  useEffect(() => {
+    if (!isOpen) return;
+    setChanges(null);
+    setScopeId(scopes.find(scope => scope.nodes.length > 0)?.id || '');
+  }, [isOpen]);
+
+  // Any edit invalidates the preview
+  useEffect(() => setChanges(null), [scopeId, operations]);
+
+  if (!isOpen) return null;
+
+  const scope = scopes.find(s => s.id === scopeId);
+  const errors = operations.map(describeOperationError);
+  const firstError = errors.find(error => error !== null);
+
+  const updateOperation = (index: number, operation: CaptionOperation) =>
+    setOperations(prev => prev.map((current, i) => (i === index ? operation : current)));
+
+  const handlePreview = async () => {
+    if (!scope || firstError) return;
+    setIsPreviewing(true);
+    try {
+      setChanges(await previewCaptionBatch(scope.nodes, operations));
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  const handleApply = () => {
+    if (!changes || changes.length === 0) return;
+    onApply(changes, describeOperations(operations));
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/90 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+      <div className="bg-gray-900 border border-gray-800 rounded-2xl w-full max-w-3xl p-6 shadow-2xl relative flex flex-col max-h-[90vh]">
+        <button onClick={onClose} className="absolute top-4 right-4 text-gray-500 hover:text-white transition-colors">
+          <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+
+        <h2 className="text-xl font-bold text-white mb-2">Batch Edit Captions</h2>
+        <p className="text-gray-400 text-sm mb-6">
+          Steps run in order on every caption. Preview the result, then apply it as one step you can undo.
+        </p>
+
+        <label className="flex items-center justify-between text-xs text-gray-400 mb-4 px-1">
+          <span>Run on</span>
+          <select value={scopeId} onChange={(e) => setScopeId(e.target.value)} className={inputClass}>
+            {scopes.map(s => (
+              <option key={s.id} value={s.id} disabled={s.nodes.length === 0}>{s.label} ({s.nodes.length})</option>
+            ))}
+          </select>
+        </label>
+
+        <div className="space-y-2 mb-3">
+          {operations.map((operation, index) => (
+            <div key={index} className="bg-white/[0.03] border border-white/5 rounded-xl p-3">
+              <div className="flex items-center justify-between mb-2">
+                <span className="text-[10px] font-bold text-gray-500 uppercase tracking-[0.2em]">{index + 1}. {CAPTION_OPERATION_LABELS[operation.kind]}</span>
+                <button onClick={() => setOperations(prev => prev.filter((_, i) => i !== index))} className="text-gray-500 hover:text-red-400 text-xs">Remove</button>
+              </div>
+              <OperationEditor operation={operation} onChange={(next) => updateOperation(index, next)} />
+              {errors[index] && <p className="text-[11px] text-amber-400 mt-2">{errors[index]}</p>}
+            </div>
+          ))}
+        </div>
+
+        <div className="flex items-center gap-2 mb-4">
+          <span className="text-xs text-gray-500">Add step:</span>
+          {(Object.keys(CAPTION_OPERATION_LABELS) as CaptionOperation['kind'][]).map(kind => (
+            <button
+              key={kind}
+              onClick={() => setOperations(prev => [...prev, createCaptionOperation(kind)])}
+              className="px-2 py-1 rounded-md text-[11px] border border-white/10 text-gray-300 hover:text-white hover:bg-white/10 transition-colors"
+            >
+              {CAPTION_OPERATION_LABELS[kind]}
+            </button>
+          ))}
+        </div>
+
+        {changes && (
+          <div className="flex-1 min-h-0 overflow-y-auto custom-scrollbar mb-4 border border-white/5 rounded-xl divide-y divide-white/5">
+            {changes.length === 0 && <p className="p-4 text-xs text-gray-500 text-center">No caption would change.</p>}
+            {changes.slice(0, MAX_PREVIEW_ROWS).map(change => (
+              <div key={change.node.id} className="p-3 text-xs">
+                <p className="text-gray-500 font-mono mb-1 truncate">{change.node.path}</p>
+                <p className="text-gray-300 font-mono whitespace-pre-wrap">
+                  {diffWords(change.before || '', change.after || '').map((part, i) => (
+                    <span
+                      key={i}
+                      className={part.type === 'added' ? 'bg-emerald-500/20 text-emerald-300' : part.type === 'removed' ? 'bg-red-500/20 text-red-300 line-through' : undefined}
+                    >
+                      {part.text}
+                    </span>
+                  ))}
+                </p>
+              </div>
+            ))}
+            {changes.length > MAX_PREVIEW_ROWS && (
+              <p className="p-3 text-xs text-gray-500 text-center">and {changes.length - MAX_PREVIEW_ROWS} more</p>
+            )}
+          </div>
+        )}
+
+        <div className="flex gap-3">
+          <button
+            onClick={handlePreview}
+            disabled={!scope || operations.length === 0 || !!firstError || isPreviewing}
+            className="flex-1 border border-white/10 hover:bg-white/10 disabled:opacity-40 text-gray-200 font-bold py-3 px-4 rounded-xl transition-colors"
+          >
+            {isPreviewing ? 'Reading captions...' : 'Preview'}
+          </button>
+          <button
+            onClick={handleApply}
+            disabled={!changes || changes.length === 0}
+            className="flex-1 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-40 disabled:hover:bg-indigo-600 text-white font-bold py-3 px-4 rounded-xl transition-colors shadow-lg shadow-indigo-900/20"
+          >
+            Apply to {changes?.length ?? 0} Caption(s)
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,192 @@
+import React from 'react';
+import { CaptionStats, FileNode, FolderCaptionStats } from '../types';
+
+interface CaptionStatsViewProps {
+  stats: CaptionStats;
+  folders: FolderCaptionStats[];
+  scopeFolder?: FileNode; // Undefined covers the whole workspace
+  canScopeToFolder: boolean;
+  onScopeChange: (toFolder: boolean) => void;
+  tokenLimit: number;
+  onTokenLimitChange: (limit: number) => void;
+  onSearch: (query: string) => void;
+  onFolderClick: (folder: FileNode) => void;
+}
+
+// Tags beyond this are still counted, just not listed
+const MAX_LISTED_TAGS = 100;
+
+const quote = (value: string) => `"${value.replace(/"/g, '')}"`;
+
+const StatCard: React.FC<{ label: string; value: string | number; tone?: 'warn'; onClick?: () => void }> = ({ label, value, tone, onClick }) => (
+  <button
+    onClick={onClick}
+    disabled={!onClick}
+    className="flex flex-col items-start rounded-xl border border-white/5 bg-white/[0.02] px-4 py-3 text-left enabled:hover:bg-white/[0.05] transition-colors"
+  >
+    <span className="text-[10px] text-gray-500 uppercase tracking-wider font-bold">{label}</span>
+    <span className={`text-lg font-mono ${tone === 'warn' && value ? 'text-amber-400' : 'text-gray-200'}`}>{value}</span>
+  </button>
+);
+
+// Caption QA dashboard: every count and bar is a shortcut to the matching search
+export const CaptionStatsView: React.FC<CaptionStatsViewProps> = ({
+  stats, folders, scopeFolder, canScopeToFolder, onScopeChange, tokenLimit, onTokenLimitChange, onSearch, onFolderClick
+}) => {
+  // Stats leave deleted images out, so the searches do too
+  const search = (clause: string) => onSearch([scopeFolder && `path:${quote(`${scopeFolder.path}/`)}`, 'deleted:false', clause].filter(Boolean).join(' '));
+  const largestBucket = Math.max(1, ...stats.tokenHistogram.map(bucket => bucket.count));
+  const largestTag = stats.tagCounts[0]?.count || 1;
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="px-8 py-5 border-b border-white/5 flex items-center justify-between gap-6 flex-shrink-0">
+        <div>
+          <h2 className="text-lg text-white font-medium">Caption Statistics</h2>
+          <p className="text-xs text-gray-500 mt-1">
+            {scopeFolder ? `Images under ${scopeFolder.path}` : 'Whole workspace'} · deleted images are not counted
+          </p>
+        </div>
+        <div className="flex items-center gap-4">
+          <label className={`flex items-center gap-2 text-xs ${canScopeToFolder ? 'text-gray-300' : 'text-gray-600'}`}>
+            <input
+              type="checkbox"
+              checked={!!scopeFolder}
+              disabled={!canScopeToFolder}
+              onChange={(e) => onScopeChange(e.target.checked)}
+              className="accent-indigo-500"
+            />
+            Current folder only
+          </label>
+          <label className="flex items-center gap-2 text-xs text-gray-300" title="Estimated tokens a caption may use, e.g. 77 for CLIP">
+            Token limit
+            <input
+              type="number"
+              min={2}
+              max={1000}
+              value={tokenLimit}
+              onChange={(e) => {
+                const limit = Math.floor(Number(e.target.value));
+                if (limit >= 2) onTokenLimitChange(Math.min(1000, limit));
+              }}
+              className="w-16 bg-gray-800 border border-white/10 rounded-md px-2 py-1 text-xs text-gray-200 font-mono outline-none focus:border-indigo-500/50"
+            />
+          </label>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar px-8 py-6 space-y-8">
+        <div className="grid grid-cols-2 lg:grid-cols-6 gap-3">
+          <StatCard label="Images" value={stats.images} />
+          <StatCard label="Captioned" value={stats.captioned} onClick={() => search('has:caption')} />
+          <StatCard label="Empty" value={stats.empty} tone="warn" onClick={stats.empty ? () => search('has:sidecar -has:caption') : undefined} />
+          <StatCard label="Missing" value={stats.missing} tone="warn" onClick={stats.missing ? () => search('-has:sidecar') : undefined} />
+          <StatCard label={`Over ${tokenLimit} tokens`} value={stats.overLimit} tone="warn" onClick={stats.overLimit ? () => search(`tokens:>${tokenLimit}`) : undefined} />
+          <StatCard label="Average tokens" value={stats.averageTokens.toFixed(1)} />
+        </div>
+
+        <section>
+          <h3 className="text-[10px] font-bold text-gray-500 uppercase tracking-[0.2em] mb-3">Caption length (estimated tokens)</h3>
+          <div className="flex items-end gap-2 h-40">
+            {stats.tokenHistogram.map(bucket => {
+              const isOver = bucket.max === Infinity;
+              const label = isOver ? `>${tokenLimit}` : bucket.min === bucket.max ? `${bucket.min}` : `${bucket.min}–${bucket.max}`;
+              return (
+                <button
+                  key={bucket.min}
+                  onClick={() => search(isOver ? `tokens:>${tokenLimit}` : `tokens:${bucket.min}..${bucket.max}`)}
+                  disabled={bucket.count === 0}
+                  title={`${bucket.count} caption(s) with ${label} tokens`}
+                  className="flex-1 h-full flex flex-col justify-end items-center gap-1 group disabled:cursor-default"
+                >
+                  <span className="text-[10px] text-gray-400 font-mono">{bucket.count}</span>
+                  <div
+                    className={`w-full rounded-t-md transition-colors ${isOver ? 'bg-amber-500/60 group-enabled:group-hover:bg-amber-400' : 'bg-indigo-500/60 group-enabled:group-hover:bg-indigo-400'}`}
+                    style={{ height: `${(bucket.count / largestBucket) * 100}%`, minHeight: bucket.count ? 2 : 0 }}
+                  />
+                  <span className="text-[10px] text-gray-500 font-mono whitespace-nowrap">{label}</span>
+                </button>
+              );
+            })}
+          </div>
+        </section>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+          <section>
+            <h3 className="text-[10px] font-bold text-gray-500 uppercase tracking-[0.2em] mb-3">
+              Tag frequency ({stats.tagCounts.length} tags)
+            </h3>
+            {stats.tagCounts.length === 0 && <p className="text-xs text-gray-500">No comma-separated tags in the captions.</p>}
+            <div className="space-y-1">
+              {stats.tagCounts.slice(0, MAX_LISTED_TAGS).map(({ tag, count }) => (
+                <button
+                  key={tag}
+                  onClick={() => search(`ctag:${quote(tag)}`)}
+                  className="w-full flex items-center gap-3 text-xs text-left rounded-md px-2 py-1 hover:bg-white/5 transition-colors"
+                >
+                  <span className="w-40 truncate text-gray-300" title={tag}>{tag}</span>
+                  <div className="flex-1 h-2 rounded-full bg-white/5 overflow-hidden">
+                    <div className="h-full bg-indigo-500/60" style={{ width: `${(count / largestTag) * 100}%` }} />
+                  </div>
+                  <span className="w-10 text-right text-gray-400 font-mono">{count}</span>
+                </button>
+              ))}
+              {stats.tagCounts.length > MAX_LISTED_TAGS && (
+                <p className="text-[11px] text-gray-500 px-2">and {stats.tagCounts.length - MAX_LISTED_TAGS} more</p>
+              )}
+            </div>
+          </section>
+
+          <section>
+            <h3 className="text-[10px] font-bold text-gray-500 uppercase tracking-[0.2em] mb-3">
+              Used once ({stats.singletonTags.length} tags)
+            </h3>
+            {stats.singletonTags.length === 0 && <p className="text-xs text-gray-500">Every tag is used more than once.</p>}
+            <div className="flex flex-wrap gap-1.5">
+              {stats.singletonTags.slice(0, MAX_LISTED_TAGS).map(tag => (
+                <button
+                  key={tag}
+                  onClick={() => search(`ctag:${quote(tag)}`)}
+                  className="px-2 py-0.5 rounded-full text-[11px] border border-white/10 text-gray-300 hover:text-white hover:bg-white/10 transition-colors"
+                >
+                  {tag}
+                </button>
+              ))}
+              {stats.singletonTags.length > MAX_LISTED_TAGS && (
+                <span className="text-[11px] text-gray-500 px-2 py-0.5">and {stats.singletonTags.length - MAX_LISTED_TAGS} more</span>
+              )}
+            </div>
+          </section>
+        </div>
+
+        <section>
+          <h3 className="text-[10px] font-bold text-gray-500 uppercase tracking-[0.2em] mb-3">Per folder</h3>
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="font-medium py-2 px-2">Folder</th>
+                <th className="font-medium py-2 px-2 text-right">Images</th>
+                <th className="font-medium py-2 px-2 text-right">Captioned</th>
+                <th className="font-medium py-2 px-2 text-right">Missing or empty</th>
+                <th className="font-medium py-2 px-2 text-right">Over limit</th>
+                <th className="font-medium py-2 px-2 text-right">Avg. tokens</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-white/5">
+              {folders.map(row => (
+                <tr key={row.folder.id} onClick={() => onFolderClick(row.folder)} className="cursor-pointer hover:bg-white/5 transition-colors">
+                  <td className="py-2 px-2 text-gray-300 font-mono truncate max-w-xs" title={row.folder.path}>{row.folder.path || row.folder.name}</td>
+                  <td className="py-2 px-2 text-right text-gray-400 font-mono">{row.images}</td>
+                  <td className="py-2 px-2 text-right text-gray-400 font-mono">{row.captioned}</td>
+                  <td className={`py-2 px-2 text-right font-mono ${row.missing ? 'text-amber-400' : 'text-gray-400'}`}>{row.missing}</td>
+                  <td className={`py-2 px-2 text-right font-mono ${row.overLimit ? 'text-amber-400' : 'text-gray-400'}`}>{row.overLimit}</td>
+                  <td className="py-2 px-2 text-right text-gray-400 font-mono">{row.averageTokens.toFixed(1)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+      </div>
+    </div>
+  );
+};
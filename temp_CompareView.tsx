@@ -0,0 +1,267 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { CompareLayout, FileNode, PanZoom } from '../types';
+import { formatBytes, loadCaption } from '../utils/fileUtils';
+import { useImageUrl } from '../utils/imageUrls';
+import { FITTED, offsetFromCenter, panBy, panZoomToCss, ZOOM_STEP, zoomAt } from '../utils/zoom';
+import { fittedImageStyle, isTypingTarget, StageSize, useStageSize } from '../utils/stage';
+import { MetadataInspector } from './MetadataInspector';
+
+interface CompareViewProps {
+  nodes: FileNode[]; // Two to MAX_COMPARED_IMAGES
+  onKeep: (keep: FileNode, nodes: FileNode[]) => void; // Soft-deletes the others
+  onUndo: () => void;
+  onClose: () => void;
+}
+
+export const MAX_COMPARED_IMAGES = 4;
+
+// Fitted into the frame like the lightbox does it
+const FittedImage: React.FC<{ node: FileNode; frame: StageSize; view: PanZoom }> = ({ node, frame, view }) => {
+  const url = useImageUrl(node);
+  return (
+    <div className="absolute inset-0 flex items-center justify-center" style={{ transform: panZoomToCss(view) }}>
+      <img
+        src={url}
+        alt={node.name}
+        draggable={false}
+        className={`max-h-full max-w-full object-contain ${node.isDeleted ? 'grayscale brightness-50' : ''}`}
+        style={fittedImageStyle(node.transform, frame)}
+      />
+    </div>
+  );
+};
+
+// Wheel zooms around the pointer, dragging pans, double-click toggles between fitted and 2×.
+// Every frame writes to the same view, which keeps the panes in step.
+const ZoomFrame: React.FC<{
+  setView: React.Dispatch<React.SetStateAction<PanZoom>>;
+  className?: string;
+  onClick?: () => void;
+  children: (frame: StageSize) => React.ReactNode;
+}> = ({ setView, className = '', onClick, children }) => {
+  const ref = useRef<HTMLDivElement>(null);
+  const frame = useStageSize(ref);
+  const drag = useRef<{ x: number; y: number } | null>(null);
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element) return;
+    // Not through React: its wheel listeners are passive and cannot stop the page from scrolling
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = element.getBoundingClientRect();
+      const at = { x: e.clientX - rect.left - rect.width / 2, y: e.clientY - rect.top - rect.height / 2 };
+      setView(view => zoomAt(view, e.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP, at));
+    };
+    element.addEventListener('wheel', handleWheel, { passive: false });
+    return () => element.removeEventListener('wheel', handleWheel);
+  }, [setView]);
+
+  return (
+    <div
+      ref={ref}
+      className={`relative overflow-hidden select-none cursor-grab active:cursor-grabbing ${className}`}
+      onClick={onClick}
+      onPointerDown={(e) => {
+        drag.current = { x: e.clientX, y: e.clientY };
+        e.currentTarget.setPointerCapture(e.pointerId);
+      }}
+      onPointerMove={(e) => {
+        if (!drag.current) return;
+        const dx = e.clientX - drag.current.x;
+        const dy = e.clientY - drag.current.y;
+        drag.current = { x: e.clientX, y: e.clientY };
+        setView(view => panBy(view, dx, dy));
+      }}
+      onPointerUp={() => { drag.current = null; }}
+      onDoubleClick={(e) => {
+        const at = offsetFromCenter(e);
+        setView(view => (view.scale > 1 ? FITTED : zoomAt(view, 2, at)));
+      }}
+    >
+      {children(frame)}
+    </div>
+  );
+};
+
+const PaneDetails: React.FC<{ node: FileNode; showInfo: boolean }> = ({ node, showInfo }) => {
+  const [caption, setCaption] = useState(node.caption);
+
+  useEffect(() => {
+    setCaption(node.caption);
+    if (node.caption === undefined && node.captionFile) loadCaption(node).then(setCaption).catch(() => setCaption(undefined));
+  }, [node, node.caption]);
+
+  return (
+    <div className="h-40 flex flex-col border-t border-white/5 bg-gray-900/80">
+      <div className="px-4 py-2 flex items-center gap-3 text-xs border-b border-white/5">
+        <span className="text-white font-medium truncate" title={node.path}>{node.name}</span>
+        <span className="text-gray-500 font-mono shrink-0">
+          {node.width && node.height ? `${node.width}×${node.height} · ` : ''}{node.file ? formatBytes(node.file.size) : ''}
+        </span>
+        {node.rating && <span className="text-amber-400 shrink-0">{'★'.repeat(node.rating)}</span>}
+        {node.isDeleted && <span className="ml-auto text-[9px] font-bold uppercase tracking-wider text-red-300 shrink-0">Deleted</span>}
+      </div>
+      {showInfo ? (
+        <MetadataInspector node={node} />
+      ) : (
+        <p className="flex-1 overflow-y-auto custom-scrollbar px-4 py-2 text-xs text-gray-300 font-mono whitespace-pre-wrap leading-relaxed">
+          {caption?.trim() || <span className="text-gray-600">No caption</span>}
+        </p>
+      )}
+    </div>
+  );
+};
+
+// Two to four images side by side, or two of them overlaid with a wipe, zoomed and panned together
+export const CompareView: React.FC<CompareViewProps> = ({ nodes, onKeep, onUndo, onClose }) => {
+  const [layout, setLayout] = useState<CompareLayout>(nodes.length === 2 ? 'wipe' : 'side-by-side');
+  const [view, setView] = useState<PanZoom>(FITTED);
+  const [focused, setFocused] = useState(0);
+  const [showInfo, setShowInfo] = useState(false);
+  const [pair, setPair] = useState<[number, number]>([0, 1]); // Wipe: left and right image
+  const [wipe, setWipe] = useState(50); // Percent of the frame showing the left image
+
+  const keepFocused = () => onKeep(nodes[focused], nodes);
+
+  // Re-registered on every render, so keep acts on the pane highlighted now
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (isTypingTarget(e.target)) return;
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'z') {
+        e.preventDefault();
+        onUndo();
+        return;
+      }
+      if (e.ctrlKey || e.metaKey || e.altKey) return;
+      const digit = Number(e.key);
+      if (Number.isInteger(digit) && digit >= 1 && digit <= nodes.length) setFocused(digit - 1);
+      else if (e.key === 'Escape') onClose();
+      else if (e.key === 'k') keepFocused();
+      else if (e.key === 'w') setLayout(prev => (prev === 'wipe' ? 'side-by-side' : 'wipe'));
+      else if (e.key === 'i') setShowInfo(prev => !prev);
+      else if (e.key === '+' || e.key === '=') setView(prev => zoomAt(prev, ZOOM_STEP));
+      else if (e.key === '-') setView(prev => zoomAt(prev, 1 / ZOOM_STEP));
+      else if (e.key === '0') setView(FITTED);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const columns = nodes.length === 4 ? 2 : nodes.length;
+  const [left, right] = [nodes[pair[0]], nodes[pair[1]]];
+
+  const pairSelect = (side: 0 | 1) => (
+    <select
+      value={pair[side]}
+      onChange={(e) => {
+        const value = Number(e.target.value);
+        setPair(prev => (side === 0 ? [value, prev[1]] : [prev[0], value]));
+      }}
+      className="bg-gray-800 border border-white/10 rounded-md px-2 py-1 text-xs text-gray-200 outline-none max-w-[12rem]"
+    >
+      {nodes.map((node, i) => <option key={node.id} value={i}>{i + 1}. {node.name}</option>)}
+    </select>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black flex flex-col animate-in fade-in duration-200">
+      <div className="px-6 py-3 flex items-center gap-4 border-b border-white/5 flex-shrink-0">
+        <h2 className="text-white font-medium">Compare {nodes.length} images</h2>
+        <div className="flex p-1 bg-white/5 rounded-lg border border-white/5">
+          {(['side-by-side', 'wipe'] as const).map(option => (
+            <button
+              key={option}
+              onClick={() => setLayout(option)}
+              title="Switch with W"
+              className={`px-3 py-1 rounded-md text-xs font-bold transition-colors ${layout === option ? 'bg-indigo-600 text-white' : 'text-gray-400 hover:text-white'}`}
+            >
+              {option === 'wipe' ? 'A/B wipe' : 'Side by side'}
+            </button>
+          ))}
+        </div>
+        {layout === 'wipe' && nodes.length > 2 && (
+          <div className="flex items-center gap-2 text-xs text-gray-400">
+            {pairSelect(0)} vs {pairSelect(1)}
+          </div>
+        )}
+        <span className="text-xs text-gray-500 font-mono">{Math.round(view.scale * 100)}%</span>
+        <div className="ml-auto flex items-center gap-2">
+          <span className="text-xs text-gray-500 hidden xl:inline">1-{nodes.length} pick · K keep it, delete the others · I info · wheel or +/- zoom · 0 fit</span>
+          <button onClick={() => setShowInfo(!showInfo)} className={`px-3 py-1.5 rounded-lg text-xs font-bold border border-white/10 transition-colors ${showInfo ? 'bg-white/10 text-white' : 'text-gray-300 hover:text-white hover:bg-white/10'}`}>
+            Info
+          </button>
+          <button
+            onClick={keepFocused}
+            title="Keep the highlighted image and delete the others (K)"
+            className="px-3 py-1.5 rounded-lg text-xs font-bold bg-emerald-600/80 hover:bg-emerald-500 text-white transition-colors"
+          >
+            Keep {focused + 1}, delete others
+          </button>
+          <button onClick={onClose} title="Close (Esc)" className="p-2 text-white hover:bg-white/10 rounded-full transition-colors">
+            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+      </div>
+
+      {layout === 'side-by-side' ? (
+        <div className="flex-1 grid gap-px bg-white/5 overflow-hidden" style={{ gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))` }}>
+          {nodes.map((node, i) => (
+            <div key={node.id} className={`flex flex-col min-h-0 bg-black ${focused === i ? 'ring-2 ring-inset ring-indigo-500' : ''}`}>
+              <ZoomFrame setView={setView} className="flex-1" onClick={() => setFocused(i)}>
+                {(frame) => (
+                  <>
+                    <FittedImage node={node} frame={frame} view={view} />
+                    <span className="absolute top-3 left-3 w-6 h-6 rounded-md bg-black/60 border border-white/10 text-xs text-gray-200 flex items-center justify-center">{i + 1}</span>
+                  </>
+                )}
+              </ZoomFrame>
+              <PaneDetails node={node} showInfo={showInfo} />
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="flex-1 flex flex-col min-h-0">
+          <ZoomFrame setView={setView} className="flex-1">
+            {(frame) => (
+              <>
+                <FittedImage node={right} frame={frame} view={view} />
+                <div className="absolute inset-0" style={{ clipPath: `inset(0 ${100 - wipe}% 0 0)` }}>
+                  <FittedImage node={left} frame={frame} view={view} />
+                </div>
+                <div className="absolute inset-y-0 w-px bg-white/70" style={{ left: `${wipe}%` }}>
+                  <div
+                    className="absolute top-1/2 -translate-y-1/2 -translate-x-1/2 w-7 h-7 rounded-full bg-white text-black text-xs font-bold flex items-center justify-center cursor-ew-resize shadow-lg"
+                    title="Drag to move the wipe"
+                    onPointerDown={(e) => {
+                      e.stopPropagation(); // Moving the wipe is not a pan
+                      e.currentTarget.setPointerCapture(e.pointerId);
+                    }}
+                    onPointerMove={(e) => {
+                      if (!e.currentTarget.hasPointerCapture(e.pointerId)) return;
+                      e.stopPropagation();
+                      const rect = e.currentTarget.parentElement!.parentElement!.getBoundingClientRect();
+                      setWipe(Math.min(100, Math.max(0, ((e.clientX - rect.left) / rect.width) * 100)));
+                    }}
+                    onDoubleClick={(e) => e.stopPropagation()}
+                  >
+                    ⇔
+                  </div>
+                </div>
+                <span className="absolute top-3 left-3 px-2 h-6 rounded-md bg-black/60 border border-white/10 text-xs text-gray-200 flex items-center">{pair[0] + 1}</span>
+                <span className="absolute top-3 right-3 px-2 h-6 rounded-md bg-black/60 border border-white/10 text-xs text-gray-200 flex items-center">{pair[1] + 1}</span>
+              </>
+            )}
+          </ZoomFrame>
+          <div className="grid grid-cols-2 gap-px bg-white/5">
+            {[pair[0], pair[1]].map((i, side) => (
+              <div key={side} onClick={() => setFocused(i)} className={`cursor-pointer ${focused === i ? 'ring-2 ring-inset ring-indigo-500' : ''}`}>
+                <PaneDetails node={nodes[i]} showInfo={showInfo} />
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
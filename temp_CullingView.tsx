@@ -0,0 +1,251 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { CullingAction, CullingBinding, FileNode } from '../types';
+import { useImageUrl, usePreloadedImages } from '../utils/imageUrls';
+import { fittedImageStyle, isTypingTarget, useStageSize } from '../utils/stage';
+import { ReviewChange } from '../utils/commands';
+import {
+  cullingKeyName, DEFAULT_CULLING_BINDINGS, describeCullingAction, findCullingAction, formatKey, isBindableKey,
+  loadCullingBindings, nextUnreviewed, rebind, saveCullingBindings
+} from '../utils/culling';
+
+interface CullingViewProps {
+  nodes: FileNode[]; // The queue, in display order
+  undoLabel?: string;
+  onReview: (node: FileNode, change: ReviewChange) => void;
+  onUndo: () => void;
+  onResetReview: (nodes: FileNode[]) => void;
+  onClose: () => void;
+}
+
+// Images decoded ahead of the current one, so advancing shows the next image at once
+const PRELOAD_AHEAD = 2;
+
+const KeyCap: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <kbd className="min-w-[1.5rem] px-1.5 py-0.5 rounded-md bg-white/10 border border-white/10 text-[11px] text-gray-200 font-mono text-center">{children}</kbd>
+);
+
+// One image at a time, decided with a single key each. Every decision is a bulk command, so it can
+// be undone, and is stored on the node, so closing the mode or the tab and coming back resumes
+// with the first image still to review.
+export const CullingView: React.FC<CullingViewProps> = ({ nodes, undoLabel, onReview, onUndo, onResetReview, onClose }) => {
+  const [index, setIndex] = useState(() => Math.max(0, nextUnreviewed(nodes, -1)));
+  const [bindings, setBindings] = useState<CullingBinding[]>(loadCullingBindings);
+  const [skipReviewed, setSkipReviewed] = useState(true);
+  const [showKeys, setShowKeys] = useState(false);
+  const [listening, setListening] = useState<number | null>(null); // Binding waiting for its new key
+  const [newTag, setNewTag] = useState('');
+  const decided = useRef<number[]>([]); // Positions of this run's decisions, for undo
+  const stageRef = useRef<HTMLDivElement>(null);
+  const stage = useStageSize(stageRef);
+
+  const node = nodes[Math.min(index, nodes.length - 1)];
+  const url = useImageUrl(node || null);
+  usePreloadedImages(nodes.slice(index, index + 1 + PRELOAD_AHEAD));
+  const reviewed = nodes.filter(n => n.review).length;
+  const rejected = nodes.filter(n => n.review === 'reject').length;
+
+  useEffect(() => saveCullingBindings(bindings), [bindings]);
+
+  const advance = () => {
+    if (!skipReviewed) {
+      setIndex(Math.min(index + 1, nodes.length - 1));
+      return;
+    }
+    const next = nextUnreviewed(nodes, index);
+    if (next !== -1) setIndex(next);
+  };
+
+  const perform = (action: CullingAction) => {
+    switch (action.kind) {
+      case 'skip':
+        setIndex(Math.min(index + 1, nodes.length - 1));
+        break;
+      case 'back':
+        setIndex(Math.max(index - 1, 0));
+        break;
+      case 'undo': {
+        // Only this run's decisions; older bulk actions are left to the main view
+        const previous = decided.current.pop();
+        if (previous === undefined) return;
+        onUndo();
+        setIndex(previous);
+        break;
+      }
+      default:
+        onReview(node, action);
+        decided.current.push(index);
+        advance();
+    }
+  };
+
+  // Re-registered on every render, so the handler always acts on the image on screen
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (listening !== null) {
+        e.preventDefault();
+        if (e.key === 'Escape') setListening(null);
+        else if (isBindableKey(e)) {
+          setBindings(rebind(bindings, listening, cullingKeyName(e)));
+          setListening(null);
+        }
+        return;
+      }
+      if (isTypingTarget(e.target)) return;
+      if (e.key === 'Escape') {
+        onClose();
+        return;
+      }
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'z') {
+        e.preventDefault();
+        perform({ kind: 'undo' });
+        return;
+      }
+      const action = findCullingAction(e, bindings);
+      if (!action || !node) return;
+      e.preventDefault(); // Space and the arrows would scroll the page behind
+      perform(action);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const addTagBinding = (e: React.FormEvent) => {
+    e.preventDefault();
+    const tag = newTag.trim();
+    if (!tag) return;
+    setBindings([...bindings, { key: '', action: { kind: 'tag', tag } }]);
+    setListening(bindings.length);
+    setNewTag('');
+  };
+
+  const keyFor = (kind: CullingAction['kind']) => bindings.find(binding => binding.action.kind === kind && binding.key)?.key;
+  const decisionBindings = bindings.filter(binding => binding.key && !['skip', 'back', 'undo'].includes(binding.action.kind));
+
+  if (!node) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black flex flex-col animate-in fade-in duration-200">
+      <div className="px-6 py-4 flex items-center gap-6 border-b border-white/5 flex-shrink-0">
+        <div className="min-w-0 flex-1">
+          <div className="flex items-baseline gap-3">
+            <h2 className="text-white font-medium truncate">{node.name}</h2>
+            <span className="text-xs text-gray-500 font-mono shrink-0">{(index + 1).toLocaleString()} of {nodes.length.toLocaleString()}</span>
+          </div>
+          <p className="text-xs text-gray-500 font-mono truncate">{node.path}</p>
+        </div>
+
+        <div className="w-72 shrink-0">
+          <div className="flex justify-between text-xs mb-1.5">
+            <span className="text-gray-200 font-medium">{reviewed.toLocaleString()} / {nodes.length.toLocaleString()} reviewed</span>
+            <span className="text-gray-500">{(reviewed - rejected).toLocaleString()} kept · {rejected.toLocaleString()} rejected</span>
+          </div>
+          <div className="h-1.5 rounded-full bg-white/10 overflow-hidden flex">
+            <div className="h-full bg-emerald-500/80" style={{ width: `${((reviewed - rejected) / nodes.length) * 100}%` }} />
+            <div className="h-full bg-red-500/80" style={{ width: `${(rejected / nodes.length) * 100}%` }} />
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2 shrink-0">
+          <label className="flex items-center gap-2 text-xs text-gray-400 mr-2" title="Advance to the next image still to review instead of the next in line">
+            <input type="checkbox" checked={skipReviewed} onChange={(e) => setSkipReviewed(e.target.checked)} className="accent-indigo-500" />
+            Skip reviewed
+          </label>
+          <button onClick={() => setShowKeys(!showKeys)} className={`px-3 py-1.5 rounded-lg text-xs font-bold border border-white/10 transition-colors ${showKeys ? 'bg-white/10 text-white' : 'text-gray-300 hover:text-white hover:bg-white/10'}`}>
+            Keys
+          </button>
+          <button
+            onClick={() => {
+              if (!window.confirm(`Mark all ${nodes.length.toLocaleString()} images as unreviewed? Deletes, ratings and tags stay.`)) return;
+              onResetReview(nodes);
+              decided.current = [];
+              setIndex(0);
+            }}
+            disabled={reviewed === 0}
+            className="px-3 py-1.5 rounded-lg text-xs font-bold border border-white/10 text-gray-300 hover:text-white hover:bg-white/10 transition-colors disabled:opacity-30"
+          >
+            Reset
+          </button>
+          <button onClick={onClose} title="Close (Esc)" className="p-2 text-white hover:bg-white/10 rounded-full transition-colors">
+            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 flex overflow-hidden">
+        <div ref={stageRef} className="flex-1 relative flex items-center justify-center p-6">
+          <img
+            key={node.id}
+            src={url}
+            alt={node.name}
+            className={`max-h-full max-w-full object-contain transition-opacity duration-150 ${node.review === 'reject' ? 'opacity-40 grayscale' : ''}`}
+            style={fittedImageStyle(node.transform, stage)}
+          />
+
+          <div className="absolute top-4 left-6 flex items-center gap-2">
+            {node.review && (
+              <span className={`px-2.5 py-1 rounded-full text-[10px] font-bold uppercase tracking-wider border ${node.review === 'keep' ? 'bg-emerald-500/15 border-emerald-400/30 text-emerald-300' : 'bg-red-500/15 border-red-400/30 text-red-300'}`}>
+                {node.review === 'keep' ? 'Kept' : 'Rejected'}
+              </span>
+            )}
+            {node.rating && <span className="text-amber-400 text-sm">{'★'.repeat(node.rating)}</span>}
+            {node.tags?.map(tag => (
+              <span key={tag} className="text-[11px] bg-white/10 border border-white/10 rounded-full px-2 py-0.5 text-gray-200">{tag}</span>
+            ))}
+          </div>
+
+          {reviewed === nodes.length && (
+            <div className="absolute bottom-6 left-1/2 -translate-x-1/2 bg-emerald-500/15 border border-emerald-400/30 text-emerald-200 text-sm px-4 py-2 rounded-xl backdrop-blur-md">
+              All {nodes.length.toLocaleString()} images reviewed
+            </div>
+          )}
+        </div>
+
+        {showKeys && (
+          <div className="w-80 flex-shrink-0 bg-gray-900 border-l border-white/10 flex flex-col">
+            <div className="p-5 border-b border-white/5 flex items-center justify-between">
+              <h3 className="text-white font-bold text-sm">Keys</h3>
+              <button onClick={() => setBindings(DEFAULT_CULLING_BINDINGS)} className="text-xs text-gray-400 hover:text-white">Restore defaults</button>
+            </div>
+            <div className="flex-1 overflow-y-auto custom-scrollbar p-3 space-y-0.5">
+              {bindings.map((binding, i) => (
+                <div key={i} className="flex items-center gap-3 px-2 py-1.5 rounded-md hover:bg-white/5 text-xs">
+                  <span className="flex-1 text-gray-300 truncate">{describeCullingAction(binding.action)}</span>
+                  <button
+                    onClick={() => setListening(listening === i ? null : i)}
+                    className={`min-w-[5rem] px-2 py-1 rounded-md border font-mono transition-colors ${listening === i ? 'border-indigo-500 text-indigo-200 bg-indigo-500/10' : 'border-white/10 text-gray-200 hover:bg-white/10'}`}
+                  >
+                    {listening === i ? 'Press a key' : binding.key ? formatKey(binding.key) : 'Unbound'}
+                  </button>
+                  {binding.action.kind === 'tag' && (
+                    <button onClick={() => setBindings(bindings.filter((_, j) => j !== i))} title="Remove" className="text-gray-500 hover:text-white">×</button>
+                  )}
+                </div>
+              ))}
+            </div>
+            <form onSubmit={addTagBinding} className="p-4 border-t border-white/5 flex gap-2">
+              <input
+                value={newTag}
+                onChange={(e) => setNewTag(e.target.value)}
+                placeholder="Tag for a new key"
+                className="flex-1 bg-gray-800 border border-white/10 rounded-md px-2 py-1.5 text-xs text-gray-200 outline-none focus:border-indigo-500/50"
+              />
+              <button type="submit" disabled={!newTag.trim()} className="px-3 py-1.5 rounded-md text-xs font-bold bg-indigo-600 text-white disabled:opacity-30">Add</button>
+            </form>
+          </div>
+        )}
+      </div>
+
+      <div className="px-6 py-3 border-t border-white/5 flex items-center gap-5 text-xs text-gray-400 flex-shrink-0 overflow-x-auto">
+        {decisionBindings.map((binding, i) => (
+          <span key={i} className="flex items-center gap-1.5 shrink-0"><KeyCap>{formatKey(binding.key)}</KeyCap>{describeCullingAction(binding.action)}</span>
+        ))}
+        {keyFor('skip') && keyFor('back') && (
+          <span className="flex items-center gap-1.5 shrink-0"><KeyCap>{formatKey(keyFor('back')!)}</KeyCap><KeyCap>{formatKey(keyFor('skip')!)}</KeyCap>Browse</span>
+        )}
+        <span className="ml-auto shrink-0 text-gray-500 truncate">
+          {decided.current.length > 0 && undoLabel ? `${undoLabel} · ${keyFor('undo') ? formatKey(keyFor('undo')!) : 'Ctrl+Z'} to undo` : 'Esc to close, progress is kept'}
+        </span>
+      </div>
+    </div>
+  );
+};
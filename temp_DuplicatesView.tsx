@@ -0,0 +1,171 @@
+import React, { useEffect, useState } from 'react';
+import { DuplicateGroup, FileNode } from '../types';
+import { formatBytes } from '../utils/fileUtils';
+import { useGridThumbnail } from '../utils/imageUrls';
+import { MAX_COMPARED_IMAGES } from './CompareView';
+import { DEFAULT_SIMILARITY_THRESHOLD, isResolved, MAX_SIMILARITY_THRESHOLD, pickBest } from '../utils/duplicates';
+
+// Regrouping a large library takes a moment, so the threshold is applied once the slider rests
+const THRESHOLD_DELAY_MS = 250;
+
+interface DuplicatesViewProps {
+  groups: DuplicateGroup[];
+  progress: { done: number; total: number } | null; // Set while images are being hashed
+  threshold?: number; // Undefined shows exact copies only
+  onThresholdChange: (threshold: number | undefined) => void;
+  onKeepBest: (groups: DuplicateGroup[]) => void;
+  onCompare: (nodes: FileNode[]) => void;
+  onToggleDelete: (node: FileNode) => void;
+  onImageClick: (node: FileNode) => void;
+}
+
+const DuplicateTile: React.FC<{
+  node: FileNode;
+  isBest: boolean;
+  onToggleDelete: (node: FileNode) => void;
+  onClick: (node: FileNode) => void;
+}> = ({ node, isBest, onToggleDelete, onClick }) => {
+  const thumbnailUrl = useGridThumbnail(node);
+
+  return (
+    <div className={`w-44 flex-shrink-0 rounded-xl overflow-hidden border ${node.isDeleted ? 'bg-red-900/10 border-red-500/20' : isBest ? 'bg-black/40 border-emerald-500/40' : 'bg-black/40 border-white/5'}`}>
+      <button onClick={() => onClick(node)} className="relative block w-full aspect-square bg-black/40">
+        {thumbnailUrl && (
+          <img
+            src={thumbnailUrl}
+            alt={node.name}
+            decoding="async"
+            className={`w-full h-full object-cover ${node.isDeleted ? 'grayscale brightness-[0.35]' : ''}`}
+          />
+        )}
+        {isBest && (
+          <span className="absolute top-2 left-2 text-[9px] font-bold uppercase tracking-wider bg-emerald-500/20 border border-emerald-400/30 text-emerald-200 px-2 py-0.5 rounded-full backdrop-blur-md">Best</span>
+        )}
+        {node.isDeleted && (
+          <span className="absolute top-2 right-2 text-[9px] font-bold uppercase tracking-wider bg-red-500/20 border border-red-400/30 text-red-200 px-2 py-0.5 rounded-full backdrop-blur-md">Deleted</span>
+        )}
+      </button>
+      <div className="p-3 text-[11px]">
+        <p className="text-white truncate font-medium" title={node.name}>{node.name}</p>
+        <p className="text-gray-500 truncate font-mono" title={node.path}>{node.path}</p>
+        <p className="text-gray-400 mt-1 font-mono">
+          {node.width && node.height ? `${node.width}×${node.height} · ` : ''}{formatBytes(node.file?.size || 0, 1)}
+        </p>
+        <button
+          onClick={() => onToggleDelete(node)}
+          className={`mt-2 w-full py-1.5 rounded-lg text-[10px] font-bold border transition-colors ${node.isDeleted ? 'border-white/10 text-gray-300 hover:bg-white/10' : 'border-red-500/20 text-red-300 hover:bg-red-500/10'}`}
+        >
+          {node.isDeleted ? 'Restore' : 'Delete'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+// Review list for the duplicates view: one row per group, the suggested keeper marked
+export const DuplicatesView: React.FC<DuplicatesViewProps> = ({
+  groups, progress, threshold, onThresholdChange, onKeepBest, onCompare, onToggleDelete, onImageClick
+}) => {
+  const [draftThreshold, setDraftThreshold] = useState(threshold);
+  const unresolved = groups.filter(group => !isResolved(group));
+  const copies = groups.reduce((sum, group) => sum + group.nodes.length - 1, 0);
+
+  useEffect(() => setDraftThreshold(threshold), [threshold]);
+
+  useEffect(() => {
+    if (draftThreshold === threshold) return;
+    const timer = setTimeout(() => onThresholdChange(draftThreshold), THRESHOLD_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [draftThreshold]);
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="px-8 py-5 border-b border-white/5 flex items-center justify-between gap-6 flex-shrink-0">
+        <div>
+          <h2 className="text-lg text-white font-medium">Duplicates</h2>
+          <p className="text-xs text-gray-500 mt-1">
+            {progress
+              ? `Hashing ${progress.done} of ${progress.total} images…`
+              : `${groups.length} group${groups.length === 1 ? '' : 's'}, ${copies} extra cop${copies === 1 ? 'y' : 'ies'} · ${unresolved.length} to review`}
+          </p>
+        </div>
+        <div className="flex items-center gap-4">
+          <label className="flex items-center gap-2 text-xs text-gray-300">
+            <input
+              type="checkbox"
+              checked={threshold !== undefined}
+              onChange={(e) => {
+                const next = e.target.checked ? DEFAULT_SIMILARITY_THRESHOLD : undefined;
+                setDraftThreshold(next);
+                onThresholdChange(next);
+              }}
+              className="accent-indigo-500"
+            />
+            Similar images
+          </label>
+          <label className={`flex items-center gap-2 text-xs ${threshold === undefined ? 'text-gray-600' : 'text-gray-300'}`} title="Bits the perceptual hashes may differ by">
+            Threshold
+            <input
+              type="range"
+              min={0}
+              max={MAX_SIMILARITY_THRESHOLD}
+              value={draftThreshold ?? 0}
+              disabled={threshold === undefined}
+              onChange={(e) => setDraftThreshold(Number(e.target.value))}
+              className="w-28 accent-indigo-500"
+            />
+            <span className="w-5 font-mono text-right">{draftThreshold ?? '–'}</span>
+          </label>
+          <button
+            onClick={() => onKeepBest(unresolved)}
+            disabled={unresolved.length === 0}
+            className="px-4 py-2 rounded-lg text-xs font-bold bg-indigo-600 hover:bg-indigo-500 text-white transition-colors disabled:opacity-30"
+          >
+            Keep best in all
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar px-8 py-6 space-y-6">
+        {!progress && groups.length === 0 && (
+          <p className="text-sm text-gray-500 text-center mt-20">No duplicates found.</p>
+        )}
+        {groups.map(group => {
+          const best = pickBest(group.nodes);
+          const resolved = isResolved(group);
+          return (
+            <section key={group.key} className={`rounded-2xl border border-white/5 bg-white/[0.02] p-4 ${resolved ? 'opacity-60' : ''}`}>
+              <div className="flex items-center justify-between mb-3">
+                <span className="text-xs text-gray-300">
+                  {group.nodes.length} images · {group.exact ? 'identical files' : 'look alike'}
+                  {resolved && <span className="text-emerald-400"> · resolved</span>}
+                </span>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => onCompare(group.nodes.slice(0, MAX_COMPARED_IMAGES))}
+                    title={group.nodes.length > MAX_COMPARED_IMAGES ? `Compares the first ${MAX_COMPARED_IMAGES}` : undefined}
+                    className="px-3 py-1.5 rounded-lg text-xs font-bold transition-colors border border-white/10 text-gray-300 hover:text-white hover:bg-white/10"
+                  >
+                    Compare
+                  </button>
+                  <button
+                    onClick={() => onKeepBest([group])}
+                    disabled={resolved && !best.isDeleted}
+                    className="px-3 py-1.5 rounded-lg text-xs font-bold transition-colors border border-white/10 text-gray-300 hover:text-white hover:bg-white/10 disabled:opacity-30"
+                  >
+                    Keep best
+                  </button>
+                </div>
+              </div>
+              <div className="flex gap-3 overflow-x-auto custom-scrollbar pb-1">
+                {group.nodes.map(node => (
+                  <DuplicateTile key={node.id} node={node} isBest={node === best} onToggleDelete={onToggleDelete} onClick={onImageClick} />
+                ))}
+              </div>
+            </section>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,604 @@
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { FileNode, GalleryGroup, GalleryGrouping, GallerySort, GallerySortKey } from '../types';
+import { loadCaption } from '../utils/fileUtils';
+import { canRedoCaption, canUndoCaption, isCaptionDirty } from '../utils/captions';
+import { useGridThumbnail } from '../utils/imageUrls';
+import { GROUPING_LABELS, SORT_LABELS } from '../utils/sorting';
+import { getDraggedIds, isNodeDrag, setDraggedNodes } from '../utils/tree';
+import { COLOR_LABEL_CLASSES } from '../utils/ratings';
+
+// The grid is windowed: only rows near the viewport are mounted. Column counts follow the
+// Tailwind breakpoints the grid used before, row heights are derived from the column width.
+// Grouped views stack one section per group, each a sticky header followed by its rows.
+const GRID_GAP = 24; // gap-6
+const ITEM_BORDER = 2; // 1px border on both sides
+const CAPTION_EDITOR_HEIGHT = 112;
+const OVERSCAN_ROWS = 2;
+const GROUP_HEADER_HEIGHT = 56; // Header plus the space under it
+const GROUP_SPACING = 48; // Between the last row of a group and the next header
+const LASSO_THRESHOLD = 4; // Pixels the pointer must travel before a press becomes a lasso
+
+const columnsForViewport = (width: number) =>
+  width >= 1536 ? 6 : width >= 1280 ? 5 : width >= 1024 ? 4 : width >= 768 ? 3 : 2;
+
+interface CaptionEditProps {
+  onEditCaption: (node: FileNode, text: string) => void;
+  onUndoCaption: (node: FileNode) => void;
+  onRedoCaption: (node: FileNode) => void;
+}
+
+interface GalleryItemProps extends CaptionEditProps {
+  node: FileNode;
+  isSelected: boolean;
+  onClick: (e: React.MouseEvent, node: FileNode) => void;
+  onDoubleClick: (node: FileNode) => void;
+  onToggleSelect: (node: FileNode) => void;
+  onContextMenu: (e: React.MouseEvent, node: FileNode) => void;
+  onDragStart?: (e: React.DragEvent, node: FileNode) => void;
+  isEditingCaptions: boolean;
+}
+
+const InlineCaptionEditor: React.FC<CaptionEditProps & { node: FileNode }> = ({ node, onEditCaption, onUndoCaption, onRedoCaption }) => {
+  const [draft, setDraft] = useState(node.caption || '');
+
+  // Follow external changes such as undo/redo, and make sure the sidecar has been read
+  useEffect(() => {
+    setDraft(node.caption || '');
+    if (node.caption === undefined && node.captionFile) {
+      loadCaption(node).then(caption => setDraft(caption || '')).catch(() => undefined);
+    }
+  }, [node, node.caption]);
+
+  const commit = () => {
+    if (draft !== (node.caption || '')) onEditCaption(node, draft);
+  };
+
+  return (
+    <div className="p-3 bg-black/60 border-t border-white/5 overflow-hidden flex-shrink-0" style={{ height: CAPTION_EDITOR_HEIGHT }} onClick={(e) => e.stopPropagation()}>
+      <textarea
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => {
+            if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+                e.preventDefault();
+                commit();
+            }
+        }}
+        placeholder="No caption"
+        rows={3}
+        className="w-full bg-transparent text-xs font-mono text-gray-200 placeholder-gray-600 resize-none outline-none leading-relaxed"
+      />
+      <div className="flex items-center justify-end gap-1 mt-1">
+        <button
+          onClick={() => onUndoCaption(node)}
+          disabled={!canUndoCaption(node)}
+          className="text-[10px] px-2 py-0.5 rounded text-gray-400 hover:text-white hover:bg-white/10 disabled:opacity-30 disabled:hover:bg-transparent"
+        >
+          Undo
+        </button>
+        <button
+          onClick={() => onRedoCaption(node)}
+          disabled={!canRedoCaption(node)}
+          className="text-[10px] px-2 py-0.5 rounded text-gray-400 hover:text-white hover:bg-white/10 disabled:opacity-30 disabled:hover:bg-transparent"
+        >
+          Redo
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export const GalleryItem: React.FC<GalleryItemProps> = ({
+  node, isSelected, onClick, onDoubleClick, onToggleSelect, onContextMenu, onDragStart, isEditingCaptions, ...captionProps
+}) => {
+  const [isHovered, setIsHovered] = useState(false);
+  const [captionPreview, setCaptionPreview] = useState<string | undefined>(node.caption);
+  const [copyStatus, setCopyStatus] = useState('Copy');
+  const thumbnailUrl = useGridThumbnail(node);
+
+  const hasCaption = node.captionFile !== undefined || node.caption !== undefined;
+  const isDirty = isCaptionDirty(node);
+
+  useEffect(() => {
+    if (isHovered && hasCaption) {
+      loadCaption(node).then(setCaptionPreview).catch(() => setCaptionPreview(undefined));
+    }
+  }, [isHovered, node, node.caption, hasCaption]);
+
+  const handleCopy = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (captionPreview) {
+      navigator.clipboard.writeText(captionPreview);
+      setCopyStatus('Copied!');
+      setTimeout(() => setCopyStatus('Copy'), 2000);
+    }
+  };
+
+  return (
+    <div
+      className={`
+        group relative h-full rounded-2xl overflow-hidden cursor-pointer border transition-all duration-500 hover:-translate-y-1 flex flex-col
+        ${node.isDeleted ? 'bg-red-900/10 border-red-500/20' : 'bg-black/40 border-white/5 hover:border-indigo-500/50 hover:shadow-[0_15px_40px_-10px_rgba(99,102,241,0.2)]'}
+        ${isSelected ? 'ring-2 ring-indigo-500 ring-offset-2 ring-offset-black' : ''}
+      `}
+      data-gallery-item
+      onClick={(e) => onClick(e, node)}
+      onDoubleClick={() => onDoubleClick(node)}
+      onContextMenu={(e) => onContextMenu(e, node)}
+      draggable={!!onDragStart}
+      onDragStart={onDragStart && ((e) => onDragStart(e, node))}
+      onMouseEnter={() => setIsHovered(true)}
+      onMouseLeave={() => setIsHovered(false)}
+    >
+      <div className={`relative overflow-hidden ${isEditingCaptions ? 'aspect-square' : 'aspect-[3/4]'}`}>
+        {/* Image */}
+        {thumbnailUrl && (
+          <img
+            src={thumbnailUrl}
+            alt={node.name}
+            decoding="async"
+            className={`w-full h-full object-cover transition-all duration-700 ${node.isDeleted ? 'blur-sm grayscale brightness-[0.25]' : 'group-hover:scale-105 opacity-80 group-hover:opacity-100'}`}
+          />
+        )}
+
+        {/* Selection checkbox */}
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            onToggleSelect(node);
+          }}
+          title={isSelected ? 'Deselect' : 'Select'}
+          className={`absolute top-3 left-3 z-30 w-5 h-5 rounded-md border flex items-center justify-center transition-opacity ${isSelected ? 'bg-indigo-600 border-indigo-400 opacity-100' : 'bg-black/40 border-white/30 opacity-0 group-hover:opacity-100'}`}
+        >
+          {isSelected && (
+            <svg className="w-3 h-3 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M5 13l4 4L19 7" /></svg>
+          )}
+        </button>
+
+        {/* Unsaved caption edit indicator */}
+        {isDirty && !node.isDeleted && (
+          <div className="absolute top-3 right-3 z-30 flex items-center gap-1 bg-amber-500/20 border border-amber-400/30 px-2 py-0.5 rounded-full backdrop-blur-md" title="Caption edited">
+            <span className="w-1.5 h-1.5 rounded-full bg-amber-400"></span>
+            <span className="text-[8px] text-amber-200 font-bold uppercase tracking-wider">Edited</span>
+          </div>
+        )}
+
+        {/* Rating and color label */}
+        {!node.isDeleted && (node.rating || node.colorLabel) && (
+          <div className="absolute top-3 left-10 z-30 flex items-center gap-1.5 bg-black/50 px-2 py-0.5 rounded-full backdrop-blur-md">
+            {node.colorLabel && <span className={`w-2 h-2 rounded-full ${COLOR_LABEL_CLASSES[node.colorLabel]}`} title={`${node.colorLabel} label`}></span>}
+            {node.rating && <span className="text-[10px] text-amber-400 leading-none" title={`${node.rating} star${node.rating === 1 ? '' : 's'}`}>{'★'.repeat(node.rating)}</span>}
+          </div>
+        )}
+
+        {/* Caption Hover Overlay */}
+        {!isEditingCaptions && !node.isDeleted && hasCaption && isHovered && captionPreview && (
+          <div className="absolute inset-0 bg-black/85 backdrop-blur-md p-5 flex flex-col animate-in fade-in duration-200 z-20">
+            <div className="flex-1 overflow-hidden relative">
+              <p className="text-gray-300 text-xs font-mono whitespace-pre-wrap leading-relaxed opacity-90 line-clamp-[12]">
+                {captionPreview}
+              </p>
+              <div className="absolute bottom-0 left-0 right-0 h-12 bg-gradient-to-t from-black to-transparent pointer-events-none"></div>
+            </div>
+            <button
+              onClick={handleCopy}
+              className="mt-3 w-full py-2.5 bg-indigo-600 hover:bg-indigo-500 rounded-lg text-xs font-bold text-white transition-all shadow-lg shadow-indigo-900/20 flex items-center justify-center gap-2 transform active:scale-95"
+            >
+              {copyStatus === 'Copied!' ? (
+                <svg className="w-3 h-3 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" /></svg>
+              ) : (
+                <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 5H6a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2v-1M8 5a2 2 0 002 2h2a2 2 0 002-2M8 5a2 2 0 012-2h2a2 2 0 012 2m0 0h2a2 2 0 012 2v3m2 4H10m0 0l3-3m-3 3l3 3" /></svg>
+              )}
+              {copyStatus}
+            </button>
+          </div>
+        )}
+
+        {/* Deleted Overlay */}
+        {node.isDeleted && (
+          <div className="absolute inset-0 flex flex-col items-center justify-center z-20 animate-in fade-in duration-300">
+            <div className="w-14 h-14 rounded-full bg-red-500/10 backdrop-blur-md border border-red-500/20 flex items-center justify-center mb-3 shadow-lg">
+              <svg className="w-6 h-6 text-red-500" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg>
+            </div>
+            <span className="text-[10px] text-red-500 uppercase tracking-[0.2em] font-bold">Deleted</span>
+            <span className="text-[9px] text-gray-400 mt-2 font-mono bg-black/50 px-2 py-1 rounded border border-white/5">Right-click to Restore</span>
+          </div>
+        )}
+
+        {/* Normal Info Overlay (Hide when hovering text) */}
+        {!node.isDeleted && (!hasCaption || !isHovered || isEditingCaptions) && (
+          <div className="absolute inset-x-0 bottom-0 bg-gradient-to-t from-black via-black/80 to-transparent p-4 translate-y-full group-hover:translate-y-0 transition-transform duration-300 ease-out pointer-events-none">
+            <p className="text-white text-sm truncate font-medium">{node.name}</p>
+            <div className="flex items-center justify-between mt-1">
+              <div className="flex items-center gap-2">
+                <p className="text-indigo-300 text-[9px] uppercase tracking-wider">{node.type}</p>
+                {hasCaption && (
+                  <div className="flex items-center gap-1 bg-white/10 px-1.5 py-0.5 rounded-full border border-white/5 backdrop-blur-md">
+                    <svg className="w-3 h-3 text-emerald-400" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" /></svg>
+                    <span className="text-[8px] text-gray-300 font-bold">TXT</span>
+                  </div>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {isEditingCaptions && !node.isDeleted && <InlineCaptionEditor node={node} {...captionProps} />}
+    </div>
+  );
+};
+
+interface GallerySection {
+  group: GalleryGroup;
+  top: number; // Offset inside the grid container
+  headerHeight: number;
+  rows: number;
+  height: number;
+}
+
+interface GalleryProps extends CaptionEditProps {
+  nodes: FileNode[]; // Folders and files of the view; folders are listed above the grid
+  groups: GalleryGroup[]; // The view's files in display order
+  sort: GallerySort;
+  onSortChange: (sort: GallerySort) => void;
+  grouping?: GalleryGrouping; // Grouping controls are only shown when the view can be grouped
+  onGroupingChange?: (grouping: GalleryGrouping) => void;
+  onImageClick: (node: FileNode) => void;
+  onFolderClick?: (node: FileNode) => void;
+  onToggleDelete?: (node: FileNode) => void;
+  onDropNodes?: (ids: string[], target: FileNode, merge: boolean) => void; // Enables dragging images and folders onto folders
+  selection: Set<FileNode>;
+  onSelectionChange: (selection: Set<FileNode>) => void;
+  title: string;
+}
+
+export const Gallery: React.FC<GalleryProps> = ({
+  nodes, groups, sort, onSortChange, grouping, onGroupingChange,
+  onImageClick, onFolderClick, onToggleDelete, onDropNodes, selection, onSelectionChange, title, ...captionProps
+}) => {
+  const [isEditingCaptions, setIsEditingCaptions] = useState(false);
+  const [dropTarget, setDropTarget] = useState<FileNode | null>(null); // Folder tile being dragged over
+  const [layout, setLayout] = useState({ scrollTop: 0, viewportHeight: 0, gridTop: 0, gridWidth: 0, columns: 2 });
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const contentRef = useRef<HTMLDivElement>(null);
+  const gridRef = useRef<HTMLDivElement>(null);
+  const anchorRef = useRef<FileNode | null>(null); // Where shift-click ranges start
+  const [lasso, setLasso] = useState<{ left: number; top: number; width: number; height: number } | null>(null);
+
+  const folders = useMemo(() => nodes.filter(n => n.type === 'folder'), [nodes]);
+  const allFiles = useMemo(() => groups.flatMap(group => group.nodes), [groups]);
+  const hasFiles = allFiles.length > 0;
+
+  useEffect(() => {
+    scrollRef.current?.scrollTo(0, 0);
+  }, [title]);
+
+  // Re-measure on scroll and resize, at most once per frame
+  useEffect(() => {
+    const container = scrollRef.current;
+    const content = contentRef.current;
+    const grid = gridRef.current;
+    if (!container || !content || !grid) return;
+
+    let frame = 0;
+    const measure = () => {
+      frame = 0;
+      setLayout({
+        scrollTop: container.scrollTop,
+        viewportHeight: container.clientHeight,
+        gridTop: grid.getBoundingClientRect().top - container.getBoundingClientRect().top + container.scrollTop,
+        gridWidth: grid.clientWidth,
+        columns: columnsForViewport(window.innerWidth),
+      });
+    };
+    const schedule = () => {
+      if (!frame) frame = requestAnimationFrame(measure);
+    };
+
+    measure();
+    container.addEventListener('scroll', schedule, { passive: true });
+    // The content wrapper changes size when the folder section above the grid changes
+    const observer = new ResizeObserver(schedule);
+    observer.observe(container);
+    observer.observe(content);
+    return () => {
+      container.removeEventListener('scroll', schedule);
+      observer.disconnect();
+      if (frame) cancelAnimationFrame(frame);
+    };
+  }, [hasFiles]);
+
+  const { scrollTop, viewportHeight, gridTop, gridWidth, columns } = layout;
+  const itemWidth = (gridWidth - GRID_GAP * (columns - 1)) / columns;
+  const itemHeight = isEditingCaptions
+    ? itemWidth + CAPTION_EDITOR_HEIGHT
+    : (itemWidth - ITEM_BORDER) * 4 / 3 + ITEM_BORDER;
+  const rowHeight = itemHeight + GRID_GAP;
+
+  const sections: GallerySection[] = [];
+  let sectionTop = 0;
+  groups.forEach(group => {
+    if (group.nodes.length === 0) return;
+    const headerHeight = group.label ? GROUP_HEADER_HEIGHT : 0;
+    const rows = Math.ceil(group.nodes.length / columns);
+    const height = headerHeight + rows * rowHeight - GRID_GAP;
+    sections.push({ group, top: sectionTop, headerHeight, rows, height });
+    sectionTop += height + GROUP_SPACING;
+  });
+  const gridHeight = Math.max(0, sectionTop - GROUP_SPACING);
+
+  // Rows of each section near the viewport; nothing is mounted until the grid has been measured once
+  const visibleSections = gridWidth > 0 ? sections.flatMap(section => {
+    const rowsTop = gridTop + section.top + section.headerHeight;
+    const firstRow = Math.max(0, Math.floor((scrollTop - rowsTop) / rowHeight) - OVERSCAN_ROWS);
+    const lastRow = Math.min(section.rows - 1, Math.ceil((scrollTop + viewportHeight - rowsTop) / rowHeight) + OVERSCAN_ROWS);
+    return firstRow <= lastRow ? [{ section, firstRow, lastRow }] : [];
+  }) : [];
+
+  // Cells overlapping a rectangle in grid coordinates, whether or not they are mounted
+  const nodesInRect = (left: number, top: number, right: number, bottom: number) => {
+    const columnStride = itemWidth + GRID_GAP;
+    const firstColumn = Math.max(0, Math.ceil((left - itemWidth) / columnStride));
+    const lastColumn = Math.min(columns - 1, Math.floor(right / columnStride));
+    const hits: FileNode[] = [];
+    sections.forEach(section => {
+      const rowsTop = section.top + section.headerHeight;
+      const firstRow = Math.max(0, Math.ceil((top - rowsTop - itemHeight) / rowHeight));
+      const lastRow = Math.min(section.rows - 1, Math.floor((bottom - rowsTop) / rowHeight));
+      for (let row = firstRow; row <= lastRow; row++) {
+        for (let column = firstColumn; column <= lastColumn; column++) {
+          const node = section.group.nodes[row * columns + column];
+          if (node) hits.push(node);
+        }
+      }
+    });
+    return hits;
+  };
+
+  const toggleSelected = (node: FileNode) => {
+    const next = new Set(selection);
+    if (next.has(node)) next.delete(node);
+    else next.add(node);
+    anchorRef.current = node;
+    onSelectionChange(next);
+  };
+
+  // Plain click opens the lightbox until something is selected; from then on it selects
+  const handleItemClick = (e: React.MouseEvent, node: FileNode) => {
+    const additive = e.ctrlKey || e.metaKey;
+    const anchorIndex = anchorRef.current ? allFiles.indexOf(anchorRef.current) : -1;
+
+    if (e.shiftKey && anchorIndex !== -1) {
+      const index = allFiles.indexOf(node);
+      const next = new Set(additive ? selection : []);
+      allFiles.slice(Math.min(anchorIndex, index), Math.max(anchorIndex, index) + 1).forEach(n => next.add(n));
+      onSelectionChange(next);
+    } else if (additive) {
+      toggleSelected(node);
+    } else if (selection.size > 0) {
+      anchorRef.current = node;
+      onSelectionChange(new Set([node]));
+    } else {
+      anchorRef.current = node;
+      if (!node.isDeleted) onImageClick(node);
+    }
+  };
+
+  // Dragging a selected image takes the whole selection along
+  const handleItemDragStart = (e: React.DragEvent, node: FileNode) => {
+    setDraggedNodes(e.dataTransfer, selection.has(node) ? Array.from(selection) : [node]);
+  };
+
+  const handleFolderDrop = (e: React.DragEvent, folder: FileNode) => {
+    setDropTarget(null);
+    if (!onDropNodes || !isNodeDrag(e.dataTransfer)) return;
+    e.preventDefault();
+    onDropNodes(getDraggedIds(e.dataTransfer), folder, e.altKey);
+  };
+
+  const handleItemDoubleClick = (node: FileNode) => {
+    if (!node.isDeleted) onImageClick(node);
+  };
+
+  // Lasso works in grid coordinates and hit-tests against the computed layout, so rows that
+  // are not mounted can be selected too
+  const handleMouseDown = (e: React.MouseEvent) => {
+    const grid = gridRef.current;
+    const target = e.target as HTMLElement;
+    if (e.button !== 0 || !grid || target.closest('[data-gallery-item], button, a, input, textarea, select')) return;
+    e.preventDefault();
+
+    const toGrid = (event: MouseEvent | React.MouseEvent) => {
+      const rect = grid.getBoundingClientRect();
+      return { x: event.clientX - rect.left, y: event.clientY - rect.top };
+    };
+    const start = toGrid(e);
+    const base = e.ctrlKey || e.metaKey || e.shiftKey ? new Set(selection) : new Set<FileNode>();
+    let dragging = false;
+
+    const handleMove = (event: MouseEvent) => {
+      const point = toGrid(event);
+      if (!dragging && Math.hypot(point.x - start.x, point.y - start.y) < LASSO_THRESHOLD) return;
+      dragging = true;
+
+      const left = Math.min(start.x, point.x);
+      const right = Math.max(start.x, point.x);
+      const top = Math.min(start.y, point.y);
+      const bottom = Math.max(start.y, point.y);
+      setLasso({ left, top, width: right - left, height: bottom - top });
+
+      const next = new Set(base);
+      nodesInRect(left, top, right, bottom).forEach(node => next.add(node));
+      onSelectionChange(next);
+    };
+
+    const handleUp = () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+      setLasso(null);
+      // A click on empty space clears the selection
+      if (!dragging && base.size === 0 && selection.size > 0) onSelectionChange(new Set());
+    };
+
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+  };
+
+  const handleRightClick = (e: React.MouseEvent, node: FileNode) => {
+    e.preventDefault();
+    if (onToggleDelete) onToggleDelete(node);
+  };
+
+  if (nodes.length === 0) {
+    return (
+      <div className="h-full flex flex-col items-center justify-center text-gray-500">
+        <div className="w-24 h-24 bg-white/[0.02] rounded-full flex items-center justify-center mb-6 border border-white/5 shadow-inner">
+          <svg className="w-10 h-10 opacity-30" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" /></svg>
+        </div>
+        <h3 className="text-lg font-medium text-gray-300 mb-1">Empty Directory</h3>
+        <p className="text-sm font-light tracking-wide text-gray-500">There are no files to display here.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div ref={scrollRef} className="h-full overflow-y-auto custom-scrollbar">
+      <div ref={contentRef} className="p-8 md:p-12 select-none" onMouseDown={handleMouseDown}>
+        <div className="flex items-end justify-between mb-10 border-b border-white/5 pb-6">
+          <div>
+            <h1 className="text-4xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-white to-gray-400 mb-2">{title}</h1>
+            <p className="text-sm text-gray-500 font-mono flex items-center gap-2">
+              <span className="w-2 h-2 rounded-full bg-indigo-500"></span>
+              Active Viewer
+            </p>
+          </div>
+          <div className="flex items-end gap-6">
+            {allFiles.length > 0 && (
+              <div className="flex items-center gap-2">
+                {grouping && onGroupingChange && (
+                  <select
+                    value={grouping}
+                    onChange={(e) => onGroupingChange(e.target.value as GalleryGrouping)}
+                    title="Group by"
+                    className="bg-black/40 border border-white/10 rounded-lg px-2 py-2 text-xs text-gray-300 outline-none"
+                  >
+                    {(Object.keys(GROUPING_LABELS) as GalleryGrouping[]).map(key => (
+                      <option key={key} value={key}>{GROUPING_LABELS[key]}</option>
+                    ))}
+                  </select>
+                )}
+                <select
+                  value={sort.key}
+                  onChange={(e) => onSortChange({ ...sort, key: e.target.value as GallerySortKey })}
+                  title="Sort by"
+                  className="bg-black/40 border border-white/10 rounded-lg px-2 py-2 text-xs text-gray-300 outline-none"
+                >
+                  {(Object.keys(SORT_LABELS) as GallerySortKey[]).map(key => (
+                    <option key={key} value={key}>{SORT_LABELS[key]}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => onSortChange({ ...sort, direction: sort.direction === 'asc' ? 'desc' : 'asc' })}
+                  title={sort.direction === 'asc' ? 'Ascending' : 'Descending'}
+                  className="px-2.5 py-2 rounded-lg text-xs font-bold border border-white/10 text-gray-400 hover:text-white hover:bg-white/5"
+                >
+                  {sort.direction === 'asc' ? '↑' : '↓'}
+                </button>
+              </div>
+            )}
+            {allFiles.length > 0 && (
+              <button
+                onClick={() => setIsEditingCaptions(!isEditingCaptions)}
+                className={`px-4 py-2 rounded-lg text-xs font-bold transition-all border ${isEditingCaptions ? 'bg-indigo-600 text-white border-indigo-500' : 'text-gray-400 border-white/10 hover:text-white hover:bg-white/5'}`}
+              >
+                {isEditingCaptions ? 'Done Editing' : 'Edit Captions'}
+              </button>
+            )}
+            <div className="text-right hidden sm:block">
+              <span className="text-3xl font-light text-white block">{nodes.length}</span>
+              <span className="text-xs text-gray-500 uppercase tracking-widest">Items</span>
+            </div>
+          </div>
+        </div>
+
+        {folders.length > 0 && (
+          <div className="mb-12">
+            <h3 className="text-xs font-bold text-gray-400 uppercase tracking-[0.2em] mb-6 pl-1">Directories</h3>
+            <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6 gap-6">
+              {folders.map((folder) => (
+                <div
+                  key={folder.id}
+                  onClick={() => onFolderClick && onFolderClick(folder)}
+                  draggable={!!onDropNodes}
+                  onDragStart={(e) => setDraggedNodes(e.dataTransfer, [folder])}
+                  onDragOver={(e) => {
+                    if (!onDropNodes || !isNodeDrag(e.dataTransfer)) return;
+                    e.preventDefault();
+                    e.dataTransfer.dropEffect = 'move';
+                    setDropTarget(folder);
+                  }}
+                  onDragLeave={() => setDropTarget(null)}
+                  onDrop={(e) => handleFolderDrop(e, folder)}
+                  className={`group cursor-pointer border rounded-2xl ${dropTarget === folder ? 'bg-indigo-600/20 border-indigo-500/60' : 'bg-white/[0.02] border-white/5 hover:border-indigo-500/40 hover:bg-white/[0.05]'} p-6 transition-all duration-300 backdrop-blur-sm hover:shadow-[0_8px_25px_rgba(0,0,0,0.3)] hover:-translate-y-1 flex flex-col items-center justify-center aspect-[4/3]`}
+                >
+                  <div className="mb-4 text-gray-600 group-hover:text-indigo-400 transition-colors duration-300 transform group-hover:scale-110">
+                    <svg className="w-14 h-14" fill="currentColor" viewBox="0 0 20 20"><path d="M2 6a2 2 0 012-2h5l2 2h5a2 2 0 012 2v6a2 2 0 01-2 2H4a2 2 0 01-2-2V6z" /></svg>
+                  </div>
+                  <div className="text-center w-full">
+                    <p className="text-sm font-medium text-gray-300 truncate group-hover:text-white transition-colors">{folder.name}</p>
+                    <p className="text-[10px] text-gray-500 mt-1 uppercase tracking-wide">{folder.children.length} items</p>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {allFiles.length > 0 && (
+          <div>
+            <h3 className="text-xs font-bold text-gray-400 uppercase tracking-[0.2em] mb-6 pl-1">Media Assets</h3>
+            <div ref={gridRef} className="relative" style={{ height: gridHeight }}>
+              {lasso && (
+                <div
+                  className="absolute z-50 border border-indigo-400 bg-indigo-500/10 rounded-sm pointer-events-none"
+                  style={lasso}
+                />
+              )}
+              {visibleSections.map(({ section, firstRow, lastRow }) => (
+                <div key={section.group.key} className="absolute inset-x-0" style={{ top: section.top, height: section.height }}>
+                  {section.headerHeight > 0 && (
+                    <div className="sticky top-0 z-40 -mx-2 px-2 flex items-center justify-between bg-[#08080a]/90 backdrop-blur-md border-b border-white/5" style={{ height: section.headerHeight - GRID_GAP }}>
+                      <h4 className="text-sm font-medium text-gray-200 truncate">{section.group.label}</h4>
+                      <span className="text-[10px] text-gray-500 font-mono uppercase tracking-wider">{section.group.nodes.length} items</span>
+                    </div>
+                  )}
+                  <div
+                    className="absolute inset-x-0 grid gap-6"
+                    style={{ top: section.headerHeight + firstRow * rowHeight, gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))`, gridAutoRows: itemHeight }}
+                  >
+                    {section.group.nodes.slice(firstRow * columns, (lastRow + 1) * columns).map((fileNode) => (
+                      <GalleryItem
+                        key={fileNode.id}
+                        node={fileNode}
+                        isSelected={selection.has(fileNode)}
+                        onClick={handleItemClick}
+                        onDoubleClick={handleItemDoubleClick}
+                        onToggleSelect={toggleSelected}
+                        onContextMenu={handleRightClick}
+                        onDragStart={onDropNodes && handleItemDragStart}
+                        isEditingCaptions={isEditingCaptions}
+                        {...captionProps}
+                      />
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,432 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { ColorLabel, FileNode, ImageHistogram, PanZoom } from '../types';
+import { loadCaption } from '../utils/fileUtils';
+import { canRedoCaption, canUndoCaption, isCaptionDirty } from '../utils/captions';
+import { useGridThumbnail, useImageUrl, usePreloadedImages } from '../utils/imageUrls';
+import { MetadataInspector } from './MetadataInspector';
+import { parseTags, TransformAction } from '../utils/commands';
+import { reviewKeyAction } from '../utils/ratings';
+import { ColorLabelPicker, StarRating } from './ReviewControls';
+import { FITTED, MIN_SCALE, offsetFromCenter, panBy, panZoomToCss, ZOOM_STEP, zoomAt } from '../utils/zoom';
+import { fittedImageStyle, isTypingTarget, useStageSize } from '../utils/stage';
+import { computeHistogram, histogramPath, pointToPixel, samplePixel } from '../utils/pixels';
+
+interface LightboxProps {
+  node: FileNode;
+  images: FileNode[]; // What next and previous step through, for the filmstrip and preloading
+  onSelect: (node: FileNode) => void;
+  onClose: () => void;
+  onNext: () => void;
+  onPrev: () => void;
+  onEditCaption: (node: FileNode, text: string) => void;
+  onUndoCaption: (node: FileNode) => void;
+  onRedoCaption: (node: FileNode) => void;
+  onTransform: (node: FileNode, action: TransformAction) => void;
+  onRate: (node: FileNode, rating: number | undefined) => void;
+  onLabel: (node: FileNode, label: ColorLabel) => void; // Toggles
+  onAddTags: (node: FileNode, tags: string[]) => void;
+  onRemoveTag: (node: FileNode, tag: string) => void;
+}
+
+// Neighbours shown on each side in the filmstrip, and decoded ahead on each side
+const FILMSTRIP_RADIUS = 8;
+const PRELOAD_RADIUS = 2;
+
+const HISTOGRAM_WIDTH = 256;
+const HISTOGRAM_HEIGHT = 80;
+
+const FilmstripItem: React.FC<{ node: FileNode; isCurrent: boolean; onClick: () => void }> = ({ node, isCurrent, onClick }) => {
+  const thumbnailUrl = useGridThumbnail(node);
+  return (
+    <button
+      onClick={onClick}
+      title={node.name}
+      className={`w-16 h-16 flex-shrink-0 rounded-md overflow-hidden border-2 transition-all ${isCurrent ? 'border-indigo-500 opacity-100' : 'border-transparent opacity-50 hover:opacity-100'}`}
+    >
+      {thumbnailUrl && <img src={thumbnailUrl} alt="" decoding="async" className="w-full h-full object-cover" />}
+    </button>
+  );
+};
+
+const HistogramOverlay: React.FC<{ histogram: ImageHistogram | null; pixel: { x: number; y: number; rgba: number[] } | null }> = ({ histogram, pixel }) => (
+  <div className="absolute bottom-4 left-4 z-10 bg-black/70 border border-white/10 rounded-xl p-3 backdrop-blur-md pointer-events-none">
+    {histogram ? (
+      <svg width={HISTOGRAM_WIDTH} height={HISTOGRAM_HEIGHT} className="block">
+        <path d={histogramPath(histogram.luma, HISTOGRAM_WIDTH, HISTOGRAM_HEIGHT)} fill="rgba(255,255,255,0.15)" />
+        <g style={{ mixBlendMode: 'screen' }}>
+          <path d={histogramPath(histogram.red, HISTOGRAM_WIDTH, HISTOGRAM_HEIGHT)} fill="rgba(239,68,68,0.55)" />
+          <path d={histogramPath(histogram.green, HISTOGRAM_WIDTH, HISTOGRAM_HEIGHT)} fill="rgba(34,197,94,0.55)" />
+          <path d={histogramPath(histogram.blue, HISTOGRAM_WIDTH, HISTOGRAM_HEIGHT)} fill="rgba(59,130,246,0.55)" />
+        </g>
+      </svg>
+    ) : (
+      <div className="text-[11px] text-gray-500" style={{ width: HISTOGRAM_WIDTH }}>Reading pixels…</div>
+    )}
+    <div className="mt-2 h-4 flex items-center gap-2 text-[11px] font-mono text-gray-300">
+      {pixel ? (
+        <>
+          <span className="w-3 h-3 rounded-sm border border-white/20" style={{ background: `rgba(${pixel.rgba[0]},${pixel.rgba[1]},${pixel.rgba[2]},${pixel.rgba[3] / 255})` }}></span>
+          <span>{pixel.x}, {pixel.y}</span>
+          <span className="text-gray-500">R</span>{pixel.rgba[0]}
+          <span className="text-gray-500">G</span>{pixel.rgba[1]}
+          <span className="text-gray-500">B</span>{pixel.rgba[2]}
+          {pixel.rgba[3] < 255 && <><span className="text-gray-500">A</span>{pixel.rgba[3]}</>}
+        </>
+      ) : (
+        <span className="text-gray-500">Point at the image for pixel values</span>
+      )}
+    </div>
+  </div>
+);
+
+export const Lightbox: React.FC<LightboxProps> = ({
+  node, images, onSelect, onClose, onNext, onPrev, onEditCaption, onUndoCaption, onRedoCaption, onTransform, onRate, onLabel, onAddTags, onRemoveTag
+}) => {
+  const [draft, setDraft] = useState('');
+  const [tagDraft, setTagDraft] = useState('');
+  const tagInputRef = useRef<HTMLInputElement>(null);
+  const [copyStatus, setCopyStatus] = useState('Copy Text');
+  const [panel, setPanel] = useState<'caption' | 'info'>('caption');
+  const stageRef = useRef<HTMLDivElement>(null);
+  const stage = useStageSize(stageRef);
+  const imageRef = useRef<HTMLImageElement>(null);
+  const url = useImageUrl(node);
+  const [view, setView] = useState<PanZoom>(FITTED);
+  const pointers = useRef(new Map<number, { x: number; y: number }>()); // Touches and the mouse, for pan and pinch
+  const [showPixels, setShowPixels] = useState(false);
+  const [histogram, setHistogram] = useState<ImageHistogram | null>(null);
+  const [pixel, setPixel] = useState<{ x: number; y: number; rgba: number[] } | null>(null);
+
+  const position = images.indexOf(node);
+  const filmstrip = position === -1 ? [] : images.slice(Math.max(0, position - FILMSTRIP_RADIUS), position + FILMSTRIP_RADIUS + 1);
+  usePreloadedImages(position === -1 ? [] : images.slice(Math.max(0, position - PRELOAD_RADIUS), position + PRELOAD_RADIUS + 1));
+
+  // Every image opens fitted
+  useEffect(() => {
+    setView(FITTED);
+    setHistogram(null);
+    setPixel(null);
+  }, [node]);
+
+  // Wheel zoom, with trackpad pinches arriving as wheel events with Ctrl held. Not through React:
+  // its wheel listeners are passive and cannot stop the browser from zooming the page.
+  useEffect(() => {
+    const element = stageRef.current;
+    if (!element) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = element.getBoundingClientRect();
+      const at = { x: e.clientX - rect.left - rect.width / 2, y: e.clientY - rect.top - rect.height / 2 };
+      const factor = e.ctrlKey ? Math.exp(-e.deltaY * 0.01) : e.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP;
+      setView(prev => zoomAt(prev, factor, at));
+    };
+    element.addEventListener('wheel', handleWheel, { passive: false });
+    return () => element.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  // 1:1 shows one image pixel per screen pixel; the fitted size is the element's layout size
+  const toggleActualPixels = (at?: { x: number; y: number }) => {
+    const image = imageRef.current;
+    if (!image || view.scale !== MIN_SCALE) {
+      setView(FITTED);
+      return;
+    }
+    const actual = image.naturalWidth / (image.offsetWidth * window.devicePixelRatio);
+    setView(zoomAt(FITTED, actual, at));
+  };
+
+  const readPixels = () => {
+    const image = imageRef.current;
+    if (!image || !image.complete || image.naturalWidth === 0) return;
+    try {
+      setHistogram(computeHistogram(image));
+    } catch (e) {
+      console.warn('Could not read pixels of', node.name, e);
+    }
+  };
+
+  useEffect(() => {
+    if (showPixels && !histogram) readPixels();
+  }, [showPixels, histogram, url]);
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    // Buttons on the stage keep their clicks
+    if ((e.target as HTMLElement).closest('button')) return;
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (showPixels && imageRef.current) {
+      const point = pointToPixel(imageRef.current, node.transform, view.scale, e.clientX, e.clientY);
+      const rgba = point && samplePixel(imageRef.current, point.x, point.y);
+      setPixel(point && rgba ? { ...point, rgba } : null);
+    }
+    const previous = pointers.current.get(e.pointerId);
+    if (!previous) return;
+    const current = { x: e.clientX, y: e.clientY };
+    const other = [...pointers.current].find(([id]) => id !== e.pointerId)?.[1];
+    pointers.current.set(e.pointerId, current);
+    if (!other) {
+      setView(prev => panBy(prev, current.x - previous.x, current.y - previous.y));
+      return;
+    }
+    // Two fingers: zoom by how far they spread, around the point between them
+    const before = Math.hypot(previous.x - other.x, previous.y - other.y);
+    const after = Math.hypot(current.x - other.x, current.y - other.y);
+    if (before === 0) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const at = { x: (current.x + other.x) / 2 - rect.left - rect.width / 2, y: (current.y + other.y) / 2 - rect.top - rect.height / 2 };
+    setView(prev => zoomAt(prev, after / before, at));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    pointers.current.delete(e.pointerId);
+  };
+
+  const commitDraft = () => {
+    if (draft !== (node.caption || '')) onEditCaption(node, draft);
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      // Let the caption editor keep its own keys
+      if (isTypingTarget(e.target)) return;
+      if (e.key === 'Escape') onClose();
+      if (e.key === 'ArrowRight') onNext();
+      if (e.key === 'ArrowLeft') onPrev();
+      if (e.key === 'i' && !e.ctrlKey && !e.metaKey) setPanel(prev => (prev === 'info' ? 'caption' : 'info'));
+      if (e.key.toLowerCase() === 'r' && !e.ctrlKey && !e.metaKey) onTransform(node, e.shiftKey ? 'rotate-left' : 'rotate-right');
+      if (e.key === 'h' && !e.ctrlKey && !e.metaKey) onTransform(node, 'flip');
+      if (e.key === 'z' && !e.ctrlKey && !e.metaKey) toggleActualPixels();
+      if (e.key === 'g' && !e.ctrlKey && !e.metaKey) setShowPixels(prev => !prev);
+      if ((e.key === '+' || e.key === '=') && !e.ctrlKey && !e.metaKey) setView(prev => zoomAt(prev, ZOOM_STEP));
+      if (e.key === '-' && !e.ctrlKey && !e.metaKey) setView(prev => zoomAt(prev, 1 / ZOOM_STEP));
+      if (e.key === 't' && !e.ctrlKey && !e.metaKey) {
+        e.preventDefault(); // Keep the t out of the field it focuses
+        tagInputRef.current?.focus();
+      }
+      const review = reviewKeyAction(e);
+      if (review?.kind === 'rating') onRate(node, review.rating);
+      if (review?.kind === 'label') onLabel(node, review.label);
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'z') {
+        e.preventDefault();
+        if (e.shiftKey) onRedoCaption(node);
+        else onUndoCaption(node);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [node, view, onClose, onNext, onPrev, onUndoCaption, onRedoCaption, onTransform, onRate, onLabel]);
+
+  // Reload the draft when navigating or when the caption changes through undo/redo
+  useEffect(() => {
+    setDraft(node.caption || '');
+    if (node.caption === undefined && node.captionFile) {
+      loadCaption(node).then(caption => setDraft(caption || '')).catch(() => setDraft(''));
+    }
+    setCopyStatus('Copy Text');
+  }, [node, node.caption]);
+
+  const handleCopy = () => {
+    if (draft) {
+      navigator.clipboard.writeText(draft);
+      setCopyStatus('Copied!');
+      setTimeout(() => setCopyStatus('Copy Text'), 2000);
+    }
+  };
+
+  if (!node.file) return null;
+
+  const isDirty = isCaptionDirty(node) || draft !== (node.caption || '');
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/95 flex flex-col animate-in fade-in duration-200">
+      <div className="absolute top-0 left-0 right-0 p-4 flex justify-between items-center z-20 bg-gradient-to-b from-black/80 to-transparent pointer-events-none">
+        <div className="text-white pointer-events-auto">
+          <h2 className="font-medium text-lg">{node.name}</h2>
+          <p className="text-xs text-gray-400 font-mono">{node.path}</p>
+          <div className="flex items-center gap-2 mt-2 flex-wrap">
+            {node.tags?.map(tag => (
+              <span key={tag} className="flex items-center gap-1 text-[11px] bg-white/10 border border-white/10 rounded-full pl-2 pr-1 py-0.5 text-gray-200">
+                {tag}
+                <button onClick={() => onRemoveTag(node, tag)} title={`Remove ${tag}`} className="w-4 h-4 rounded-full text-gray-400 hover:text-white hover:bg-white/10 leading-none">×</button>
+              </span>
+            ))}
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                const tags = parseTags(tagDraft);
+                if (tags.length > 0) onAddTags(node, tags);
+                setTagDraft('');
+              }}
+            >
+              <input
+                ref={tagInputRef}
+                value={tagDraft}
+                onChange={(e) => setTagDraft(e.target.value)}
+                onKeyDown={(e) => e.key === 'Escape' && e.currentTarget.blur()}
+                placeholder="+ Tag (T)"
+                className="w-28 bg-transparent border border-white/10 focus:border-indigo-500/50 rounded-full px-2 py-0.5 text-[11px] text-gray-200 outline-none placeholder:text-gray-500"
+              />
+            </form>
+          </div>
+        </div>
+        <div className="flex items-center gap-4 pointer-events-auto">
+          <div className="flex items-center gap-3" title="Rate with 0-5, label with 6-9">
+            <StarRating rating={node.rating} onChange={(rating) => onRate(node, rating)} />
+            <ColorLabelPicker value={node.colorLabel} onChange={(label) => onLabel(node, label)} />
+          </div>
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => toggleActualPixels()}
+              title={view.scale === MIN_SCALE ? 'Actual pixels (Z)' : 'Fit to screen (Z)'}
+              className="w-14 py-1.5 text-xs font-mono text-gray-300 hover:text-white hover:bg-white/10 rounded-full transition-colors"
+            >
+              {view.scale === MIN_SCALE ? '1:1' : `${Math.round(view.scale * 100)}%`}
+            </button>
+            <button
+              onClick={() => setShowPixels(!showPixels)}
+              title="Histogram and pixel values (G)"
+              className={`p-2 rounded-full transition-colors ${showPixels ? 'text-white bg-white/10' : 'text-gray-300 hover:text-white hover:bg-white/10'}`}
+            >
+              <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 20h18M6 16v-5m4 5V6m4 10v-7m4 7v-3" /></svg>
+            </button>
+          </div>
+          <div className="flex items-center gap-1">
+            <button onClick={() => onTransform(node, 'rotate-left')} title="Rotate left (Shift+R)" className="p-2 text-gray-300 hover:text-white hover:bg-white/10 rounded-full transition-colors">
+              <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6" /></svg>
+            </button>
+            <button onClick={() => onTransform(node, 'rotate-right')} title="Rotate right (R)" className="p-2 text-gray-300 hover:text-white hover:bg-white/10 rounded-full transition-colors">
+              <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 10H11a8 8 0 00-8 8v2m18-10l-6 6m6-6l-6-6" /></svg>
+            </button>
+            <button onClick={() => onTransform(node, 'flip')} title="Flip horizontally (H)" className="p-2 text-gray-300 hover:text-white hover:bg-white/10 rounded-full transition-colors">
+              <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 3v18M8 7l-5 5 5 5V7zm8 0l5 5-5 5V7z" /></svg>
+            </button>
+          </div>
+          <button onClick={onClose} className="p-2 text-white hover:bg-white/10 rounded-full transition-colors">
+            <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 flex overflow-hidden">
+        {/* Main Image Area */}
+        <div className="flex-1 flex flex-col h-full min-w-0">
+          <div
+            ref={stageRef}
+            className={`flex-1 relative flex items-center justify-center min-h-0 overflow-hidden group touch-none ${view.scale > MIN_SCALE ? 'cursor-grab active:cursor-grabbing' : ''}`}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+            onPointerLeave={() => setPixel(null)}
+            onDoubleClick={(e) => {
+              if (!(e.target as HTMLElement).closest('button')) toggleActualPixels(offsetFromCenter(e));
+            }}
+          >
+            <button onClick={onPrev} className="absolute left-4 p-4 text-white/50 hover:text-white hover:bg-white/10 rounded-full z-10 transition-all opacity-0 group-hover:opacity-100 -translate-x-4 group-hover:translate-x-0">
+              <svg className="w-10 h-10" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M15 19l-7-7 7-7" /></svg>
+            </button>
+            <div className="absolute inset-0 flex items-center justify-center" style={{ transform: panZoomToCss(view) }}>
+              <img
+                ref={imageRef}
+                src={url}
+                alt={node.name}
+                draggable={false}
+                onLoad={() => showPixels && readPixels()}
+                className="max-h-full max-w-full object-contain shadow-2xl transition-transform duration-300"
+                style={fittedImageStyle(node.transform, stage)}
+              />
+            </div>
+            <button onClick={onNext} className="absolute right-4 p-4 text-white/50 hover:text-white hover:bg-white/10 rounded-full z-10 transition-all opacity-0 group-hover:opacity-100 translate-x-4 group-hover:translate-x-0">
+              <svg className="w-10 h-10" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M9 5l7 7-7 7" /></svg>
+            </button>
+            {showPixels && <HistogramOverlay histogram={histogram} pixel={pixel} />}
+          </div>
+
+          {/* Filmstrip of the neighbouring images */}
+          {filmstrip.length > 1 && (
+            <div className="flex-shrink-0 flex justify-center gap-2 px-4 py-3 bg-black/60 border-t border-white/5 overflow-hidden">
+              {filmstrip.map(neighbour => (
+                <FilmstripItem key={neighbour.id} node={neighbour} isCurrent={neighbour === node} onClick={() => onSelect(neighbour)} />
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Right Caption / Info Panel */}
+        <div className="w-[400px] flex-shrink-0 bg-gray-900 border-l border-white/10 flex flex-col h-full animate-in slide-in-from-right duration-300 shadow-2xl z-30">
+          <div className="flex px-6 pt-4 gap-1 border-b border-white/5">
+            {(['caption', 'info'] as const).map(tab => (
+              <button
+                key={tab}
+                onClick={() => setPanel(tab)}
+                title={tab === 'info' ? 'Metadata (I)' : undefined}
+                className={`px-3 py-2 text-xs font-bold uppercase tracking-wider border-b-2 -mb-[1px] transition-colors ${panel === tab ? 'text-white border-indigo-500' : 'text-gray-500 border-transparent hover:text-gray-300'}`}
+              >
+                {tab === 'caption' ? 'Caption' : 'Info'}
+              </button>
+            ))}
+          </div>
+          {panel === 'info' ? (
+            <MetadataInspector node={node} />
+          ) : (
+            <>
+              <div className="p-6 border-b border-white/5 flex justify-between items-center">
+                <h3 className="text-white font-bold flex items-center gap-2">
+                  <svg className="w-5 h-5 text-emerald-400" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" /></svg>
+                  Caption
+                  {isDirty && <span className="w-2 h-2 rounded-full bg-amber-400" title="Unsaved caption edit"></span>}
+                </h3>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => onUndoCaption(node)}
+                    disabled={!canUndoCaption(node)}
+                    title="Undo (Ctrl+Z)"
+                    className="text-xs bg-white/5 hover:bg-white/10 px-2 py-1.5 rounded-md text-gray-300 transition-colors border border-white/5 disabled:opacity-30"
+                  >
+                    Undo
+                  </button>
+                  <button
+                    onClick={() => onRedoCaption(node)}
+                    disabled={!canRedoCaption(node)}
+                    title="Redo (Ctrl+Shift+Z)"
+                    className="text-xs bg-white/5 hover:bg-white/10 px-2 py-1.5 rounded-md text-gray-300 transition-colors border border-white/5 disabled:opacity-30"
+                  >
+                    Redo
+                  </button>
+                  <button onClick={handleCopy} className="text-xs bg-white/10 hover:bg-white/20 px-3 py-1.5 rounded-md text-white transition-colors border border-white/5">
+                    {copyStatus}
+                  </button>
+                </div>
+              </div>
+              <div className="flex-1 overflow-y-auto p-6 custom-scrollbar flex">
+                <textarea
+                  value={draft}
+                  onChange={(e) => setDraft(e.target.value)}
+                  onBlur={commitDraft}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Escape') {
+                      // Escape leaves the editor (applying the edit on blur); a second press closes the lightbox
+                      (e.target as HTMLTextAreaElement).blur();
+                    }
+                    if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+                      e.preventDefault();
+                      commitDraft();
+                    }
+                  }}
+                  placeholder="No caption yet. Type to add one."
+                  className="flex-1 w-full bg-transparent text-gray-300 text-sm font-mono leading-relaxed resize-none outline-none placeholder-gray-600"
+                />
+              </div>
+              <div className="p-4 border-t border-white/5 bg-black/20 text-xs text-gray-500 text-center">
+                {node.captionFile ? `Linked: ${node.captionFile.name}` : 'No sidecar file'} · Ctrl+Enter to apply
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,108 @@
+import React from 'react';
+import { FileNode } from '../types';
+import { formatBytes } from '../utils/fileUtils';
+import { hasMetadata } from '../utils/metadata';
+
+interface MetadataInspectorProps {
+  node: FileNode;
+}
+
+const ORIENTATION_LABELS: Record<number, string> = {
+  1: 'Normal',
+  2: 'Mirrored',
+  3: 'Rotated 180°',
+  4: 'Flipped vertically',
+  5: 'Mirrored, rotated 90° CCW',
+  6: 'Rotated 90° CW',
+  7: 'Mirrored, rotated 90° CW',
+  8: 'Rotated 90° CCW',
+};
+
+const formatExposureTime = (seconds: number) =>
+  seconds >= 1 ? `${seconds}s` : `1/${Math.round(1 / seconds)}s`;
+
+const formatCoordinate = (value: number, positive: string, negative: string) =>
+  `${Math.abs(value).toFixed(5)}° ${value >= 0 ? positive : negative}`;
+
+const Row: React.FC<{ label: string; value?: React.ReactNode }> = ({ label, value }) =>
+  value === undefined || value === '' ? null : (
+    <div className="flex justify-between gap-4 py-1.5">
+      <dt className="text-gray-500 flex-shrink-0">{label}</dt>
+      <dd className="text-gray-200 text-right break-words min-w-0">{value}</dd>
+    </div>
+  );
+
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <section className="mb-6">
+    <h4 className="text-[10px] font-bold text-gray-500 uppercase tracking-[0.2em] mb-2">{title}</h4>
+    <dl className="text-xs divide-y divide-white/5">{children}</dl>
+  </section>
+);
+
+export const MetadataInspector: React.FC<MetadataInspectorProps> = ({ node }) => {
+  const metadata = node.metadata;
+  const exposure = metadata?.exposure;
+
+  return (
+    <div className="flex-1 overflow-y-auto p-6 custom-scrollbar">
+      <Section title="File">
+        <Row label="Type" value={node.file?.type || undefined} />
+        <Row label="Size" value={node.file ? formatBytes(node.file.size) : undefined} />
+        <Row label="Dimensions" value={node.width && node.height ? `${node.width} × ${node.height}` : undefined} />
+        <Row label="Modified" value={node.file?.lastModified ? new Date(node.file.lastModified).toLocaleString() : undefined} />
+      </Section>
+
+      {!metadata && <p className="text-xs text-gray-500">Reading metadata…</p>}
+      {metadata && !hasMetadata(metadata) && <p className="text-xs text-gray-500">This file carries no embedded metadata.</p>}
+
+      {metadata && (metadata.camera || metadata.lens || exposure || metadata.capturedAt || metadata.orientation) && (
+        <Section title="Capture">
+          <Row label="Camera" value={metadata.camera} />
+          <Row label="Lens" value={metadata.lens} />
+          <Row label="Taken" value={metadata.capturedAt?.replace('T', ' ')} />
+          <Row label="Exposure" value={exposure?.exposureTime ? formatExposureTime(exposure.exposureTime) : undefined} />
+          <Row label="Aperture" value={exposure?.fNumber ? `f/${exposure.fNumber.toFixed(1)}` : undefined} />
+          <Row label="ISO" value={exposure?.iso} />
+          <Row label="Focal length" value={exposure?.focalLength ? `${Math.round(exposure.focalLength)} mm` : undefined} />
+          <Row label="Orientation" value={metadata.orientation ? ORIENTATION_LABELS[metadata.orientation] || String(metadata.orientation) : undefined} />
+        </Section>
+      )}
+
+      {metadata?.gps && (
+        <Section title="Location">
+          <Row label="Latitude" value={formatCoordinate(metadata.gps.latitude, 'N', 'S')} />
+          <Row label="Longitude" value={formatCoordinate(metadata.gps.longitude, 'E', 'W')} />
+          <Row label="Altitude" value={metadata.gps.altitude !== undefined ? `${Math.round(metadata.gps.altitude)} m` : undefined} />
+        </Section>
+      )}
+
+      {metadata && (metadata.title || metadata.description || metadata.creator || metadata.copyright || metadata.software || metadata.rating || metadata.keywords) && (
+        <Section title="Description">
+          <Row label="Title" value={metadata.title} />
+          <Row label="Description" value={metadata.description} />
+          <Row label="Creator" value={metadata.creator} />
+          <Row label="Copyright" value={metadata.copyright} />
+          <Row label="Software" value={metadata.software} />
+          <Row label="Rating" value={metadata.rating ? '★'.repeat(metadata.rating) : undefined} />
+          {metadata.keywords && (
+            <div className="flex flex-wrap gap-1.5 py-2">
+              {metadata.keywords.map(keyword => (
+                <span key={keyword} className="px-2 py-0.5 rounded-md bg-white/5 border border-white/10 text-gray-300 text-[11px]">{keyword}</span>
+              ))}
+            </div>
+          )}
+        </Section>
+      )}
+
+      {/* Generation parameters and other text chunks, shown verbatim */}
+      {metadata?.text && Object.entries(metadata.text).map(([key, value]) => (
+        <section key={key} className="mb-6">
+          <h4 className="text-[10px] font-bold text-gray-500 uppercase tracking-[0.2em] mb-2">{key}</h4>
+          <pre className="text-[11px] text-gray-300 font-mono whitespace-pre-wrap break-words bg-black/30 border border-white/5 rounded-lg p-3 max-h-64 overflow-y-auto custom-scrollbar select-text">
+            {value}
+          </pre>
+        </section>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,159 @@
+import React, { useState } from 'react';
+import { BucketReport, BucketSettings, FileNode, OutlierReason } from '../types';
+import { parseTags } from '../utils/commands';
+
+interface ResolutionViewProps {
+  report: BucketReport;
+  settings: BucketSettings;
+  onSettingsChange: (settings: BucketSettings) => void;
+  onSelect: (nodes: FileNode[]) => void;
+  onDelete: (nodes: FileNode[]) => void; // Soft delete, undoable like other bulk actions
+  onTag: (nodes: FileNode[], tags: string[]) => void;
+  onImageClick: (node: FileNode) => void;
+}
+
+// Listing thousands of outliers would stall the view; the actions still cover all of them
+const MAX_LISTED_OUTLIERS = 200;
+
+const REASON_LABELS: Record<OutlierReason, string> = {
+  small: 'Too small',
+  aspect: 'Extreme aspect ratio',
+};
+
+const inputClass = 'w-20 bg-gray-800 border border-white/10 rounded-md px-2 py-1 text-xs text-gray-200 font-mono outline-none focus:border-indigo-500/50';
+
+const SettingInput: React.FC<{
+  label: string;
+  title: string;
+  value: number;
+  min: number;
+  max: number;
+  step?: number;
+  onChange: (value: number) => void;
+}> = ({ label, title, value, min, max, step = 1, onChange }) => (
+  <label className="flex items-center gap-2 text-xs text-gray-300" title={title}>
+    {label}
+    <input
+      type="number"
+      min={min}
+      max={max}
+      step={step}
+      value={value}
+      onChange={(e) => {
+        const next = Number(e.target.value);
+        if (Number.isFinite(next) && next >= min && next <= max) onChange(next);
+      }}
+      className={inputClass}
+    />
+  </label>
+);
+
+// Trainer bucketing preview: where each image would land and which ones are unfit for training
+export const ResolutionView: React.FC<ResolutionViewProps> = ({
+  report, settings, onSettingsChange, onSelect, onDelete, onTag, onImageClick
+}) => {
+  const [tagInput, setTagInput] = useState('low-res');
+  const [reasonFilter, setReasonFilter] = useState<OutlierReason | 'all'>('all');
+
+  const measured = report.buckets.reduce((sum, bucket) => sum + bucket.nodes.length, 0);
+  const largestBucket = Math.max(1, ...report.buckets.map(bucket => bucket.nodes.length));
+  const outliers = report.outliers.filter(outlier => reasonFilter === 'all' || outlier.reasons.includes(reasonFilter));
+  const outlierNodes = outliers.map(outlier => outlier.node);
+  const tags = parseTags(tagInput);
+  const update = (changes: Partial<BucketSettings>) => onSettingsChange({ ...settings, ...changes });
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="px-8 py-5 border-b border-white/5 flex items-center justify-between gap-6 flex-shrink-0">
+        <div>
+          <h2 className="text-lg text-white font-medium">Resolution Buckets</h2>
+          <p className="text-xs text-gray-500 mt-1">
+            {measured} image{measured === 1 ? '' : 's'} in {report.buckets.length} bucket{report.buckets.length === 1 ? '' : 's'}
+            {report.unmeasured.length > 0 && ` · ${report.unmeasured.length} not measured yet`}
+            {' '}· deleted images are not counted
+          </p>
+        </div>
+        <div className="flex items-center gap-4">
+          <SettingInput label="Resolution" title="Training resolution; buckets hold about this squared in pixels" value={settings.resolution} min={64} max={4096} step={64} onChange={(resolution) => update({ resolution })} />
+          <SettingInput label="Step" title="Bucket sides are multiples of this" value={settings.step} min={8} max={256} step={8} onChange={(step) => update({ step })} />
+          <SettingInput label="Min side" title="Images with a shorter side below this are flagged" value={settings.minSide} min={1} max={8192} onChange={(minSide) => update({ minSide })} />
+          <SettingInput label="Max ratio" title="Long side over short side; wider or taller images are flagged" value={settings.maxAspectRatio} min={1} max={20} step={0.1} onChange={(maxAspectRatio) => update({ maxAspectRatio })} />
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar px-8 py-6 space-y-8">
+        <section>
+          <h3 className="text-[10px] font-bold text-gray-500 uppercase tracking-[0.2em] mb-3">Buckets</h3>
+          {report.buckets.length === 0 && <p className="text-xs text-gray-500">No measured images yet.</p>}
+          <div className="space-y-1">
+            {report.buckets.map(bucket => (
+              <div key={`${bucket.width}x${bucket.height}`} className="flex items-center gap-3 text-xs rounded-md px-2 py-1 hover:bg-white/5">
+                <span className="w-24 text-gray-300 font-mono">{bucket.width}×{bucket.height}</span>
+                <span className="w-12 text-gray-500 font-mono">{(bucket.width / bucket.height).toFixed(2)}</span>
+                <div className="flex-1 h-2 rounded-full bg-white/5 overflow-hidden">
+                  <div className="h-full bg-indigo-500/60" style={{ width: `${(bucket.nodes.length / largestBucket) * 100}%` }} />
+                </div>
+                <span className="w-10 text-right text-gray-400 font-mono">{bucket.nodes.length}</span>
+                <span className="w-24 text-right text-gray-500 font-mono" title="Average share of each image cropped away">
+                  {(bucket.averageCrop * 100).toFixed(1)}% crop
+                </span>
+                <button onClick={() => onSelect(bucket.nodes)} className="text-gray-400 hover:text-white transition-colors">Select</button>
+              </div>
+            ))}
+          </div>
+        </section>
+
+        <section>
+          <div className="flex items-center justify-between gap-4 mb-3">
+            <div className="flex items-center gap-3">
+              <h3 className="text-[10px] font-bold text-gray-500 uppercase tracking-[0.2em]">Outliers ({outliers.length})</h3>
+              <select value={reasonFilter} onChange={(e) => setReasonFilter(e.target.value as OutlierReason | 'all')} className="bg-gray-800 border border-white/10 rounded-md px-2 py-1 text-xs text-gray-200 outline-none">
+                <option value="all">All</option>
+                {(Object.keys(REASON_LABELS) as OutlierReason[]).map(reason => (
+                  <option key={reason} value={reason}>{REASON_LABELS[reason]}</option>
+                ))}
+              </select>
+            </div>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => onSelect(outlierNodes)}
+                disabled={outliers.length === 0}
+                className="px-3 py-1.5 rounded-lg text-xs font-bold border border-white/10 text-gray-300 hover:text-white hover:bg-white/10 transition-colors disabled:opacity-30"
+              >
+                Select
+              </button>
+              <input value={tagInput} onChange={(e) => setTagInput(e.target.value)} placeholder="Tags" className="w-28 bg-gray-800 border border-white/10 rounded-md px-2 py-1.5 text-xs text-gray-200 outline-none focus:border-indigo-500/50" />
+              <button
+                onClick={() => onTag(outlierNodes, tags)}
+                disabled={outliers.length === 0 || tags.length === 0}
+                className="px-3 py-1.5 rounded-lg text-xs font-bold border border-white/10 text-gray-300 hover:text-white hover:bg-white/10 transition-colors disabled:opacity-30"
+              >
+                Tag
+              </button>
+              <button
+                onClick={() => onDelete(outlierNodes)}
+                disabled={outliers.length === 0}
+                className="px-3 py-1.5 rounded-lg text-xs font-bold border border-red-500/20 text-red-300 hover:bg-red-500/10 transition-colors disabled:opacity-30"
+              >
+                Delete
+              </button>
+            </div>
+          </div>
+          {outliers.length === 0 && <p className="text-xs text-gray-500">No image is below {settings.minSide}px or beyond {settings.maxAspectRatio}:1.</p>}
+          <div className="divide-y divide-white/5">
+            {outliers.slice(0, MAX_LISTED_OUTLIERS).map(({ node, reasons }) => (
+              <button key={node.id} onClick={() => onImageClick(node)} className="w-full flex items-center gap-4 text-xs text-left px-2 py-2 hover:bg-white/5 transition-colors">
+                <span className="flex-1 truncate text-gray-300 font-mono" title={node.path}>{node.path}</span>
+                <span className="w-24 text-right text-gray-400 font-mono">{node.width}×{node.height}</span>
+                <span className="w-48 text-right text-amber-400">{reasons.map(reason => REASON_LABELS[reason]).join(', ')}</span>
+              </button>
+            ))}
+            {outliers.length > MAX_LISTED_OUTLIERS && (
+              <p className="p-2 text-[11px] text-gray-500 text-center">and {outliers.length - MAX_LISTED_OUTLIERS} more</p>
+            )}
+          </div>
+        </section>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,39 @@
+import React from 'react';
+import { ColorLabel } from '../types';
+import { COLOR_LABEL_CLASSES, COLOR_LABEL_KEYS, COLOR_LABELS, MAX_RATING } from '../utils/ratings';
+
+// Clicking the current rating again clears it
+export const StarRating: React.FC<{
+  rating?: number;
+  onChange: (rating: number | undefined) => void;
+  size?: 'sm' | 'md';
+}> = ({ rating = 0, onChange, size = 'md' }) => (
+  <div className="flex items-center">
+    {Array.from({ length: MAX_RATING }, (_, i) => i + 1).map(value => (
+      <button
+        key={value}
+        onClick={() => onChange(value === rating ? undefined : value)}
+        title={`${value} star${value === 1 ? '' : 's'} (${value})`}
+        className={`${size === 'sm' ? 'text-sm px-0.5' : 'text-lg px-1'} leading-none transition-colors ${value <= rating ? 'text-amber-400 hover:text-amber-300' : 'text-gray-600 hover:text-gray-400'}`}
+      >
+        ★
+      </button>
+    ))}
+  </div>
+);
+
+export const ColorLabelPicker: React.FC<{
+  value?: ColorLabel;
+  onChange: (label: ColorLabel) => void; // The caller decides whether picking the current label clears it
+}> = ({ value, onChange }) => (
+  <div className="flex items-center gap-1.5">
+    {COLOR_LABELS.map(label => (
+      <button
+        key={label}
+        onClick={() => onChange(label)}
+        title={COLOR_LABEL_KEYS[label] ? `${label} (${COLOR_LABEL_KEYS[label]})` : label}
+        className={`w-3.5 h-3.5 rounded-full transition-all ${COLOR_LABEL_CLASSES[label]} ${value === label ? 'ring-2 ring-white ring-offset-1 ring-offset-black' : 'opacity-50 hover:opacity-100'}`}
+      />
+    ))}
+  </div>
+);
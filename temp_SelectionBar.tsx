@@ -0,0 +1,156 @@
+import React, { useState } from 'react';
+import { ColorLabel, FileNode } from '../types';
+import { CaptionBulkMode, parseTags, TransformAction } from '../utils/commands';
+import { ColorLabelPicker, StarRating } from './ReviewControls';
+import { MAX_COMPARED_IMAGES } from './CompareView';
+
+interface SelectionBarProps {
+  selection: FileNode[];
+  folders: FileNode[]; // Move targets, in tree order
+  undoLabel?: string;
+  redoLabel?: string;
+  onSetDeleted: (isDeleted: boolean) => void;
+  onMove: (folder: FileNode) => void;
+  onAddTags: (tags: string[]) => void;
+  onRate: (rating: number | undefined) => void;
+  onLabel: (label: ColorLabel) => void; // Toggles
+  onEditCaptions: (text: string, mode: CaptionBulkMode) => void;
+  onTransform: (action: TransformAction) => void;
+  onExport: () => void;
+  onCompare: () => void;
+  onClear: () => void;
+  onUndo: () => void;
+  onRedo: () => void;
+}
+
+type Panel = 'move' | 'tags' | 'caption' | 'rate' | null;
+
+const folderDepth = (node: FileNode) => {
+  let depth = 0;
+  for (let current = node.parent; current && current.parent; current = current.parent) depth++;
+  return depth;
+};
+
+const buttonClass = 'px-3 py-1.5 rounded-lg text-xs font-bold transition-colors border border-white/10 text-gray-300 hover:text-white hover:bg-white/10 disabled:opacity-30';
+
+export const SelectionBar: React.FC<SelectionBarProps> = ({
+  selection, folders, undoLabel, redoLabel, onSetDeleted, onMove, onAddTags, onRate, onLabel, onEditCaptions, onTransform, onExport, onCompare, onClear, onUndo, onRedo
+}) => {
+  const [panel, setPanel] = useState<Panel>(null);
+  const [text, setText] = useState('');
+  const [captionMode, setCaptionMode] = useState<CaptionBulkMode>('append');
+
+  if (selection.length === 0 && !undoLabel && !redoLabel) return null;
+
+  const togglePanel = (next: Panel) => {
+    setPanel(panel === next ? null : next);
+    setText('');
+  };
+
+  const submitText = () => {
+    if (panel === 'tags') {
+      const tags = parseTags(text);
+      if (tags.length > 0) onAddTags(tags);
+    } else if (panel === 'caption' && text.trim()) {
+      onEditCaptions(text.trim(), captionMode);
+    }
+    setPanel(null);
+    setText('');
+  };
+
+  const hasSelection = selection.length > 0;
+  const allDeleted = hasSelection && selection.every(node => node.isDeleted);
+  // Shown as set only when the whole selection agrees
+  const sharedRating = hasSelection && selection.every(node => node.rating === selection[0].rating) ? selection[0].rating : undefined;
+  const sharedLabel = hasSelection && selection.every(node => node.colorLabel === selection[0].colorLabel) ? selection[0].colorLabel : undefined;
+
+  return (
+    <div className="absolute bottom-6 left-1/2 -translate-x-1/2 z-40 bg-gray-900/95 border border-white/10 rounded-2xl shadow-2xl backdrop-blur-md px-4 py-3 animate-in slide-in-from-bottom-2 min-w-[480px]">
+      <div className="flex items-center gap-2">
+        <span className="text-sm text-white font-medium mr-2">{selection.length} selected</span>
+        <button onClick={() => onSetDeleted(!allDeleted)} disabled={!hasSelection} className={buttonClass}>
+          {allDeleted ? 'Restore' : 'Delete'}
+        </button>
+        <button onClick={() => togglePanel('move')} disabled={!hasSelection} className={buttonClass}>Move</button>
+        <button onClick={() => togglePanel('tags')} disabled={!hasSelection} className={buttonClass}>Tag</button>
+        <button onClick={() => togglePanel('rate')} disabled={!hasSelection} title="Or press 0-5 and 6-9" className={buttonClass}>Rate</button>
+        <button onClick={() => togglePanel('caption')} disabled={!hasSelection} className={buttonClass}>Caption</button>
+        <button onClick={() => onTransform('rotate-left')} disabled={!hasSelection} title="Rotate left" className={buttonClass}>⟲</button>
+        <button onClick={() => onTransform('rotate-right')} disabled={!hasSelection} title="Rotate right" className={buttonClass}>⟳</button>
+        <button onClick={onExport} disabled={!hasSelection} className={buttonClass}>Export</button>
+        <button
+          onClick={onCompare}
+          disabled={selection.length < 2 || selection.length > MAX_COMPARED_IMAGES}
+          title={`Compare 2 to ${MAX_COMPARED_IMAGES} images side by side`}
+          className={buttonClass}
+        >
+          Compare
+        </button>
+        <div className="w-[1px] h-6 bg-white/10 mx-1"></div>
+        <button onClick={onUndo} disabled={!undoLabel} title={undoLabel ? `Undo: ${undoLabel}` : undefined} className={buttonClass}>Undo</button>
+        <button onClick={onRedo} disabled={!redoLabel} title={redoLabel ? `Redo: ${redoLabel}` : undefined} className={buttonClass}>Redo</button>
+        <button onClick={onClear} disabled={!hasSelection} className="ml-auto text-gray-500 hover:text-white text-xs px-2 py-1.5 disabled:opacity-30">
+          Clear
+        </button>
+      </div>
+
+      {panel === 'move' && (
+        <div className="mt-3 max-h-48 overflow-y-auto custom-scrollbar border border-white/5 rounded-xl divide-y divide-white/5">
+          {folders.map(folder => (
+            <button
+              key={folder.id}
+              onClick={() => {
+                onMove(folder);
+                setPanel(null);
+              }}
+              className="block w-full text-left px-3 py-2 text-xs text-gray-300 hover:bg-white/5 hover:text-white truncate"
+              style={{ paddingLeft: 12 + folderDepth(folder) * 12 }}
+            >
+              {folder.parent ? folder.name : 'Workspace root'}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {panel === 'rate' && (
+        <div className="mt-3 flex items-center gap-6 px-1">
+          <StarRating rating={sharedRating} onChange={onRate} />
+          <ColorLabelPicker value={sharedLabel} onChange={onLabel} />
+          <button onClick={() => onRate(undefined)} className="ml-auto text-gray-500 hover:text-white text-xs">Clear rating</button>
+        </div>
+      )}
+
+      {(panel === 'tags' || panel === 'caption') && (
+        <form
+          className="mt-3 flex items-center gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            submitText();
+          }}
+        >
+          {panel === 'caption' && (
+            <select
+              value={captionMode}
+              onChange={(e) => setCaptionMode(e.target.value as CaptionBulkMode)}
+              className="bg-gray-800 border border-white/10 rounded-md px-2 py-1.5 text-xs text-gray-200 outline-none"
+            >
+              <option value="append">Append</option>
+              <option value="prepend">Prepend</option>
+              <option value="remove">Remove</option>
+            </select>
+          )}
+          <input
+            autoFocus
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            placeholder={panel === 'tags' ? 'Tags, comma separated' : 'Caption text'}
+            className="flex-1 bg-black/40 border border-white/10 rounded-md px-3 py-1.5 text-xs text-gray-200 outline-none focus:border-indigo-500/50"
+          />
+          <button type="submit" className="px-3 py-1.5 rounded-lg text-xs font-bold bg-indigo-600 hover:bg-indigo-500 text-white">
+            Apply to {selection.length}
+          </button>
+        </form>
+      )}
+    </div>
+  );
+};
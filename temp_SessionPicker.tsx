@@ -0,0 +1,53 @@
+import React from 'react';
+import { SessionSummary } from '../types';
+
+interface SessionPickerProps {
+  sessions: SessionSummary[];
+  onResume: (session: SessionSummary) => void;
+  onDiscard: (session: SessionSummary) => void;
+  disabled?: boolean;
+}
+
+const formatTimestamp = (iso: string) => {
+  const date = new Date(iso);
+  return `${date.toLocaleDateString()} ${date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+};
+
+export const SessionPicker: React.FC<SessionPickerProps> = ({ sessions, onResume, onDiscard, disabled }) => {
+  if (sessions.length === 0) return null;
+
+  return (
+    <div className="mt-12 w-full text-left">
+      <h3 className="text-xs font-bold text-gray-400 uppercase tracking-[0.2em] mb-4 pl-1">Resume a Session</h3>
+      <div className="bg-white/[0.02] border border-white/5 rounded-2xl divide-y divide-white/5 overflow-hidden backdrop-blur-sm">
+        {sessions.map((session) => (
+          <div key={session.id} className="flex items-center justify-between gap-4 px-5 py-4 hover:bg-white/[0.03] transition-colors">
+            <div className="min-w-0">
+              <p className="text-sm font-medium text-gray-200 truncate">{session.name}</p>
+              <p className="text-[11px] text-gray-500 font-mono mt-0.5">
+                {session.imageCount} images · saved {formatTimestamp(session.updatedAt)}
+                {session.incomplete && <span className="text-amber-400/80"> · some images were not stored</span>}
+              </p>
+            </div>
+            <div className="flex items-center gap-2 flex-shrink-0">
+              <button
+                onClick={() => onDiscard(session)}
+                disabled={disabled}
+                className="text-gray-500 hover:text-red-400 px-3 py-2 rounded-lg text-xs font-medium transition-colors"
+              >
+                Discard
+              </button>
+              <button
+                onClick={() => onResume(session)}
+                disabled={disabled}
+                className="bg-white/10 hover:bg-white/20 text-white px-4 py-2 rounded-lg text-xs font-bold transition-colors border border-white/10"
+              >
+                Resume
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -1,55 +1,173 @@
-import React, { useState, useEffect } from 'react';
-import { FileNode } from '../types';
-import { serializeTree } from '../utils/fileUtils';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { ExportProfile, FileNode } from '../types';
+import { exportSnapshotArchive } from '../utils/snapshot';
+import { DATASET_EXPORTERS, DatasetOptionField, DatasetOptions, exportDatasetArchive, getDatasetExporter } from '../utils/datasets';
+import { describeExportProfile, estimateExportSize, EXPORT_PROFILES, getExportProfile } from '../utils/exportProfiles';
+import { collectExportImages, createSubsetFilter, ExportFilter, formatBytes } from '../utils/fileUtils';
+import {
+  countCheckpointedImages, DEFAULT_EXPORT_CONCURRENCY, isAbortError, MAX_EXPORT_CONCURRENCY, openExportCache
+} from '../utils/exportPool';
+
+export type ExportScope = 'workspace' | 'folder' | 'visible' | 'selection';
+
+const NO_SELECTION: FileNode[] = [];
+
+// Snapshot, or the id of a dataset exporter
+type ExportFormat = 'snapshot' | string;
+
+const selectClass = 'bg-gray-800 border border-white/10 rounded-md px-2 py-1 text-gray-200 outline-none';
+
+const DatasetOptionInput: React.FC<{
+  field: DatasetOptionField;
+  value: DatasetOptions[string];
+  onChange: (value: DatasetOptions[string]) => void;
+}> = ({ field, value, onChange }) => {
+  switch (field.type) {
+    case 'boolean':
+      return <input type="checkbox" checked={!!value} onChange={(e) => onChange(e.target.checked)} className="accent-indigo-500" />;
+    case 'number':
+      return (
+        <input
+          type="number"
+          min={field.min}
+          max={field.max}
+          value={Number(value)}
+          onChange={(e) => onChange(Math.min(field.max, Math.max(field.min, Number(e.target.value) || field.min)))}
+          className={`${selectClass} w-24 text-right`}
+        />
+      );
+    case 'select':
+      return (
+        <select value={String(value)} onChange={(e) => onChange(e.target.value)} className={selectClass}>
+          {field.choices.map(choice => <option key={choice.value} value={choice.value}>{choice.label}</option>)}
+        </select>
+      );
+    default:
+      return <input type="text" value={String(value)} placeholder={field.placeholder} onChange={(e) => onChange(e.target.value)} className={`${selectClass} w-32`} />;
+  }
+};
 
 interface ShareModalProps {
   isOpen: boolean;
   onClose: () => void;
   rootNode: FileNode | null;
-  stats: { files: number; size: number };
+  currentNode: FileNode | null;
+  visibleNodes: FileNode[]; // What the gallery currently shows, folders included
+  selection?: FileNode[];
+  initialScope?: ExportScope; // Applied each time the modal opens
+  profile: ExportProfile;
+  onProfileChange: (profile: ExportProfile) => void;
 }
 
-export const ShareModal: React.FC<ShareModalProps> = ({ isOpen, onClose, rootNode, stats }) => {
+export const ShareModal: React.FC<ShareModalProps> = ({
+  isOpen, onClose, rootNode, currentNode, visibleNodes, selection = NO_SELECTION, initialScope, profile, onProfileChange
+}) => {
   const [step, setStep] = useState<'idle' | 'processing' | 'ready'>('idle');
   const [progress, setProgress] = useState(0);
   const [downloadUrl, setDownloadUrl] = useState<string | null>(null);
+  const [concurrency, setConcurrency] = useState(DEFAULT_EXPORT_CONCURRENCY);
+  const [checkpointed, setCheckpointed] = useState(0); // Images already encoded by an interrupted export
+  const [scope, setScope] = useState<ExportScope>('workspace');
+  const [deleted, setDeleted] = useState<ExportFilter['deleted']>('omit');
+  const [format, setFormat] = useState<ExportFormat>('snapshot');
+  const [datasetOptions, setDatasetOptions] = useState<Record<string, DatasetOptions>>(
+    () => Object.fromEntries(DATASET_EXPORTERS.map(exporter => [exporter.id, { ...exporter.defaults }]))
+  );
+  const [downloadName, setDownloadName] = useState('');
+  const abortRef = useRef<AbortController | null>(null);
+
+  const exporter = format === 'snapshot' ? undefined : getDatasetExporter(format);
+
+  const filter = useMemo<ExportFilter>(() => {
+    const subset = scope === 'folder' ? (currentNode ? [currentNode] : [])
+      : scope === 'visible' ? visibleNodes
+      : scope === 'selection' ? selection
+      : null;
+    // Datasets never contain deleted images
+    return { include: subset ? createSubsetFilter(subset) : undefined, deleted: exporter ? 'omit' : deleted };
+  }, [scope, deleted, exporter, currentNode, visibleNodes, selection]);
+
+  // Recomputed on open since soft deletes change nodes in place
+  const exportImages = useMemo(
+    () => (isOpen && rootNode ? collectExportImages(rootNode, filter) : []),
+    [isOpen, rootNode, filter]
+  );
+
+  const refreshCheckpoint = async () => {
+    const cache = exportImages.length > 0 ? await openExportCache() : null;
+    setCheckpointed(cache ? await countCheckpointedImages(cache, exportImages, profile) : 0);
+  };
 
   useEffect(() => {
     if (isOpen) {
       setStep('idle');
       setProgress(0);
       setDownloadUrl(null);
+      if (initialScope) setScope(initialScope);
+      else if (scope === 'selection' && selection.length === 0) setScope('workspace');
+    } else {
+      abortRef.current?.abort();
+      setDownloadUrl(null);
     }
   }, [isOpen]);
 
+  // Archives can run to gigabytes, so each one is let go once it is replaced, closed or unmounted
+  useEffect(() => {
+    if (!downloadUrl) return;
+    return () => URL.revokeObjectURL(downloadUrl);
+  }, [downloadUrl]);
+
+  // Checkpoints belong to one profile, switching profiles changes what can be resumed
+  useEffect(() => {
+    if (isOpen) refreshCheckpoint().catch(() => setCheckpointed(0));
+  }, [exportImages, profile]);
+
   const handleGenerateSnapshot = async () => {
-    if (!rootNode) return;
+    if (!rootNode || exportImages.length === 0) return;
     setStep('processing');
-    
+    setProgress(0);
+
     let processedCount = 0;
-    const totalFiles = stats.files;
-    
-    // Small delay to allow UI to render the 'processing' state before heavy JS work starts
-    setTimeout(async () => {
-        try {
-            const serializedRoot = await serializeTree(rootNode, () => {
+    const totalFiles = exportImages.length;
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    try {
+        // Encoding runs in workers, so the modal stays responsive while this is awaited
+        const exportOptions = {
+            filter,
+            profile,
+            concurrency,
+            signal: controller.signal,
+            onProgress: () => {
                 processedCount++;
                 setProgress(Math.round((processedCount / totalFiles) * 100));
-            });
-
-            const jsonString = JSON.stringify(serializedRoot);
-            const blob = new Blob([jsonString], { type: 'application/json' });
-            const url = URL.createObjectURL(blob);
-            setDownloadUrl(url);
-            setStep('ready');
-        } catch (error) {
+            }
+        };
+        const date = new Date().toISOString().slice(0, 10);
+        const archive = exporter
+            ? await exportDatasetArchive(rootNode, exporter, datasetOptions[exporter.id], exportOptions)
+            : await exportSnapshotArchive(rootNode, exportOptions);
+        setDownloadName(exporter ? `instant_oss_${exporter.id}_${date}.zip` : `instant_oss_snapshot_${date}.afm`);
+
+        const url = URL.createObjectURL(archive);
+        setDownloadUrl(url);
+        setCheckpointed(0);
+        setStep('ready');
+    } catch (error) {
+        if (!isAbortError(error)) {
             console.error("Export failed", error);
-            alert("Export failed due to memory limits or file issues. Try exporting fewer folders.");
-            setStep('idle');
+            alert("Export failed due to memory limits or file issues. Finished images were kept, generating again resumes from there.");
         }
-    }, 100);
+        setStep('idle');
+        refreshCheckpoint().catch(() => setCheckpointed(0));
+    } finally {
+        abortRef.current = null;
+    }
   };
 
+  const handleCancel = () => abortRef.current?.abort();
+
   if (!isOpen) return null;
 
   return (
@@ -61,25 +179,100 @@ export const ShareModal: React.FC<ShareModalProps> = ({ isOpen, onClose, rootNod
           </svg>
         </button>
 
-        <h2 className="text-xl font-bold text-white mb-2">Share Gallery Snapshot</h2>
+        <h2 className="text-xl font-bold text-white mb-2">{exporter ? 'Export Dataset' : 'Share Gallery Snapshot'}</h2>
         <p className="text-gray-400 text-sm mb-6">
-            Since this app runs locally without a cloud server, you can share a "Snapshot File" containing your folder structure and high-quality images.
+            {exporter
+              ? `${exporter.description}. Deleted images are left out and captions are written next to the images.`
+              : 'Since this app runs locally without a cloud server, you can share a "Snapshot File" containing your folder structure and high-quality images.'}
         </p>
         
         {step === 'idle' && (
             <div className="text-center py-4">
                  <div className="bg-indigo-900/30 border border-indigo-500/30 p-4 rounded-xl mb-6">
-                    <p className="text-indigo-200 text-sm font-medium">Ready to bundle {stats.files} items</p>
-                    <p className="text-indigo-400/60 text-xs mt-1">Exporting in HD (Short-edge 1024px) for best viewing experience.</p>
+                    <p className="text-indigo-200 text-sm font-medium">Ready to bundle {exportImages.length} items</p>
+                    <p className="text-indigo-400/60 text-xs mt-1">{describeExportProfile(profile)} · about {formatBytes(estimateExportSize(exportImages, profile), 0)}</p>
+                    {checkpointed > 0 && (
+                        <p className="text-emerald-400/80 text-xs mt-2">Resuming: {checkpointed} of {exportImages.length} images were already encoded by an earlier export.</p>
+                    )}
                  </div>
+                 <label className="flex items-center justify-between text-xs text-gray-400 mb-3 px-1">
+                    <span>Format</span>
+                    <select value={format} onChange={(e) => setFormat(e.target.value)} className={selectClass}>
+                        <option value="snapshot">Instant OSS snapshot (.afm)</option>
+                        {DATASET_EXPORTERS.map(d => (
+                            <option key={d.id} value={d.id}>{d.name}</option>
+                        ))}
+                    </select>
+                 </label>
+                 {exporter?.fields.map(field => (
+                    <label key={field.key} className="flex items-center justify-between text-xs text-gray-400 mb-3 px-1">
+                        <span>{field.label}</span>
+                        <DatasetOptionInput
+                            field={field}
+                            value={datasetOptions[exporter.id][field.key]}
+                            onChange={(value) => setDatasetOptions(prev => ({ ...prev, [exporter.id]: { ...prev[exporter.id], [field.key]: value } }))}
+                        />
+                    </label>
+                 ))}
+                 <label className="flex items-center justify-between text-xs text-gray-400 mb-3 px-1">
+                    <span>Export</span>
+                    <select
+                        value={scope}
+                        onChange={(e) => setScope(e.target.value as ExportScope)}
+                        className="bg-gray-800 border border-white/10 rounded-md px-2 py-1 text-gray-200 outline-none"
+                    >
+                        <option value="workspace">Whole workspace</option>
+                        <option value="folder" disabled={!currentNode}>Current folder{currentNode ? ` (${currentNode.name})` : ''}</option>
+                        <option value="visible">Current view ({visibleNodes.length} items)</option>
+                        <option value="selection" disabled={selection.length === 0}>Selection ({selection.length})</option>
+                    </select>
+                 </label>
+                 {!exporter && (
+                   <label className="flex items-center justify-between text-xs text-gray-400 mb-3 px-1">
+                      <span>Deleted images</span>
+                      <select
+                          value={deleted}
+                          onChange={(e) => setDeleted(e.target.value as ExportFilter['deleted'])}
+                          className="bg-gray-800 border border-white/10 rounded-md px-2 py-1 text-gray-200 outline-none"
+                      >
+                          <option value="omit">Leave out</option>
+                          <option value="stub">Keep as flagged stubs</option>
+                      </select>
+                   </label>
+                 )}
+                 <label className="flex items-center justify-between text-xs text-gray-400 mb-3 px-1">
+                    <span>Export profile</span>
+                    <select
+                        value={profile.id}
+                        onChange={(e) => onProfileChange(getExportProfile(e.target.value))}
+                        className="bg-gray-800 border border-white/10 rounded-md px-2 py-1 text-gray-200 outline-none"
+                    >
+                        {EXPORT_PROFILES.map(p => (
+                            <option key={p.id} value={p.id}>{p.name}</option>
+                        ))}
+                    </select>
+                 </label>
+                 <label className="flex items-center justify-between text-xs text-gray-400 mb-4 px-1">
+                    <span>Parallel encoders</span>
+                    <select
+                        value={concurrency}
+                        onChange={(e) => setConcurrency(Number(e.target.value))}
+                        className="bg-gray-800 border border-white/10 rounded-md px-2 py-1 text-gray-200 outline-none"
+                    >
+                        {Array.from({ length: MAX_EXPORT_CONCURRENCY }, (_, i) => i + 1).map(n => (
+                            <option key={n} value={n}>{n}</option>
+                        ))}
+                    </select>
+                 </label>
                  <button 
                     onClick={handleGenerateSnapshot}
-                    className="w-full bg-indigo-600 hover:bg-indigo-500 text-white font-bold py-3 px-4 rounded-xl transition-colors shadow-lg shadow-indigo-900/20 flex items-center justify-center gap-2"
+                    disabled={exportImages.length === 0}
+                    className="w-full bg-indigo-600 hover:bg-indigo-500 disabled:opacity-40 disabled:hover:bg-indigo-600 text-white font-bold py-3 px-4 rounded-xl transition-colors shadow-lg shadow-indigo-900/20 flex items-center justify-center gap-2"
                  >
                     <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19.428 15.428a2 2 0 00-1.022-.547l-2.387-.477a6 6 0 00-3.86.517l-.318.158a6 6 0 01-3.86.517L6.05 15.21a2 2 0 00-1.806.547M8 4h8l-1 1v5.172a2 2 0 00.586 1.414l5 5c1.26 1.26.367 3.414-1.415 3.414H4.828c-1.782 0-2.674-2.154-1.414-3.414l5-5A2 2 0 009 10.172V5L8 4z" />
                     </svg>
-                    Generate HD Snapshot
+                    {checkpointed > 0 ? (exporter ? 'Resume Dataset' : 'Resume Snapshot') : exporter ? 'Generate Dataset' : 'Generate Snapshot'}
                  </button>
             </div>
         )}
@@ -87,7 +280,7 @@ export const ShareModal: React.FC<ShareModalProps> = ({ isOpen, onClose, rootNod
         {step === 'processing' && (
           <div className="py-8">
             <div className="flex justify-between text-xs font-mono text-gray-400 mb-2">
-              <span>PROCESSING IMAGES (HD)...</span>
+              <span>PROCESSING IMAGES ({profile.name.toUpperCase()})...</span>
               <span>{progress}%</span>
             </div>
             <div className="h-2 bg-gray-800 rounded-full overflow-hidden">
@@ -96,7 +289,10 @@ export const ShareModal: React.FC<ShareModalProps> = ({ isOpen, onClose, rootNod
                 style={{ width: `${progress}%` }}
               />
             </div>
-            <p className="text-center text-xs text-gray-500 mt-4 animate-pulse">Encoding high-definition assets...</p>
+            <p className="text-center text-xs text-gray-500 mt-4 animate-pulse">{profile.format === 'original' ? 'Copying original files...' : 'Encoding assets...'}</p>
+            <button onClick={handleCancel} className="block w-full mt-4 text-gray-500 hover:text-red-400 text-sm py-2 transition-colors">
+                Cancel
+            </button>
           </div>
         )}
 
@@ -110,15 +306,17 @@ export const ShareModal: React.FC<ShareModalProps> = ({ isOpen, onClose, rootNod
                 </div>
              </div>
              
-             <h3 className="text-center text-white font-medium mb-1">Snapshot Ready!</h3>
-             <p className="text-center text-gray-500 text-xs mb-6">Send this file to your friends. They can open it using the "Import Snapshot" button.</p>
+             <h3 className="text-center text-white font-medium mb-1">{exporter ? 'Dataset Ready!' : 'Snapshot Ready!'}</h3>
+             <p className="text-center text-gray-500 text-xs mb-6">
+                {exporter ? 'Unzip it where your training scripts expect the data.' : 'Send this file to your friends. They can open it using the "Import Snapshot" button.'}
+             </p>
 
              <a 
                 href={downloadUrl}
-                download={`instant_oss_snapshot_${new Date().toISOString().slice(0,10)}.afm`}
+                download={downloadName}
                 className="block w-full bg-green-600 hover:bg-green-500 text-white font-bold py-3 px-4 rounded-xl text-center transition-colors shadow-lg shadow-green-900/20"
              >
-                Download File (.afm)
+                Download File ({exporter ? '.zip' : '.afm'})
              </a>
              <button onClick={onClose} className="block w-full mt-3 text-gray-500 hover:text-gray-300 text-sm py-2">
                 Close
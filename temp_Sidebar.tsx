@@ -1,34 +1,140 @@
 import React, { useState } from 'react';
-import { FileNode } from '../types';
+import { FileNode, SmartCollection } from '../types';
+import { getDraggedIds, isNodeDrag, setDraggedNodes, validateFolderName } from '../utils/tree';
+
+// Tree edits offered from the sidebar; without them the tree is display-only
+export interface FolderActions {
+  onCreate: (parent: FileNode, name: string) => void;
+  onRename: (folder: FileNode, name: string) => void;
+  onMerge: (source: FileNode, target: FileNode) => void;
+  onDelete: (folder: FileNode) => void;
+  onDrop: (ids: string[], target: FileNode, merge: boolean) => void; // Merge: Alt held while dropping a folder
+}
 
 interface SidebarProps {
   node: FileNode;
   onSelect: (node: FileNode) => void;
   selectedId: string | null;
+  actions?: FolderActions;
   level?: number;
 }
 
-export const FolderTree: React.FC<SidebarProps> = ({ node, onSelect, selectedId, level = 0 }) => {
+// Saved searches listed under the folders; opening one runs its query
+export interface CollectionActions {
+  collections: SmartCollection[];
+  counts: Record<string, number>; // By collection id
+  activeQuery: string;
+  onOpen: (collection: SmartCollection) => void;
+  onSave: (name: string) => void; // Saves the current search
+  onDelete: (collection: SmartCollection) => void;
+}
+
+const displayName = (node: FileNode) => (node.name === 'Root' ? 'My Library' : node.name);
+
+// Inline name field for new and renamed folders; Enter saves, Escape or leaving the field cancels
+const FolderNameInput: React.FC<{
+  initial: string;
+  validate: (name: string) => string | null;
+  onSubmit: (name: string) => void;
+  onCancel: () => void;
+}> = ({ initial, validate, onSubmit, onCancel }) => {
+  const [name, setName] = useState(initial);
+  const error = validate(name);
+
+  return (
+    <input
+      autoFocus
+      value={name}
+      onChange={(e) => setName(e.target.value)}
+      onFocus={(e) => e.target.select()}
+      onClick={(e) => e.stopPropagation()}
+      onBlur={onCancel}
+      onKeyDown={(e) => {
+        e.stopPropagation();
+        if (e.key === 'Escape') onCancel();
+        if (e.key === 'Enter' && !error) onSubmit(name.trim());
+      }}
+      title={error || undefined}
+      className={`flex-1 min-w-0 bg-gray-900 border rounded px-1.5 py-0.5 text-xs text-gray-200 outline-none ${error && name.trim() ? 'border-amber-500/50' : 'border-indigo-500/50'}`}
+    />
+  );
+};
+
+const ActionButton: React.FC<{ title: string; onClick: () => void; path: string }> = ({ title, onClick, path }) => (
+  <button
+    title={title}
+    onClick={(e) => {
+      e.stopPropagation();
+      onClick();
+    }}
+    className="p-0.5 rounded text-gray-500 hover:text-white hover:bg-white/10 transition-colors"
+  >
+    <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d={path} />
+    </svg>
+  </button>
+);
+
+export const FolderTree: React.FC<SidebarProps> = ({ node, onSelect, selectedId, actions, level = 0 }) => {
   const [isOpen, setIsOpen] = useState(true);
+  const [editing, setEditing] = useState<'rename' | 'create' | null>(null);
+  const [isDropTarget, setIsDropTarget] = useState(false);
 
   if (node.type === 'file') return null;
 
   const folderChildren = node.children.filter(c => c.type === 'folder');
   const hasSubFolders = folderChildren.length > 0;
   const isSelected = node.id === selectedId;
+  const isRoot = !node.parent;
+
+  // Renaming a folder to the name of a sibling folder offers to merge the two
+  const findSiblingFolder = (name: string) => node.parent?.children.find(child =>
+    child !== node && child.type === 'folder' && child.name.toLowerCase() === name.trim().toLowerCase()
+  );
+
+  const submitRename = (name: string) => {
+    setEditing(null);
+    if (!actions || name === node.name) return;
+    const sibling = findSiblingFolder(name);
+    if (!sibling) actions.onRename(node, name);
+    else if (window.confirm(`${sibling.name} already exists. Merge ${node.name} into it?`)) actions.onMerge(node, sibling);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    setIsDropTarget(false);
+    if (!actions || !isNodeDrag(e.dataTransfer)) return;
+    e.preventDefault();
+    e.stopPropagation();
+    actions.onDrop(getDraggedIds(e.dataTransfer), node, e.altKey);
+  };
 
   return (
     <div className="select-none text-sm font-medium">
       <div
         className={`
           flex items-center gap-2 px-3 py-2 cursor-pointer transition-all duration-200 rounded-lg mx-3 mb-1 group
-          ${isSelected ? 'bg-indigo-600/10 text-indigo-300' : 'text-gray-400 hover:bg-white/5 hover:text-gray-200'}
+          ${isDropTarget ? 'bg-indigo-600/20 text-indigo-200 ring-1 ring-indigo-500/50' : isSelected ? 'bg-indigo-600/10 text-indigo-300' : 'text-gray-400 hover:bg-white/5 hover:text-gray-200'}
         `}
         style={{ paddingLeft: `${level * 12 + 12}px` }}
         onClick={(e) => {
             e.stopPropagation();
             onSelect(node);
         }}
+        draggable={!!actions && !isRoot && !editing}
+        onDragStart={(e) => {
+          e.stopPropagation();
+          setDraggedNodes(e.dataTransfer, [node]);
+        }}
+        onDragOver={(e) => {
+          if (!actions || !isNodeDrag(e.dataTransfer)) return;
+          e.preventDefault();
+          e.stopPropagation();
+          e.dataTransfer.dropEffect = 'move';
+          setIsDropTarget(true);
+        }}
+        onDragLeave={() => setIsDropTarget(false)}
+        onDrop={handleDrop}
+        title={actions && !isRoot ? 'Drag onto another folder to move it, hold Alt while dropping to merge it' : undefined}
       >
         <button
           onClick={(e) => {
@@ -51,9 +157,39 @@ export const FolderTree: React.FC<SidebarProps> = ({ node, onSelect, selectedId,
           <path d="M2 6a2 2 0 012-2h5l2 2h5a2 2 0 012 2v6a2 2 0 01-2 2H4a2 2 0 01-2-2V6z" />
         </svg>
         
-        <span className="truncate">{node.name === 'Root' ? 'My Library' : node.name}</span>
+        {editing === 'rename' ? (
+          <FolderNameInput initial={node.name} validate={(name) => (findSiblingFolder(name) ? null : validateFolderName(node.parent!, name, node))} onSubmit={submitRename} onCancel={() => setEditing(null)} />
+        ) : (
+          <span className="truncate flex-1">{displayName(node)}</span>
+        )}
+
+        {actions && !editing && (
+          <div className="hidden group-hover:flex items-center gap-0.5 shrink-0">
+            <ActionButton title="New folder" onClick={() => { setIsOpen(true); setEditing('create'); }} path="M12 4v16m8-8H4" />
+            {!isRoot && (
+              <>
+                <ActionButton title="Rename" onClick={() => setEditing('rename')} path="M15.232 5.232l3.536 3.536M9 13l6.232-6.232a2.5 2.5 0 013.536 3.536L12.536 16.536 9 17l.464-3.536z" />
+                <ActionButton title="Delete folder (undo with Ctrl+Z)" onClick={() => actions.onDelete(node)} path="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6M9 7V4h6v3M4 7h16" />
+              </>
+            )}
+          </div>
+        )}
       </div>
 
+      {editing === 'create' && (
+        <div className="flex items-center gap-2 mx-3 mb-1 px-3 py-1 ml-9">
+          <FolderNameInput
+            initial="New folder"
+            validate={(name) => validateFolderName(node, name)}
+            onSubmit={(name) => {
+              setEditing(null);
+              actions?.onCreate(node, name);
+            }}
+            onCancel={() => setEditing(null)}
+          />
+        </div>
+      )}
+
       {isOpen && hasSubFolders && (
         <div className="mt-1 border-l border-white/5 ml-6">
           {folderChildren.map((child) => (
@@ -62,6 +198,7 @@ export const FolderTree: React.FC<SidebarProps> = ({ node, onSelect, selectedId,
               node={child}
               onSelect={onSelect}
               selectedId={selectedId}
+              actions={actions}
               level={level} // Level stays somewhat static because we use border-l for indentation visual
             />
           ))}
@@ -71,11 +208,63 @@ export const FolderTree: React.FC<SidebarProps> = ({ node, onSelect, selectedId,
   );
 };
 
+// Saving is offered while a search is open that no collection already holds
+const SmartCollections: React.FC<CollectionActions> = ({ collections, counts, activeQuery, onOpen, onSave, onDelete }) => {
+  const [isNaming, setIsNaming] = useState(false);
+  const query = activeQuery.trim();
+  const canSave = query !== '' && !collections.some(collection => collection.query === query);
+
+  return (
+    <div className="mt-6 select-none text-sm font-medium">
+      <div className="flex items-center justify-between px-6 mb-2 group">
+        <h3 className="text-[10px] font-bold text-gray-500 uppercase tracking-[0.2em]">Smart Collections</h3>
+        {canSave && !isNaming && (
+          <ActionButton title={`Save "${query}" as a collection`} onClick={() => setIsNaming(true)} path="M12 4v16m8-8H4" />
+        )}
+      </div>
+
+      {isNaming && (
+        <div className="flex items-center gap-2 mx-3 mb-1 px-3 py-1">
+          <FolderNameInput
+            initial={query}
+            validate={(name) => (name.trim() ? null : 'Enter a name')}
+            onSubmit={(name) => {
+              setIsNaming(false);
+              onSave(name);
+            }}
+            onCancel={() => setIsNaming(false)}
+          />
+        </div>
+      )}
+
+      {collections.map(collection => (
+        <div
+          key={collection.id}
+          onClick={() => onOpen(collection)}
+          title={collection.query}
+          className={`flex items-center gap-2 px-3 py-2 cursor-pointer transition-all duration-200 rounded-lg mx-3 mb-1 group ${collection.query === query ? 'bg-indigo-600/10 text-indigo-300' : 'text-gray-400 hover:bg-white/5 hover:text-gray-200'}`}
+        >
+          <svg className="w-4 h-4 shrink-0 text-gray-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 4a1 1 0 011-1h16a1 1 0 011 1v2.586a1 1 0 01-.293.707l-6.414 6.414a1 1 0 00-.293.707V17l-4 4v-6.586a1 1 0 00-.293-.707L3.293 7.293A1 1 0 013 6.586V4z" />
+          </svg>
+          <span className="truncate flex-1">{collection.name}</span>
+          <span className="text-[10px] text-gray-600 font-mono group-hover:hidden">{counts[collection.id] ?? 0}</span>
+          <div className="hidden group-hover:flex items-center shrink-0">
+            <ActionButton title="Remove collection" onClick={() => onDelete(collection)} path="M6 18L18 6M6 6l12 12" />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
 export const Sidebar: React.FC<{ 
     root: FileNode; 
     selectedNode: FileNode | null; 
-    onSelect: (n: FileNode) => void 
-}> = ({ root, selectedNode, onSelect }) => {
+    onSelect: (n: FileNode) => void;
+    actions?: FolderActions;
+    collections?: CollectionActions;
+}> = ({ root, selectedNode, onSelect, actions, collections }) => {
   return (
     <div className="w-80 flex-shrink-0 h-full flex flex-col bg-transparent">
         <div className="p-8 pb-4">
@@ -97,7 +286,9 @@ export const Sidebar: React.FC<{
                 node={root} 
                 onSelect={onSelect} 
                 selectedId={selectedNode?.id || null} 
+                actions={actions}
             />
+            {collections && <SmartCollections {...collections} />}
         </div>
         
         <div className="p-6">
@@ -0,0 +1,73 @@
+import { BucketReport, BucketSettings, FileNode, OutlierReason, ResolutionBucket, ResolutionOutlier } from '../types';
+
+export const DEFAULT_BUCKET_SETTINGS: BucketSettings = { resolution: 1024, step: 64, minSide: 512, maxAspectRatio: 3 };
+
+// kohya-ss defaults to bucket sides between 256 and 2048 for a 1024 resolution; the same
+// proportions are kept for other resolutions
+const bucketSideRange = ({ resolution, step }: BucketSettings) => ({
+  min: Math.max(step, Math.floor(resolution / 4 / step) * step),
+  max: resolution * 2,
+});
+
+// Every width from the smallest side up, paired with the tallest height that stays within the
+// pixel budget, plus the transposed bucket
+export const createBuckets = (settings: BucketSettings): { width: number; height: number }[] => {
+  const { resolution, step } = settings;
+  const { min, max } = bucketSideRange(settings);
+  const area = resolution * resolution;
+  const seen = new Set<string>();
+  const buckets: { width: number; height: number }[] = [];
+  const add = (width: number, height: number) => {
+    const key = `${width}x${height}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    buckets.push({ width, height });
+  };
+
+  const square = Math.floor(resolution / step) * step;
+  add(square, square);
+  for (let width = min; width <= max; width += step) {
+    const height = Math.min(max, Math.floor(area / width / step) * step);
+    if (height < min) continue;
+    add(width, height);
+    add(height, width);
+  }
+  return buckets;
+};
+
+// Compared on a log scale so 2:1 and 1:2 are equally far from square
+const aspectDistance = (a: number, b: number) => Math.abs(Math.log(a) - Math.log(b));
+
+export const computeBucketReport = (nodes: FileNode[], settings: BucketSettings): BucketReport => {
+  const buckets = createBuckets(settings).map(size => ({ ...size, nodes: [] as FileNode[], crop: 0 }));
+  const outliers: ResolutionOutlier[] = [];
+  const unmeasured: FileNode[] = [];
+
+  nodes.forEach(node => {
+    if (node.type !== 'file' || node.isDeleted) return;
+    if (!node.width || !node.height) {
+      unmeasured.push(node);
+      return;
+    }
+
+    const aspect = node.width / node.height;
+    let best = buckets[0];
+    buckets.forEach(bucket => {
+      if (aspectDistance(bucket.width / bucket.height, aspect) < aspectDistance(best.width / best.height, aspect)) best = bucket;
+    });
+    const bucketAspect = best.width / best.height;
+    best.nodes.push(node);
+    best.crop += 1 - Math.min(aspect, bucketAspect) / Math.max(aspect, bucketAspect);
+
+    const reasons: OutlierReason[] = [];
+    if (Math.min(node.width, node.height) < settings.minSide) reasons.push('small');
+    if (Math.max(aspect, 1 / aspect) > settings.maxAspectRatio) reasons.push('aspect');
+    if (reasons.length > 0) outliers.push({ node, reasons });
+  });
+
+  const used: ResolutionBucket[] = buckets
+    .filter(bucket => bucket.nodes.length > 0)
+    .sort((a, b) => b.width / b.height - a.width / a.height)
+    .map(({ width, height, nodes, crop }) => ({ width, height, nodes, averageCrop: crop / nodes.length }));
+  return { buckets: used, outliers, unmeasured };
+};
@@ -0,0 +1,136 @@
+import { CaptionChange, CaptionOperation, FileNode } from '../types';
+import { loadCaptions } from './fileUtils';
+import { compareNames } from './sorting';
+import { splitCaptionTags } from './captionStats';
+
+export const CAPTION_OPERATION_LABELS: Record<CaptionOperation['kind'], string> = {
+  trigger: 'Trigger word',
+  replace: 'Find and replace',
+  'normalize-tags': 'Normalize tags',
+  lowercase: 'Lowercase',
+  trim: 'Trim whitespace',
+};
+
+export const createCaptionOperation = (kind: CaptionOperation['kind']): CaptionOperation => {
+  switch (kind) {
+    case 'trigger': return { kind, word: '', position: 'prepend' };
+    case 'replace': return { kind, find: '', replace: '', regex: false, caseSensitive: false };
+    case 'normalize-tags': return { kind, sort: false };
+    default: return { kind };
+  }
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Null when the operation cannot run, e.g. an invalid regular expression
+export const describeOperationError = (operation: CaptionOperation): string | null => {
+  if (operation.kind === 'trigger' && !operation.word.trim()) return 'Enter a trigger word';
+  if (operation.kind === 'replace') {
+    if (!operation.find) return 'Enter the text to find';
+    if (operation.regex) {
+      try {
+        new RegExp(operation.find);
+      } catch (e) {
+        return e instanceof Error ? e.message : 'Invalid regular expression';
+      }
+    }
+  }
+  return null;
+};
+
+const applyOperation = (caption: string, operation: CaptionOperation): string => {
+  switch (operation.kind) {
+    case 'trigger': {
+      const word = operation.word.trim();
+      // Already tagged with it, wherever it is
+      if (splitCaptionTags(caption).some(tag => tag.toLowerCase() === word.toLowerCase())) return caption;
+      if (!caption) return word;
+      return operation.position === 'prepend' ? `${word}, ${caption}` : `${caption}, ${word}`;
+    }
+    case 'replace': {
+      const source = operation.regex ? operation.find : escapeRegExp(operation.find);
+      const pattern = new RegExp(source, operation.caseSensitive ? 'g' : 'gi');
+      // Plain replacements are inserted literally; regex ones may refer to groups as $1
+      return operation.regex ? caption.replace(pattern, operation.replace) : caption.replace(pattern, () => operation.replace);
+    }
+    case 'normalize-tags': {
+      const seen = new Set<string>();
+      const tags = splitCaptionTags(caption).filter(tag => {
+        const key = tag.toLowerCase();
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+      if (operation.sort) tags.sort(compareNames);
+      return tags.join(', ');
+    }
+    case 'lowercase':
+      return caption.toLowerCase();
+    case 'trim':
+      return caption
+        .split('\n')
+        .map(line => line.replace(/[ \t]+/g, ' ').replace(/ +,/g, ',').trim())
+        .join('\n')
+        .replace(/\n{3,}/g, '\n\n')
+        .replace(/^[\s,]+|[\s,]+$/g, '');
+  }
+};
+
+export const applyCaptionOperations = (caption: string | undefined, operations: CaptionOperation[]): string | undefined => {
+  const result = operations.reduce(applyOperation, caption || '');
+  // An image without a caption keeps having none unless an operation wrote something
+  return caption === undefined && result === '' ? undefined : result;
+};
+
+// Reads every sidecar first so the preview shows what the files really contain
+export const previewCaptionBatch = async (nodes: FileNode[], operations: CaptionOperation[]): Promise<CaptionChange[]> => {
+  await loadCaptions(nodes);
+  return nodes
+    .map(node => ({ node, before: node.caption, after: applyCaptionOperations(node.caption, operations) }))
+    .filter(change => change.before !== change.after);
+};
+
+// --- Word diff for the preview ---
+
+export interface DiffPart {
+  text: string;
+  type: 'same' | 'added' | 'removed';
+}
+
+// Words and the separators between them, so changes in punctuation show up too
+const tokenize = (text: string) => text.match(/[^\s,]+|[\s,]+/g) || [];
+
+// Longest common subsequence over tokens; captions are short enough for the quadratic table
+export const diffWords = (before: string, after: string): DiffPart[] => {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  const lengths = Array.from({ length: a.length + 1 }, () => new Uint16Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (text: string, type: DiffPart['type']) => {
+    const last = parts[parts.length - 1];
+    if (last && last.type === type) last.text += text;
+    else parts.push({ text, type });
+  };
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push(a[i], 'same');
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      push(a[i++], 'removed');
+    } else {
+      push(b[j++], 'added');
+    }
+  }
+  while (i < a.length) push(a[i++], 'removed');
+  while (j < b.length) push(b[j++], 'added');
+  return parts;
+};
@@ -0,0 +1,107 @@
+import { CaptionStats, FileNode, FolderCaptionStats } from '../types';
+import { compareNames } from './sorting';
+
+// CLIP's text encoder reads 77 tokens, start and end markers included
+export const DEFAULT_TOKEN_LIMIT = 77;
+
+const HISTOGRAM_BUCKETS = 8;
+
+// Comma-separated tags as booru-style captions use them
+export const splitCaptionTags = (caption: string) => caption.split(',').map(tag => tag.trim()).filter(Boolean);
+
+export const countWords = (caption: string) => caption.match(/\S+/g)?.length || 0;
+
+// Rough stand-in for CLIP's BPE tokenizer: short words are one token, long words one per six
+// letters, every punctuation mark one more, plus the start and end markers. It errs on the high
+// side, which is the safe side for a limit.
+export const estimateTokens = (caption: string) => {
+  let tokens = 2;
+  for (const piece of caption.match(/[\p{L}\p{N}]+|[^\s\p{L}\p{N}]/gu) || []) {
+    tokens += /^[\p{L}\p{N}]/u.test(piece) ? Math.max(1, Math.ceil(piece.length / 6)) : 1;
+  }
+  return tokens;
+};
+
+const hasSidecar = (node: FileNode) => node.captionFile !== undefined || node.caption !== undefined;
+
+// Buckets of equal width up to the limit, then one for everything above it
+const histogramBuckets = (limit: number) => {
+  const width = Math.max(1, Math.ceil(limit / HISTOGRAM_BUCKETS));
+  const buckets: CaptionStats['tokenHistogram'] = [];
+  for (let min = 0; min <= limit; min += width) buckets.push({ min, max: Math.min(limit, min + width - 1), count: 0 });
+  buckets.push({ min: limit + 1, max: Infinity, count: 0 });
+  return buckets;
+};
+
+export const computeCaptionStats = (nodes: FileNode[], tokenLimit: number): CaptionStats => {
+  const images = nodes.filter(node => node.type === 'file' && !node.isDeleted);
+  const tokenHistogram = histogramBuckets(tokenLimit);
+  // Keyed case-insensitively; the first spelling seen is the one shown
+  const tags = new Map<string, { tag: string; count: number }>();
+  let captioned = 0;
+  let empty = 0;
+  let overLimit = 0;
+  let tokenSum = 0;
+
+  images.forEach(node => {
+    const caption = node.caption?.trim();
+    if (!caption) {
+      if (hasSidecar(node)) empty++;
+      return;
+    }
+    captioned++;
+    const tokens = estimateTokens(caption);
+    tokenSum += tokens;
+    if (tokens > tokenLimit) overLimit++;
+    tokenHistogram.find(bucket => tokens <= bucket.max)!.count++;
+
+    // A tag repeated within one caption counts once
+    const seen = new Set<string>();
+    splitCaptionTags(caption).forEach(tag => {
+      const key = tag.toLowerCase();
+      if (seen.has(key)) return;
+      seen.add(key);
+      const entry = tags.get(key);
+      if (entry) entry.count++;
+      else tags.set(key, { tag, count: 1 });
+    });
+  });
+
+  const tagCounts = Array.from(tags.values()).sort((a, b) => b.count - a.count || compareNames(a.tag, b.tag));
+  return {
+    images: images.length,
+    captioned,
+    empty,
+    missing: images.length - captioned - empty,
+    overLimit,
+    averageTokens: captioned ? tokenSum / captioned : 0,
+    tagCounts,
+    singletonTags: tagCounts.filter(entry => entry.count === 1).map(entry => entry.tag),
+    tokenHistogram,
+  };
+};
+
+// One row per folder that directly holds images, in path order
+export const computeFolderCaptionStats = (nodes: FileNode[], tokenLimit: number): FolderCaptionStats[] => {
+  const byFolder = new Map<FileNode, FileNode[]>();
+  nodes.forEach(node => {
+    if (!node.parent || node.type !== 'file') return;
+    const list = byFolder.get(node.parent);
+    if (list) list.push(node);
+    else byFolder.set(node.parent, [node]);
+  });
+
+  return Array.from(byFolder, ([folder, images]) => {
+    const stats = computeCaptionStats(images, tokenLimit);
+    return {
+      folder,
+      images: stats.images,
+      captioned: stats.captioned,
+      missing: stats.missing + stats.empty,
+      overLimit: stats.overLimit,
+      averageTokens: stats.averageTokens,
+    };
+  })
+    .filter(row => row.images > 0)
+    .sort((a, b) => compareNames(a.folder.path, b.folder.path));
+};
@@ -0,0 +1,52 @@
+import { CaptionHistory, FileNode } from '../types';
+
+// Upper bound on undo steps kept per image
+const MAX_HISTORY = 100;
+
+const ensureHistory = (node: FileNode): CaptionHistory => {
+  if (!node.captionHistory) {
+    node.captionHistory = { saved: node.caption, undoStack: [], redoStack: [] };
+  }
+  return node.captionHistory;
+};
+
+// Records a new caption for the node. Returns false when nothing changed.
+export const editCaption = (node: FileNode, text: string | undefined): boolean => {
+  if (node.caption === text) return false;
+
+  const history = ensureHistory(node);
+  history.undoStack.push(node.caption);
+  if (history.undoStack.length > MAX_HISTORY) history.undoStack.shift();
+  history.redoStack = [];
+  node.caption = text;
+  return true;
+};
+
+export const canUndoCaption = (node: FileNode) => (node.captionHistory?.undoStack.length || 0) > 0;
+
+export const canRedoCaption = (node: FileNode) => (node.captionHistory?.redoStack.length || 0) > 0;
+
+export const undoCaption = (node: FileNode): boolean => {
+  const history = node.captionHistory;
+  if (!history || history.undoStack.length === 0) return false;
+  history.redoStack.push(node.caption);
+  node.caption = history.undoStack.pop();
+  return true;
+};
+
+export const redoCaption = (node: FileNode): boolean => {
+  const history = node.captionHistory;
+  if (!history || history.redoStack.length === 0) return false;
+  history.undoStack.push(node.caption);
+  node.caption = history.redoStack.pop();
+  return true;
+};
+
+// Dirty means the caption differs from what was last loaded or saved, not merely that it was touched
+export const isCaptionDirty = (node: FileNode) =>
+  !!node.captionHistory && node.caption !== node.captionHistory.saved;
+
+// Called once a caption has been persisted, so the current text becomes the new baseline
+export const markCaptionSaved = (node: FileNode) => {
+  if (node.captionHistory) node.captionHistory.saved = node.caption;
+};
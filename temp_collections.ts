@@ -0,0 +1,43 @@
+import { SmartCollection } from '../types';
+
+// Smart collections are saved searches. They are a preference of the user rather than part of a
+// workspace, so they live in localStorage and apply to every folder and snapshot.
+
+const STORAGE_KEY = 'instant-oss.smartCollections';
+
+export const DEFAULT_COLLECTIONS: SmartCollection[] = [
+  { id: 'top-rated', name: 'Rated 4+', query: 'rating:>=4 deleted:false' },
+  { id: 'unrated', name: 'Unrated', query: 'rating:0 deleted:false' },
+  { id: 'red', name: 'Red label', query: 'label:red' },
+  { id: 'deleted', name: 'Deleted', query: 'deleted:true' },
+];
+
+const isCollection = (value: unknown): value is SmartCollection =>
+  typeof value === 'object' && value !== null
+  && ['id', 'name', 'query'].every(key => typeof (value as Record<string, unknown>)[key] === 'string');
+
+export const loadCollections = (): SmartCollection[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored === null) return DEFAULT_COLLECTIONS;
+    const parsed = JSON.parse(stored);
+    return Array.isArray(parsed) ? parsed.filter(isCollection) : DEFAULT_COLLECTIONS;
+  } catch {
+    return DEFAULT_COLLECTIONS;
+  }
+};
+
+export const saveCollections = (collections: SmartCollection[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(collections));
+  } catch (e) {
+    // Private browsing or a full quota; the collections still work until the page is closed
+    console.warn('Could not save smart collections', e);
+  }
+};
+
+export const createCollection = (name: string, query: string): SmartCollection => ({
+  id: crypto.randomUUID(),
+  name: name.trim(),
+  query: query.trim(),
+});
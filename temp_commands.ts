@@ -0,0 +1,363 @@
+import { CaptionChange, ColorLabel, Command, CommandHistory, CullingAction, DuplicateGroup, FileNode, ImageTransform } from '../types';
+import { editCaption } from './captions';
+import { loadCaptions } from './fileUtils';
+import { pickBest } from './duplicates';
+import { flipTransform, rotateTransform, swapsAxes } from './orientation';
+import { isInside, relocateNode, uniqueChildName } from './tree';
+
+// Upper bound on bulk steps kept for undo
+const MAX_COMMANDS = 50;
+
+export const createCommandHistory = (): CommandHistory => ({ undoStack: [], redoStack: [] });
+
+export const runCommand = (history: CommandHistory, command: Command) => {
+  command.apply();
+  history.undoStack.push(command);
+  if (history.undoStack.length > MAX_COMMANDS) history.undoStack.shift();
+  history.redoStack = [];
+};
+
+export const undoCommand = (history: CommandHistory): Command | undefined => {
+  const command = history.undoStack.pop();
+  if (!command) return undefined;
+  command.revert();
+  history.redoStack.push(command);
+  return command;
+};
+
+export const redoCommand = (history: CommandHistory): Command | undefined => {
+  const command = history.redoStack.pop();
+  if (!command) return undefined;
+  command.apply();
+  history.undoStack.push(command);
+  return command;
+};
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+// --- Bulk commands ---
+// Each command captures the previous state of every node it touches, so revert restores
+// exactly what was there even if only some of the nodes actually changed.
+
+export const createDeleteCommand = (nodes: FileNode[], isDeleted: boolean): Command => {
+  const before = nodes.map(node => node.isDeleted || false);
+  return {
+    label: `${isDeleted ? 'Delete' : 'Restore'} ${plural(nodes.length, 'image')}`,
+    apply: () => nodes.forEach(node => { node.isDeleted = isDeleted; }),
+    revert: () => nodes.forEach((node, index) => { node.isDeleted = before[index]; }),
+  };
+};
+
+// Keeps the best copy of each group and soft-deletes the others
+export const createKeepBestCommand = (groups: DuplicateGroup[]): Command => {
+  const nodes = groups.flatMap(group => group.nodes);
+  const before = nodes.map(node => node.isDeleted || false);
+  const keep = new Set(groups.map(group => pickBest(group.nodes)));
+  return {
+    label: `Keep the best of ${plural(groups.length, 'duplicate group')}`,
+    apply: () => nodes.forEach(node => { node.isDeleted = !keep.has(node); }),
+    revert: () => nodes.forEach((node, index) => { node.isDeleted = before[index]; }),
+  };
+};
+
+// Keeps one of `nodes` and soft-deletes the rest, as picked in the compare view
+export const createKeepOneCommand = (keep: FileNode, nodes: FileNode[]): Command => {
+  const before = nodes.map(node => node.isDeleted || false);
+  return {
+    label: `Keep ${keep.name} over ${plural(nodes.length - 1, 'other')}`,
+    apply: () => nodes.forEach(node => { node.isDeleted = node !== keep; }),
+    revert: () => nodes.forEach((node, index) => { node.isDeleted = before[index]; }),
+  };
+};
+
+// --- Tree edits ---
+// Where a node sits: its parent (none once removed from the tree), its index there and its name.
+// Structural commands list where every node they touch goes; where it came from is recorded as
+// the command is applied.
+
+interface Placement {
+  parent?: FileNode;
+  index?: number; // Appended when omitted
+  name: string;
+}
+
+interface Relocation {
+  node: FileNode;
+  after: Placement;
+}
+
+const placementOf = (node: FileNode): Placement => ({
+  parent: node.parent,
+  index: node.parent?.children.indexOf(node),
+  name: node.name,
+});
+
+const place = (node: FileNode, placement: Placement) => {
+  if (node.parent) node.parent.children = node.parent.children.filter(child => child !== node);
+  if (!placement.parent) {
+    node.parent = undefined;
+    return;
+  }
+  placement.parent.children.splice(placement.index ?? placement.parent.children.length, 0, node);
+  relocateNode(node, placement.parent, placement.name);
+};
+
+const createRelocationCommand = (label: string, relocations: Relocation[]): Command => {
+  let before: Placement[] = [];
+  return {
+    label,
+    apply: () => {
+      before = relocations.map(({ node, after }) => {
+        const placement = placementOf(node);
+        place(node, after);
+        return placement;
+      });
+    },
+    // In reverse, so every original index is valid again by the time it is reinserted
+    revert: () => {
+      for (let i = relocations.length - 1; i >= 0; i--) place(relocations[i].node, before[i]);
+    },
+  };
+};
+
+// Moves into `target` with names that do not clash with what is already there
+const planMoves = (nodes: FileNode[], target: FileNode): Relocation[] => {
+  const taken = new Set<string>();
+  return nodes.map(node => ({
+    node,
+    after: { parent: target, name: uniqueChildName(target, node.name, taken, node) },
+  }));
+};
+
+const findChildFolder = (folder: FileNode, name: string) =>
+  folder.children.find(child => child.type === 'folder' && child.name.toLowerCase() === name.toLowerCase());
+
+// Moves everything in `source` into `target`. A sub-folder that `target` already has a folder of
+// the same name for is merged into that one the same way, so only clashing files get renamed.
+const planMerge = (source: FileNode, target: FileNode): Relocation[] => {
+  const relocations: Relocation[] = [];
+  const moved: FileNode[] = [];
+  source.children.forEach(child => {
+    const match = child.type === 'folder' ? findChildFolder(target, child.name) : undefined;
+    if (match) relocations.push(...planMerge(child, match));
+    else moved.push(child);
+  });
+  // The emptied source folder is removed last
+  return [...relocations, ...planMoves(moved, target), { node: source, after: { name: source.name } }];
+};
+
+const describeNodes = (nodes: FileNode[]) => {
+  const folders = nodes.filter(node => node.type === 'folder').length;
+  if (folders === 0) return plural(nodes.length, 'image');
+  if (folders === nodes.length) return plural(folders, 'folder');
+  return plural(nodes.length, 'item');
+};
+
+// Moves images and folders inside the workspace tree; a moved folder takes its subtree along.
+// Files keep their directoryHandle and diskPath, so for read/write folders the file on disk stays where it is.
+export const createMoveCommand = (nodes: FileNode[], target: FileNode): Command => {
+  const picked = new Set(nodes);
+  const movable = nodes.filter(node =>
+    node.parent && node.parent !== target && !isInside(node, target)
+    // Anything inside another moved folder travels with it
+    && ![...picked].some(other => other !== node && other.type === 'folder' && isInside(other, node))
+  );
+  return createRelocationCommand(`Move ${describeNodes(movable)} to ${target.name}`, planMoves(movable, target));
+};
+
+export const createFolderCommand = (parent: FileNode, name: string): Command => {
+  const folder: FileNode = { id: '', name: '', path: '', type: 'folder', children: [] };
+  return createRelocationCommand(`Create folder ${name}`, [{
+    node: folder,
+    after: { parent, name: uniqueChildName(parent, name) },
+  }]);
+};
+
+export const createRenameCommand = (node: FileNode, name: string): Command => {
+  return createRelocationCommand(`Rename ${node.name} to ${name}`, [{
+    node,
+    after: { ...placementOf(node), name: uniqueChildName(node.parent!, name, new Set(), node) },
+  }]);
+};
+
+// Combines `source` into `target`, same-named sub-folders included, then removes the emptied source
+export const createMergeCommand = (source: FileNode, target: FileNode): Command =>
+  createRelocationCommand(`Merge ${source.name} into ${target.name}`, planMerge(source, target));
+
+const collectImages = (folder: FileNode): FileNode[] =>
+  folder.children.flatMap(child => (child.type === 'file' ? [child] : collectImages(child)));
+
+// An empty folder is removed; one with images soft-deletes them, like deleting them one by one,
+// so exports and "Apply changes" treat them as any other deleted image
+export const createDeleteFolderCommand = (folder: FileNode): Command => {
+  const images = collectImages(folder);
+  if (images.length > 0) {
+    const command = createDeleteCommand(images, true);
+    return { ...command, label: `Delete ${folder.name} (${plural(images.length, 'image')})` };
+  }
+  return createRelocationCommand(`Delete folder ${folder.name}`, [
+    { node: folder, after: { name: folder.name } },
+  ]);
+};
+
+export type TransformAction = 'rotate-left' | 'rotate-right' | 'flip';
+
+const TRANSFORM_LABELS: Record<TransformAction, string> = {
+  'rotate-left': 'Rotate',
+  'rotate-right': 'Rotate',
+  flip: 'Flip',
+};
+
+export const createTransformCommand = (nodes: FileNode[], action: TransformAction): Command => {
+  const before = nodes.map(node => node.transform);
+  const next = (transform: ImageTransform | undefined) =>
+    action === 'flip' ? flipTransform(transform) : rotateTransform(transform, action === 'rotate-left' ? -90 : 90);
+  const after = before.map(next);
+  // Dimensions are kept as displayed, so a quarter turn swaps them both ways
+  const setTransform = (node: FileNode, transform: ImageTransform | undefined) => {
+    if (swapsAxes(node.transform) !== swapsAxes(transform) && node.width !== undefined) {
+      [node.width, node.height] = [node.height, node.width];
+    }
+    node.transform = transform;
+  };
+  return {
+    label: `${TRANSFORM_LABELS[action]} ${plural(nodes.length, 'image')}`,
+    apply: () => nodes.forEach((node, index) => setTransform(node, after[index])),
+    revert: () => nodes.forEach((node, index) => setTransform(node, before[index])),
+  };
+};
+
+export const parseTags = (input: string) =>
+  Array.from(new Set(input.split(',').map(tag => tag.trim()).filter(Boolean)));
+
+export const createTagCommand = (nodes: FileNode[], tags: string[]): Command => {
+  const before = nodes.map(node => node.tags);
+  return {
+    label: `Tag ${plural(nodes.length, 'image')} with ${tags.join(', ')}`,
+    apply: () => nodes.forEach(node => {
+      node.tags = Array.from(new Set([...(node.tags || []), ...tags]));
+    }),
+    revert: () => nodes.forEach((node, index) => { node.tags = before[index]; }),
+  };
+};
+
+export const createUntagCommand = (nodes: FileNode[], tags: string[]): Command => {
+  const before = nodes.map(node => node.tags);
+  const removed = new Set(tags);
+  return {
+    label: `Remove ${tags.join(', ')} from ${plural(nodes.length, 'image')}`,
+    apply: () => nodes.forEach(node => {
+      const remaining = (node.tags || []).filter(tag => !removed.has(tag));
+      node.tags = remaining.length > 0 ? remaining : undefined;
+    }),
+    revert: () => nodes.forEach((node, index) => { node.tags = before[index]; }),
+  };
+};
+
+// Undefined clears the rating
+export const createRatingCommand = (nodes: FileNode[], rating: number | undefined): Command => {
+  const before = nodes.map(node => node.rating);
+  return {
+    label: rating ? `Rate ${plural(nodes.length, 'image')} ${plural(rating, 'star')}` : `Clear the rating of ${plural(nodes.length, 'image')}`,
+    apply: () => nodes.forEach(node => { node.rating = rating; }),
+    revert: () => nodes.forEach((node, index) => { node.rating = before[index]; }),
+  };
+};
+
+// Undefined clears the label
+export const createColorLabelCommand = (nodes: FileNode[], colorLabel: ColorLabel | undefined): Command => {
+  const before = nodes.map(node => node.colorLabel);
+  return {
+    label: colorLabel ? `Label ${plural(nodes.length, 'image')} ${colorLabel}` : `Clear the label of ${plural(nodes.length, 'image')}`,
+    apply: () => nodes.forEach(node => { node.colorLabel = colorLabel; }),
+    revert: () => nodes.forEach((node, index) => { node.colorLabel = before[index]; }),
+  };
+};
+
+// Culling decisions. Keeping restores a soft-deleted image and rejecting deletes it; rating keeps
+// the image, tagging leaves an earlier verdict alone. Each one marks the image as reviewed.
+export type ReviewChange = Extract<CullingAction, { kind: 'keep' | 'reject' | 'rate' | 'tag' }>;
+
+export const createReviewCommand = (node: FileNode, change: ReviewChange): Command => {
+  const before = { review: node.review, isDeleted: node.isDeleted, rating: node.rating, tags: node.tags };
+  const labels: Record<ReviewChange['kind'], string> = {
+    keep: `Keep ${node.name}`,
+    reject: `Reject ${node.name}`,
+    rate: `Rate ${node.name}${change.kind === 'rate' ? ` ${plural(change.rating, 'star')}` : ''}`,
+    tag: `Tag ${node.name}${change.kind === 'tag' ? ` with ${change.tag}` : ''}`,
+  };
+  return {
+    label: labels[change.kind],
+    apply: () => {
+      switch (change.kind) {
+        case 'keep':
+        case 'rate':
+          node.review = 'keep';
+          node.isDeleted = false;
+          if (change.kind === 'rate') node.rating = change.rating;
+          break;
+        case 'reject':
+          node.review = 'reject';
+          node.isDeleted = true;
+          break;
+        case 'tag':
+          node.review = before.review || 'keep';
+          node.tags = Array.from(new Set([...(before.tags || []), change.tag]));
+          break;
+      }
+    },
+    revert: () => Object.assign(node, before),
+  };
+};
+
+// Starts a review over; verdicts already acted on (deletes, ratings, tags) stay
+export const createResetReviewCommand = (nodes: FileNode[]): Command => {
+  const before = nodes.map(node => node.review);
+  return {
+    label: `Reset the review of ${plural(nodes.length, 'image')}`,
+    apply: () => nodes.forEach(node => { node.review = undefined; }),
+    revert: () => nodes.forEach((node, index) => { node.review = before[index]; }),
+  };
+};
+
+export type CaptionBulkMode = 'append' | 'prepend' | 'remove';
+
+const CAPTION_SEPARATOR = ', ';
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const transformCaption = (caption: string | undefined, text: string, mode: CaptionBulkMode): string | undefined => {
+  const current = caption || '';
+  if (mode === 'append') return current ? `${current}${CAPTION_SEPARATOR}${text}` : text;
+  if (mode === 'prepend') return current ? `${text}${CAPTION_SEPARATOR}${current}` : text;
+  if (!current.includes(text)) return caption;
+  // Remove every occurrence, then tidy the separators and whitespace it leaves behind
+  return current
+    .replace(new RegExp(escapeRegExp(text), 'g'), '')
+    .replace(/\s*,\s*(,\s*)+/g, CAPTION_SEPARATOR)
+    .replace(/^\s*,\s*|\s*,\s*$/g, '')
+    .replace(/ {2,}/g, ' ')
+    .trim();
+};
+
+// Captions are read from their sidecars first so the edit applies to the real text.
+// Changes go through editCaption, so per-image undo and the dirty indicator keep working.
+export const createCaptionCommand = async (nodes: FileNode[], text: string, mode: CaptionBulkMode): Promise<Command> => {
+  await loadCaptions(nodes);
+  const before = nodes.map(node => node.caption);
+  const after = nodes.map(node => transformCaption(node.caption, text, mode));
+  const verb = mode === 'remove' ? 'Remove' : 'Add';
+
+  return {
+    label: `${verb} "${text}" ${mode === 'remove' ? 'from' : 'to'} ${plural(nodes.length, 'caption')}`,
+    apply: () => nodes.forEach((node, index) => editCaption(node, after[index])),
+    revert: () => nodes.forEach((node, index) => editCaption(node, before[index])),
+  };
+};
+
+// Applies a previewed batch edit; only the captions that change are touched
+export const createCaptionBatchCommand = (changes: CaptionChange[], description: string): Command => ({
+  label: `${description} in ${plural(changes.length, 'caption')}`,
+  apply: () => changes.forEach(change => editCaption(change.node, change.after)),
+  revert: () => changes.forEach(change => editCaption(change.node, change.before)),
+});
@@ -0,0 +1,107 @@
+import { CullingAction, CullingBinding, FileNode } from '../types';
+import { MAX_RATING } from './ratings';
+
+// Key bindings for the culling mode. Like smart collections they are a preference of the user,
+// so they live in localStorage rather than in a workspace.
+
+const STORAGE_KEY = 'instant-oss.cullingKeys';
+
+// Lightroom's pick and reject keys, digits for stars
+export const DEFAULT_CULLING_BINDINGS: CullingBinding[] = [
+  { key: 'p', action: { kind: 'keep' } },
+  { key: 'x', action: { kind: 'reject' } },
+  ...Array.from({ length: MAX_RATING }, (_, i): CullingBinding => ({ key: String(i + 1), action: { kind: 'rate', rating: i + 1 } })),
+  { key: 'c', action: { kind: 'tag', tag: 'needs-caption' } },
+  { key: 'ArrowRight', action: { kind: 'skip' } },
+  { key: 'ArrowLeft', action: { kind: 'back' } },
+  { key: 'Backspace', action: { kind: 'undo' } },
+];
+
+// Letters are matched regardless of Shift, so Caps Lock does not get in the way
+export const cullingKeyName = (e: KeyboardEvent) => {
+  if (e.key === ' ') return 'Space';
+  return e.key.length === 1 ? e.key.toLowerCase() : e.key;
+};
+
+const KEY_LABELS: Record<string, string> = {
+  ArrowRight: '→',
+  ArrowLeft: '←',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  Backspace: '⌫',
+  Enter: '↵',
+};
+
+export const formatKey = (key: string) => KEY_LABELS[key] || (key.length === 1 ? key.toUpperCase() : key);
+
+export const describeCullingAction = (action: CullingAction) => {
+  switch (action.kind) {
+    case 'keep': return 'Keep';
+    case 'reject': return 'Reject';
+    case 'rate': return `${action.rating} star${action.rating === 1 ? '' : 's'}`;
+    case 'tag': return `Tag ${action.tag}`;
+    case 'skip': return 'Next';
+    case 'back': return 'Previous';
+    case 'undo': return 'Undo';
+  }
+};
+
+// Escape always closes and modified keys stay with the browser, so neither can be bound
+export const isBindableKey = (e: KeyboardEvent) =>
+  e.key !== 'Escape' && e.key !== 'Tab' && !e.ctrlKey && !e.metaKey && !e.altKey && !['Shift', 'Control', 'Alt', 'Meta'].includes(e.key);
+
+export const findCullingAction = (e: KeyboardEvent, bindings: CullingBinding[]): CullingAction | null => {
+  if (!isBindableKey(e)) return null;
+  const key = cullingKeyName(e);
+  return bindings.find(binding => binding.key === key)?.action || null;
+};
+
+// A key does one thing: binding it here unbinds it everywhere else
+export const rebind = (bindings: CullingBinding[], index: number, key: string): CullingBinding[] =>
+  bindings.map((binding, i) => {
+    if (i === index) return { ...binding, key };
+    return binding.key === key ? { ...binding, key: '' } : binding;
+  });
+
+const isAction = (value: unknown): value is CullingAction => {
+  if (typeof value !== 'object' || value === null) return false;
+  const action = value as Record<string, unknown>;
+  switch (action.kind) {
+    case 'keep': case 'reject': case 'skip': case 'back': case 'undo': return true;
+    case 'rate': return typeof action.rating === 'number' && action.rating >= 1 && action.rating <= MAX_RATING;
+    case 'tag': return typeof action.tag === 'string' && action.tag.trim() !== '';
+    default: return false;
+  }
+};
+
+const isBinding = (value: unknown): value is CullingBinding =>
+  typeof value === 'object' && value !== null
+  && typeof (value as Record<string, unknown>).key === 'string' && isAction((value as Record<string, unknown>).action);
+
+export const loadCullingBindings = (): CullingBinding[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored === null) return DEFAULT_CULLING_BINDINGS;
+    const parsed = JSON.parse(stored);
+    return Array.isArray(parsed) ? parsed.filter(isBinding) : DEFAULT_CULLING_BINDINGS;
+  } catch {
+    return DEFAULT_CULLING_BINDINGS;
+  }
+};
+
+export const saveCullingBindings = (bindings: CullingBinding[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(bindings));
+  } catch (e) {
+    console.warn('Could not save culling keys', e);
+  }
+};
+
+// The next image after `from` still to review, wrapping around; -1 once all are reviewed
+export const nextUnreviewed = (nodes: FileNode[], from: number) => {
+  for (let step = 1; step <= nodes.length; step++) {
+    const index = (from + step) % nodes.length;
+    if (!nodes[index].review) return index;
+  }
+  return -1;
+};
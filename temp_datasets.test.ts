@@ -0,0 +1,161 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { FileNode, SourceFile } from '../types';
+import { DatasetOptions, exportDatasetArchive, getDatasetExporter } from './datasets';
+import { getExportProfile } from './exportProfiles';
+import { parseFilesToTree } from './fileUtils';
+import { readZip, readZipEntry, readZipText, ZipArchive } from './zip';
+
+// Originals are copied without decoding, so the archive can be compared byte for byte
+const ORIGINALS = getExportProfile('originals');
+
+const CAPTION = 'a cat, sitting "politely"\non a mat';
+
+// Smallest PNG the header reader accepts: signature, IHDR and IEND
+const png = (width: number, height: number) => {
+  const bytes = new Uint8Array(45);
+  const view = new DataView(bytes.buffer);
+  bytes.set([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+  view.setUint32(8, 13);
+  bytes.set(new TextEncoder().encode('IHDR'), 12);
+  view.setUint32(16, width);
+  view.setUint32(20, height);
+  bytes[24] = 8; // Bit depth
+  bytes[25] = 6; // RGBA
+  bytes.set(new TextEncoder().encode('IEND'), 37);
+  return bytes;
+};
+
+const source = (path: string, data: BlobPart, type: string): SourceFile => ({
+  path,
+  file: new File([data], path.substring(path.lastIndexOf('/') + 1), { type }),
+});
+
+// Two folders with a clashing basename, and a caption that needs quoting in CSV
+const createWorkspace = () => {
+  const { root, allImages } = parseFilesToTree([
+    source('shoot/cats/photo.png', png(640, 480), 'image/png'),
+    source('shoot/cats/photo.txt', CAPTION, 'text/plain'),
+    source('shoot/cats/plain.png', png(300, 200), 'image/png'),
+    source('shoot/dogs/photo.png', png(800, 600), 'image/png'),
+    source('shoot/dogs/photo.txt', 'a dog', 'text/plain'),
+  ]);
+  allImages[0].tags = ['cat', 'indoor'];
+  return { root, allImages };
+};
+
+const exportArchive = async (root: FileNode, exporterId: string, options: DatasetOptions = {}) => {
+  const exporter = getDatasetExporter(exporterId)!;
+  const blob = await exportDatasetArchive(root, exporter, { ...exporter.defaults, ...options }, { profile: ORIGINALS });
+  return readZip(blob);
+};
+
+const entryBytes = async (archive: ZipArchive, name: string) =>
+  new Uint8Array(await (await readZipEntry(archive, archive.entries.get(name)!)).arrayBuffer());
+
+const sha256 = async (bytes: Uint8Array) =>
+  Array.from(new Uint8Array(await crypto.subtle.digest('SHA-256', bytes)), byte => byte.toString(16).padStart(2, '0')).join('');
+
+describe('dataset exporters', () => {
+  beforeEach(() => {
+    // A browser without OPFS: nothing is checkpointed
+    vi.stubGlobal('navigator', {});
+    return () => vi.unstubAllGlobals();
+  });
+
+  describe('imagefolder', () => {
+    it('lists every image in metadata.jsonl by its path inside the split', async () => {
+      const { root, allImages } = createWorkspace();
+      const archive = await exportArchive(root, 'imagefolder');
+
+      const rows = (await readZipText(archive, 'train/metadata.jsonl'))!.trim().split('\n').map(line => JSON.parse(line));
+      expect(rows).toEqual([
+        { file_name: 'shoot/cats/photo.png', text: CAPTION, tags: ['cat', 'indoor'] },
+        { file_name: 'shoot/cats/plain.png', text: '', tags: [] },
+        { file_name: 'shoot/dogs/photo.png', text: 'a dog', tags: [] },
+      ]);
+      for (const row of rows) expect(archive.entries.has(`train/${row.file_name}`)).toBe(true);
+      expect(archive.entries.size).toBe(rows.length + 1);
+
+      const original = new Uint8Array(await allImages[0].file!.arrayBuffer());
+      expect(await entryBytes(archive, 'train/shoot/cats/photo.png')).toEqual(original);
+    });
+
+    it('uses the configured split and caption column', async () => {
+      const { root } = createWorkspace();
+      const archive = await exportArchive(root, 'imagefolder', { split: 'validation', captionColumn: 'caption', includeTags: false });
+
+      const first = JSON.parse((await readZipText(archive, 'validation/metadata.jsonl'))!.split('\n')[0]);
+      expect(first).toEqual({ file_name: 'shoot/cats/photo.png', caption: CAPTION });
+    });
+  });
+
+  describe('kohya', () => {
+    it('writes a caption sidecar next to every image, one concept per folder', async () => {
+      const { root } = createWorkspace();
+      const archive = await exportArchive(root, 'kohya', { repeats: 5 });
+
+      expect([...archive.entries.keys()].sort()).toEqual([
+        'img/5_cats/photo.png',
+        'img/5_cats/photo.txt',
+        'img/5_cats/plain.png',
+        'img/5_cats/plain.txt',
+        'img/5_dogs/photo.png',
+        'img/5_dogs/photo.txt',
+      ]);
+      expect(await readZipText(archive, 'img/5_cats/photo.txt')).toBe(CAPTION);
+      expect(await readZipText(archive, 'img/5_cats/plain.txt')).toBe('');
+    });
+
+    it('numbers clashing basenames within one concept', async () => {
+      const { root } = createWorkspace();
+      const archive = await exportArchive(root, 'kohya', { concept: 'pets', captionExtension: 'caption', tagsInCaption: true });
+
+      const images = [...archive.entries.keys()].filter(name => name.endsWith('.png')).sort();
+      expect(images).toEqual(['img/10_pets/photo.png', 'img/10_pets/photo_1.png', 'img/10_pets/plain.png']);
+      for (const image of images) {
+        expect(archive.entries.has(image.replace(/\.png$/, '.caption'))).toBe(true);
+      }
+      expect(await readZipText(archive, 'img/10_pets/photo.caption')).toBe(`cat, indoor, ${CAPTION}`);
+      expect(await readZipText(archive, 'img/10_pets/photo_1.caption')).toBe('a dog');
+    });
+  });
+
+  describe('manifest', () => {
+    it('quotes captions with commas, quotes and newlines in CSV', async () => {
+      const { root } = createWorkspace();
+      const archive = await exportArchive(root, 'manifest');
+
+      const csv = (await readZipText(archive, 'manifest.csv'))!;
+      const lines = csv.split('\r\n');
+      expect(lines[0]).toBe('path,caption,width,height,sha256,tags');
+      const photoSha = await sha256(await entryBytes(archive, 'images/shoot/cats/photo.png'));
+      expect(lines[1]).toBe(`images/shoot/cats/photo.png,"a cat, sitting ""politely""\non a mat",640,480,${photoSha},"cat, indoor"`);
+      expect(lines.at(-1)).toBe('');
+    });
+
+    it('points every JSONL row at an image of the stated size and hash', async () => {
+      const { root } = createWorkspace();
+      const archive = await exportArchive(root, 'manifest', { format: 'jsonl' });
+
+      const rows = (await readZipText(archive, 'manifest.jsonl'))!.trim().split('\n').map(line => JSON.parse(line));
+      expect(rows.map(row => [row.path, row.width, row.height])).toEqual([
+        ['images/shoot/cats/photo.png', 640, 480],
+        ['images/shoot/cats/plain.png', 300, 200],
+        ['images/shoot/dogs/photo.png', 800, 600],
+      ]);
+      for (const row of rows) {
+        expect(row.sha256).toBe(await sha256(await entryBytes(archive, row.path)));
+      }
+    });
+  });
+
+  it('leaves deleted images out', async () => {
+    const { root, allImages } = createWorkspace();
+    allImages[0].isDeleted = true;
+    const archive = await exportArchive(root, 'kohya');
+
+    expect(archive.entries.has('img/10_cats/photo.png')).toBe(false);
+    expect(archive.entries.has('img/10_cats/photo.txt')).toBe(false);
+    expect(archive.entries.has('img/10_cats/plain.png')).toBe(true);
+  });
+});
@@ -0,0 +1,263 @@
+import { ExportProfile, FileNode } from '../types';
+import { collectExportImages, ExportFilter, loadCaption, loadDimensions, splitExtension } from './fileUtils';
+import { createThumbnailPool, isAbortError, openExportCache } from './exportPool';
+import { DEFAULT_EXPORT_PROFILE, EXTENSIONS_BY_TYPE, scaledSize } from './exportProfiles';
+import { createZipWriter } from './zip';
+
+// Training-set exporters. Each one only decides where the images go and which text files
+// accompany them; reading captions, encoding and zipping are shared.
+
+export type DatasetOptionValue = string | number | boolean;
+export type DatasetOptions = Record<string, DatasetOptionValue>;
+
+// Described rather than hard-coded so the export dialog can render any exporter's settings
+export type DatasetOptionField =
+  | { key: string; label: string; type: 'text'; placeholder?: string }
+  | { key: string; label: string; type: 'number'; min: number; max: number }
+  | { key: string; label: string; type: 'boolean' }
+  | { key: string; label: string; type: 'select'; choices: { value: string; label: string }[] };
+
+// One exported image as the exporters see it
+export interface DatasetItem {
+  node: FileNode;
+  caption: string; // Empty when the image has no caption
+  extension: string; // Of the written image, which may differ from the source
+  width?: number; // Of the written image, when known
+  height?: number;
+  sha256?: string; // Of the written image; only computed for exporters that ask for it
+}
+
+export interface DatasetFile {
+  name: string;
+  data: string;
+}
+
+export interface DatasetLayout {
+  images: string[]; // Archive path for each item
+  files: DatasetFile[];
+}
+
+export interface DatasetExporter {
+  id: string;
+  name: string;
+  description: string;
+  fields: DatasetOptionField[];
+  defaults: DatasetOptions;
+  needs?: { dimensions?: boolean; hashes?: boolean };
+  layout: (items: DatasetItem[], options: DatasetOptions) => DatasetLayout;
+}
+
+// --- Helpers shared by the layouts ---
+
+// Archive paths are unique per export. Basenames are compared without the extension, since
+// a.png and a.jpg may both become a.jpg and would share a caption sidecar anyway.
+const createPathAllocator = () => {
+  const used = new Set<string>();
+  return (directory: string, basename: string, extension: string) => {
+    const join = (name: string) => (directory ? `${directory}/${name}` : name);
+    let candidate = join(basename);
+    for (let i = 1; used.has(candidate.toLowerCase()); i++) candidate = join(`${basename}_${i}`);
+    used.add(candidate.toLowerCase());
+    return `${candidate}.${extension}`;
+  };
+};
+
+const splitPath = (path: string): [string, string] => {
+  const lastSlash = path.lastIndexOf('/');
+  return lastSlash === -1 ? ['', path] : [path.substring(0, lastSlash), path.substring(lastSlash + 1)];
+};
+
+const withTags = (item: DatasetItem) => {
+  const tags = item.node.tags?.join(', ');
+  return tags && item.caption ? `${tags}, ${item.caption}` : tags || item.caption;
+};
+
+const csvField = (value: string | number | undefined) => {
+  const text = value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const jsonLines = (rows: object[]) => rows.map(row => JSON.stringify(row)).join('\n') + (rows.length ? '\n' : '');
+
+// --- Exporters ---
+
+// Hugging Face `imagefolder`: images under the split directory, captions in metadata.jsonl
+const imageFolderExporter: DatasetExporter = {
+  id: 'imagefolder',
+  name: 'Hugging Face imagefolder',
+  description: 'Images in a split folder with metadata.jsonl, loadable with load_dataset("imagefolder")',
+  fields: [
+    { key: 'split', label: 'Split', type: 'text', placeholder: 'train' },
+    { key: 'captionColumn', label: 'Caption column', type: 'text', placeholder: 'text' },
+    { key: 'includeTags', label: 'Tags column', type: 'boolean' },
+  ],
+  defaults: { split: 'train', captionColumn: 'text', includeTags: true },
+  layout: (items, options) => {
+    const split = String(options.split).trim() || 'train';
+    const captionColumn = String(options.captionColumn).trim() || 'text';
+    const allocate = createPathAllocator();
+    const rows: object[] = [];
+    const images = items.map(item => {
+      const [directory, name] = splitPath(item.node.path);
+      const fileName = allocate(directory, splitExtension(name)[0], item.extension);
+      rows.push({
+        file_name: fileName,
+        [captionColumn]: item.caption,
+        ...(options.includeTags ? { tags: item.node.tags || [] } : {}),
+      });
+      return `${split}/${fileName}`;
+    });
+    return { images, files: [{ name: `${split}/metadata.jsonl`, data: jsonLines(rows) }] };
+  },
+};
+
+// kohya-ss trainers: `<repeats>_<concept>/` folders with a caption sidecar next to every image
+const kohyaExporter: DatasetExporter = {
+  id: 'kohya',
+  name: 'kohya-ss folders',
+  description: 'One repeats_concept folder per source folder, caption sidecars next to each image',
+  fields: [
+    { key: 'repeats', label: 'Repeats', type: 'number', min: 1, max: 1000 },
+    { key: 'concept', label: 'Concept', type: 'text', placeholder: 'Folder name' },
+    { key: 'captionExtension', label: 'Caption files', type: 'select', choices: [{ value: 'txt', label: '.txt' }, { value: 'caption', label: '.caption' }] },
+    { key: 'tagsInCaption', label: 'Prepend tags', type: 'boolean' },
+  ],
+  defaults: { repeats: 10, concept: '', captionExtension: 'txt', tagsInCaption: false },
+  layout: (items, options) => {
+    const repeats = Math.max(1, Math.floor(Number(options.repeats)) || 1);
+    const allocate = createPathAllocator();
+    const files: DatasetFile[] = [];
+    const images = items.map(item => {
+      // Without a fixed concept every source folder becomes a concept of its own
+      const concept = String(options.concept).trim() || item.node.parent?.name || 'images';
+      const [, name] = splitPath(item.node.path);
+      const path = allocate(`img/${repeats}_${concept.replace(/[\\/]/g, '_')}`, splitExtension(name)[0], item.extension);
+      const caption = options.tagsInCaption ? withTags(item) : item.caption;
+      files.push({ name: `${splitExtension(path)[0]}.${options.captionExtension}`, data: caption });
+      return path;
+    });
+    return { images, files };
+  },
+};
+
+const MANIFEST_COLUMNS = ['path', 'caption', 'width', 'height', 'sha256', 'tags'] as const;
+
+// Flat table for custom loaders; the images keep their folder structure
+const manifestExporter: DatasetExporter = {
+  id: 'manifest',
+  name: 'CSV / JSONL manifest',
+  description: 'One row per image with path, caption, size and SHA-256',
+  fields: [
+    { key: 'format', label: 'Manifest', type: 'select', choices: [{ value: 'csv', label: 'CSV' }, { value: 'jsonl', label: 'JSONL' }] },
+  ],
+  defaults: { format: 'csv' },
+  needs: { dimensions: true, hashes: true },
+  layout: (items, options) => {
+    const allocate = createPathAllocator();
+    const rows = items.map(item => {
+      const [directory, name] = splitPath(item.node.path);
+      return {
+        path: allocate(directory ? `images/${directory}` : 'images', splitExtension(name)[0], item.extension),
+        caption: item.caption,
+        width: item.width,
+        height: item.height,
+        sha256: item.sha256,
+        tags: item.node.tags?.join(', ') || '',
+      };
+    });
+
+    const data = options.format === 'jsonl'
+      ? jsonLines(rows)
+      : [MANIFEST_COLUMNS.join(','), ...rows.map(row => MANIFEST_COLUMNS.map(column => csvField(row[column])).join(','))].join('\r\n') + '\r\n';
+    return {
+      images: rows.map(row => row.path),
+      files: [{ name: `manifest.${options.format}`, data }],
+    };
+  },
+};
+
+export const DATASET_EXPORTERS: DatasetExporter[] = [imageFolderExporter, kohyaExporter, manifestExporter];
+
+export const getDatasetExporter = (id: string) => DATASET_EXPORTERS.find(exporter => exporter.id === id);
+
+// --- Export ---
+
+export interface DatasetExportOptions {
+  filter?: ExportFilter; // Deleted images are always left out of datasets
+  profile?: ExportProfile;
+  concurrency?: number;
+  signal?: AbortSignal;
+  onProgress?: () => void;
+}
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+
+// Encodes every image with the profile, lets the exporter lay them out and zips the result.
+// Encodes go through the same checkpoint cache as snapshots, so an interrupted export resumes.
+export const exportDatasetArchive = async (
+  root: FileNode,
+  exporter: DatasetExporter,
+  options: DatasetOptions,
+  exportOptions: DatasetExportOptions = {}
+): Promise<Blob> => {
+  const { filter, profile = DEFAULT_EXPORT_PROFILE, concurrency, signal, onProgress } = exportOptions;
+  const nodes = collectExportImages(root, { include: filter?.include, deleted: 'omit' });
+  if (exporter.needs?.dimensions) await loadDimensions(nodes, signal);
+
+  const pool = createThumbnailPool(concurrency);
+  const cache = await openExportCache();
+  const cancel = () => pool.terminate();
+  signal?.addEventListener('abort', cancel);
+
+  try {
+    const results = await Promise.all(nodes.map(async node => {
+      const caption = ((await loadCaption(node).catch(() => undefined)) || '').trim();
+      try {
+        signal?.throwIfAborted();
+        let image = cache ? await cache.get(node, profile) : null;
+        if (!image) {
+          image = await pool.encode({ file: node.file!, profile, transform: node.transform });
+          await cache?.put(node, profile, image).catch(e => console.warn('Failed to checkpoint', node.name, e));
+        }
+        signal?.throwIfAborted();
+
+        const size = node.width !== undefined && node.height !== undefined
+          ? (profile.format === 'original' ? { width: node.width, height: node.height } : scaledSize(node.width, node.height, profile))
+          : undefined;
+        const item: DatasetItem = {
+          node,
+          caption,
+          extension: EXTENSIONS_BY_TYPE[image.type] || splitExtension(node.name)[1] || 'bin',
+          width: size?.width,
+          height: size?.height,
+        };
+        if (exporter.needs?.hashes) item.sha256 = toHex(await crypto.subtle.digest('SHA-256', await image.arrayBuffer()));
+        return { item, image };
+      } catch (e) {
+        // Like snapshots, an image that cannot be encoded is left out instead of failing the export
+        if (signal?.aborted || isAbortError(e)) throw e;
+        console.error('Error processing file', node.name, e);
+        return null;
+      } finally {
+        onProgress?.();
+      }
+    }));
+    const encoded = results.filter((entry): entry is NonNullable<typeof entry> => entry !== null);
+
+    const layout = exporter.layout(encoded.map(entry => entry.item), options);
+    const archive = createZipWriter();
+    for (let i = 0; i < encoded.length; i++) {
+      await archive.add(layout.images[i], encoded[i].image);
+    }
+    for (const file of layout.files) {
+      await archive.add(file.name, new Blob([file.data], { type: 'text/plain' }));
+    }
+    const blob = archive.finish();
+    await cache?.clear().catch(e => console.warn('Failed to clear export checkpoints', e));
+    return blob;
+  } finally {
+    signal?.removeEventListener('abort', cancel);
+    pool.terminate();
+  }
+};
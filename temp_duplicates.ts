@@ -0,0 +1,140 @@
+import { DuplicateGroup, FileNode } from '../types';
+import { compareNames } from './sorting';
+
+// Largest Hamming distance between difference hashes the threshold slider offers
+export const MAX_SIMILARITY_THRESHOLD = 16;
+export const DEFAULT_SIMILARITY_THRESHOLD = 6;
+
+// Bits set in a 32-bit value, counted in parallel across the word
+const popCount = (value: number) => {
+  let v = value - ((value >>> 1) & 0x55555555);
+  v = (v & 0x33333333) + ((v >>> 2) & 0x33333333);
+  return Math.imul((v + (v >>> 4)) & 0x0f0f0f0f, 0x01010101) >>> 24;
+};
+
+// dHashes are indexed as four 16-bit chunks. Hashes at most t bits apart differ in at most
+// t / 4 bits of at least one chunk (pigeonhole), so only images with a chunk that close to one
+// of an image's own chunks are compared in full.
+const CHUNKS = 4;
+const CHUNK_BITS = 16;
+const CHUNK_VALUES = 1 << CHUNK_BITS;
+
+// Every chunk value within `radius` bits of 0, XORed onto a chunk to visit its neighbours
+const masksWithin = (radius: number) => {
+  const masks: number[] = [];
+  for (let mask = 0; mask < CHUNK_VALUES; mask++) {
+    if (popCount(mask) <= radius) masks.push(mask);
+  }
+  return masks;
+};
+
+// Union-find over image indices
+const createSets = (size: number) => {
+  const parent = Int32Array.from({ length: size }, (_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+  const union = (a: number, b: number) => {
+    parent[find(a)] = find(b);
+  };
+  return { find, union };
+};
+
+// Groups hashed images into exact copies (same bytes) and, when a threshold is given, images
+// whose difference hashes are at most `threshold` bits apart. Near matches are chained, so two
+// images can share a group through a third one.
+export const findDuplicates = (nodes: FileNode[], threshold?: number): DuplicateGroup[] => {
+  const hashed = nodes.filter(node => node.hashes);
+  const sets = createSets(hashed.length);
+
+  // Exact copies first; only one of each needs to take part in the near comparison
+  const firstBySha = new Map<string, number>();
+  const distinct: number[] = [];
+  hashed.forEach((node, i) => {
+    const first = firstBySha.get(node.hashes!.sha256);
+    if (first === undefined) {
+      firstBySha.set(node.hashes!.sha256, i);
+      distinct.push(i);
+    } else {
+      sets.union(i, first);
+    }
+  });
+
+  if (threshold !== undefined) {
+    const high = new Uint32Array(distinct.length);
+    const low = new Uint32Array(distinct.length);
+    distinct.forEach((index, i) => {
+      const dhash = hashed[index].hashes!.dhash;
+      high[i] = parseInt(dhash.slice(0, 8), 16);
+      low[i] = parseInt(dhash.slice(8, 16), 16);
+    });
+    const chunkOf = (i: number, chunk: number) =>
+      ((chunk < 2 ? high[i] : low[i]) >>> (chunk % 2 === 0 ? CHUNK_BITS : 0)) & (CHUNK_VALUES - 1);
+    const masks = masksWithin(Math.floor(threshold / CHUNKS));
+
+    for (let chunk = 0; chunk < CHUNKS; chunk++) {
+      // Images bucketed by this chunk's value, as offsets into one flat array
+      const start = new Int32Array(CHUNK_VALUES + 1);
+      for (let i = 0; i < distinct.length; i++) start[chunkOf(i, chunk) + 1]++;
+      for (let value = 0; value < CHUNK_VALUES; value++) start[value + 1] += start[value];
+      const filled = start.slice(0, CHUNK_VALUES);
+      const bucketed = new Int32Array(distinct.length);
+      for (let i = 0; i < distinct.length; i++) bucketed[filled[chunkOf(i, chunk)]++] = i;
+
+      for (let i = 0; i < distinct.length; i++) {
+        const value = chunkOf(i, chunk);
+        for (const mask of masks) {
+          const bucket = value ^ mask;
+          for (let k = start[bucket]; k < start[bucket + 1]; k++) {
+            const j = bucketed[k];
+            if (j > i && popCount(high[i] ^ high[j]) + popCount(low[i] ^ low[j]) <= threshold) {
+              sets.union(distinct[i], distinct[j]);
+            }
+          }
+        }
+      }
+    }
+  }
+
+  const members = new Map<number, FileNode[]>();
+  hashed.forEach((node, i) => {
+    const root = sets.find(i);
+    const list = members.get(root);
+    if (list) list.push(node);
+    else members.set(root, [node]);
+  });
+
+  const groups: DuplicateGroup[] = [];
+  members.forEach(list => {
+    if (list.length < 2) return;
+    list.sort((a, b) => compareNames(a.path, b.path));
+    groups.push({
+      key: list[0].id,
+      exact: list.every(node => node.hashes!.sha256 === list[0].hashes!.sha256),
+      nodes: list,
+    });
+  });
+  // Biggest groups first, then in path order
+  return groups.sort((a, b) => b.nodes.length - a.nodes.length || compareNames(a.nodes[0].path, b.nodes[0].path));
+};
+
+const pixelCount = (node: FileNode) => (node.width && node.height ? node.width * node.height : 0);
+
+// The copy worth keeping: the most pixels, then the biggest file (least compressed), then the
+// one with a caption or tags, then the shortest path
+export const pickBest = (nodes: FileNode[]): FileNode =>
+  nodes.reduce((best, node) => {
+    const diff = pixelCount(node) - pixelCount(best)
+      || (node.file?.size || 0) - (best.file?.size || 0)
+      || Number(!!node.caption?.trim()) - Number(!!best.caption?.trim())
+      || (node.tags?.length || 0) - (best.tags?.length || 0)
+      || best.path.length - node.path.length;
+    return diff > 0 ? node : best;
+  });
+
+// Resolved once at most one image of the group is left undeleted
+export const isResolved = (group: DuplicateGroup) => group.nodes.filter(node => !node.isDeleted).length <= 1;
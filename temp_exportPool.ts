@@ -0,0 +1,218 @@
+import { DirectoryHandle, ExportProfile, FileNode, ThumbnailRequest, ThumbnailResponse } from '../types';
+import { encodeThumbnail } from './thumbnail';
+import { EXTENSIONS_BY_TYPE } from './exportProfiles';
+import { isIdentityTransform } from './orientation';
+
+// Leave one core for the UI thread; more than four workers rarely helps since decoding is memory bound
+export const DEFAULT_EXPORT_CONCURRENCY = Math.max(1, Math.min(4, (globalThis.navigator?.hardwareConcurrency || 2) - 1));
+export const MAX_EXPORT_CONCURRENCY = 8;
+
+const EXPORT_CACHE_DIR = 'export-cache';
+
+export interface ThumbnailPool {
+  // Aborting the signal drops a job that has not started yet
+  encode: (request: ThumbnailRequest, signal?: AbortSignal) => Promise<Blob>;
+  terminate: () => void;
+}
+
+interface EncodeJob {
+  request: ThumbnailRequest;
+  resolve: (blob: Blob) => void;
+  reject: (error: Error) => void;
+}
+
+const abortError = () => new DOMException('Export cancelled', 'AbortError');
+
+export const isAbortError = (e: unknown) => e instanceof DOMException && e.name === 'AbortError';
+
+const canUseWorkers = () => typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined';
+
+// Encodes on the main thread one image at a time when workers or OffscreenCanvas are missing
+const createMainThreadPool = (): ThumbnailPool => {
+  let queue: Promise<unknown> = Promise.resolve();
+  let terminated = false;
+  return {
+    encode: (request, signal) => {
+      const result = queue.then(() => {
+        if (terminated || signal?.aborted) throw abortError();
+        return encodeThumbnail(request);
+      });
+      queue = result.catch(() => undefined);
+      return result;
+    },
+    terminate: () => {
+      terminated = true;
+    },
+  };
+};
+
+// Workers are spawned lazily up to the concurrency limit and each handles one image at a time
+export const createThumbnailPool = (concurrency = DEFAULT_EXPORT_CONCURRENCY): ThumbnailPool => {
+  if (!canUseWorkers()) return createMainThreadPool();
+
+  const limit = Math.max(1, Math.min(MAX_EXPORT_CONCURRENCY, Math.floor(concurrency)));
+  const workers: Worker[] = [];
+  const idle: Worker[] = [];
+  const running = new Map<Worker, EncodeJob>();
+  const queue: EncodeJob[] = [];
+  let terminated = false;
+
+  const release = (worker: Worker) => {
+    running.delete(worker);
+    idle.push(worker);
+    dispatch();
+  };
+
+  const spawn = () => {
+    const worker = new Worker(new URL('./thumbnailWorker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<ThumbnailResponse>) => {
+      const job = running.get(worker);
+      if (job) {
+        if ('error' in event.data) job.reject(new Error(event.data.error));
+        else job.resolve(event.data.blob);
+      }
+      release(worker);
+    };
+    worker.onerror = (event) => {
+      // A crashed worker (usually out of memory on a huge image) only fails its own file
+      event.preventDefault();
+      running.get(worker)?.reject(new Error(event.message || 'Encoding worker crashed'));
+      running.delete(worker);
+      worker.terminate();
+      workers.splice(workers.indexOf(worker), 1);
+      dispatch();
+    };
+    workers.push(worker);
+    idle.push(worker);
+  };
+
+  const dispatch = () => {
+    if (terminated) return;
+    while (queue.length > 0) {
+      if (idle.length === 0 && workers.length < limit) spawn();
+      const worker = idle.pop();
+      if (!worker) return;
+      const job = queue.shift()!;
+      running.set(worker, job);
+      worker.postMessage(job.request);
+    }
+  };
+
+  return {
+    encode: (request, signal) =>
+      new Promise<Blob>((resolve, reject) => {
+        if (terminated || signal?.aborted) {
+          reject(abortError());
+          return;
+        }
+        const job: EncodeJob = { request, resolve, reject };
+        signal?.addEventListener('abort', () => {
+          const index = queue.indexOf(job);
+          if (index === -1) return;
+          queue.splice(index, 1);
+          reject(abortError());
+        }, { once: true });
+        queue.push(job);
+        dispatch();
+      }),
+    terminate: () => {
+      terminated = true;
+      queue.splice(0).forEach(job => job.reject(abortError()));
+      running.forEach(job => job.reject(abortError()));
+      running.clear();
+      workers.splice(0).forEach(worker => worker.terminate());
+      idle.length = 0;
+    },
+  };
+};
+
+// --- Encoded image cache ---
+// Every finished encode is written to OPFS right away. For exports this is the resume checkpoint:
+// an export interrupted by a crash, a reload or the Cancel button picks up from the last finished
+// file instead of from zero. The gallery keeps its grid thumbnails in a cache of its own.
+
+export interface ImageCache {
+  get: (node: FileNode, profile: ExportProfile) => Promise<Blob | null>;
+  put: (node: FileNode, profile: ExportProfile, blob: Blob) => Promise<void>;
+  clear: () => Promise<void>;
+}
+
+const TYPES_BY_EXTENSION = Object.fromEntries(Object.entries(EXTENSIONS_BY_TYPE).map(([type, ext]) => [ext, type]));
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+
+// Keyed by the source file, the profile and any manual rotate/flip, so a change to either is re-encoded
+const cacheKey = async (node: FileNode, profile: ExportProfile) => {
+  const file = node.file!;
+  const parts = [node.path, file.size, file.lastModified, JSON.stringify(profile)];
+  if (!isIdentityTransform(node.transform)) parts.push(JSON.stringify(node.transform));
+  const source = parts.join('|');
+  return toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(source)));
+};
+
+const splitEntryName = (name: string) => {
+  const dotIndex = name.lastIndexOf('.');
+  return dotIndex === -1 ? [name, ''] : [name.substring(0, dotIndex), name.substring(dotIndex + 1)];
+};
+
+export const openImageCache = async (directoryName: string): Promise<ImageCache | null> => {
+  if (typeof navigator.storage?.getDirectory !== 'function') return null;
+
+  let root: DirectoryHandle;
+  let directory: DirectoryHandle;
+  // Entry names by key; the extension records the output type, which varies with the source
+  const entries = new Map<string, string>();
+  try {
+    root = (await navigator.storage.getDirectory()) as unknown as DirectoryHandle;
+    directory = await root.getDirectoryHandle(directoryName, { create: true });
+    for await (const entry of directory.values()) {
+      if (entry.kind === 'file') entries.set(splitEntryName(entry.name)[0], entry.name);
+    }
+  } catch (e) {
+    console.warn('Image cache is unavailable', directoryName, e);
+    return null;
+  }
+
+  return {
+    get: async (node, profile) => {
+      const name = entries.get(await cacheKey(node, profile));
+      if (!name) return null;
+      try {
+        const blob = await (await directory.getFileHandle(name)).getFile();
+        return new Blob([blob], { type: TYPES_BY_EXTENSION[splitEntryName(name)[1]] || '' });
+      } catch {
+        return null;
+      }
+    },
+    put: async (node, profile, blob) => {
+      const key = await cacheKey(node, profile);
+      const name = `${key}.${EXTENSIONS_BY_TYPE[blob.type] || 'bin'}`;
+      const handle = await directory.getFileHandle(name, { create: true });
+      const writable = await handle.createWritable();
+      await writable.write(blob);
+      await writable.close();
+      entries.set(key, name);
+    },
+    clear: async () => {
+      await root.removeEntry(directoryName, { recursive: true });
+      directory = await root.getDirectoryHandle(directoryName, { create: true });
+      entries.clear();
+    },
+  };
+};
+
+export const openExportCache = () => openImageCache(EXPORT_CACHE_DIR);
+
+// How many images of the tree already have a finished encode from an interrupted export
+export const countCheckpointedImages = async (
+  cache: ImageCache,
+  images: FileNode[],
+  profile: ExportProfile
+): Promise<number> => {
+  let count = 0;
+  for (const node of images) {
+    if (node.file && (await cache.get(node, profile))) count++;
+  }
+  return count;
+};
@@ -0,0 +1,170 @@
+import { ExportProfile, FileNode } from '../types';
+
+export const EXPORT_PROFILES: ExportProfile[] = [
+  { id: 'preview-webp', name: 'Preview 512 WebP', edge: 'short', maxEdge: 512, format: 'image/webp', quality: 0.8, keepAlpha: true, stripMetadata: true },
+  { id: 'hd-jpeg', name: 'HD 1024 JPEG', edge: 'short', maxEdge: 1024, format: 'image/jpeg', quality: 0.85, keepAlpha: false, stripMetadata: true },
+  { id: 'lossless-png', name: 'Lossless PNG', edge: 'long', maxEdge: null, format: 'image/png', quality: 1, keepAlpha: true, stripMetadata: true },
+  { id: 'originals', name: 'Originals, no re-encode', edge: 'long', maxEdge: null, format: 'original', quality: 1, keepAlpha: true, stripMetadata: false },
+];
+
+// File extension used for each image type written into archives and caches
+export const EXTENSIONS_BY_TYPE: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'image/avif': 'avif',
+  'image/bmp': 'bmp',
+};
+
+export const DEFAULT_EXPORT_PROFILE = EXPORT_PROFILES[1];
+
+export const getExportProfile = (id: string) => EXPORT_PROFILES.find(profile => profile.id === id) || DEFAULT_EXPORT_PROFILE;
+
+export const describeExportProfile = (profile: ExportProfile) => {
+  if (profile.format === 'original') return profile.stripMetadata ? 'Original files, metadata removed' : 'Original files, copied as-is';
+  const size = profile.maxEdge ? `${profile.edge === 'short' ? 'Short' : 'Long'}-edge ${profile.maxEdge}px` : 'Full resolution';
+  const format = profile.format.replace('image/', '').toUpperCase();
+  const quality = profile.format === 'image/png' ? 'lossless' : `quality ${Math.round(profile.quality * 100)}`;
+  return `${size}, ${format} ${quality}${profile.keepAlpha ? ', keeps transparency' : ''}`;
+};
+
+export const scaledSize = (width: number, height: number, profile: ExportProfile) => {
+  if (!profile.maxEdge) return { width, height };
+  const edge = profile.edge === 'short' ? Math.min(width, height) : Math.max(width, height);
+  // Only scale down, small images keep their size
+  if (edge <= profile.maxEdge) return { width, height };
+  const scale = profile.maxEdge / edge;
+  return { width: Math.round(width * scale), height: Math.round(height * scale) };
+};
+
+// Images that already fit the profile are copied instead of re-encoded, as long as that keeps
+// the profile's format and alpha handling
+export const canCopyUnchanged = (file: Blob, profile: ExportProfile) =>
+  file.type === profile.format && (profile.keepAlpha || profile.format === 'image/jpeg');
+
+// --- Metadata stripping for copied files ---
+
+// APP1 holds EXIF and XMP, APP13 holds IPTC. APP2 (ICC profile) is kept so colours stay right.
+const JPEG_METADATA_MARKERS = new Set([0xe1, 0xed, 0xfe]);
+const PNG_METADATA_CHUNKS = new Set(['tEXt', 'zTXt', 'iTXt', 'eXIf', 'tIME']);
+const PNG_SIGNATURE_LENGTH = 8;
+
+const stripJpeg = (bytes: Uint8Array): BlobPart[] | null => {
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) return null;
+  const parts: BlobPart[] = [bytes.subarray(0, 2)];
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    // Start of scan: the rest is entropy-coded image data
+    if (marker === 0xda) break;
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    if (!JPEG_METADATA_MARKERS.has(marker)) parts.push(bytes.subarray(offset, offset + 2 + length));
+    offset += 2 + length;
+  }
+  parts.push(bytes.subarray(offset));
+  return parts;
+};
+
+const stripPng = (bytes: Uint8Array): BlobPart[] | null => {
+  if (bytes[0] !== 0x89 || bytes[1] !== 0x50 || bytes[2] !== 0x4e || bytes[3] !== 0x47) return null;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const parts: BlobPart[] = [bytes.subarray(0, PNG_SIGNATURE_LENGTH)];
+  let offset = PNG_SIGNATURE_LENGTH;
+  while (offset + 12 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    const end = offset + 12 + length;
+    if (!PNG_METADATA_CHUNKS.has(type)) parts.push(bytes.subarray(offset, end));
+    offset = end;
+  }
+  return parts;
+};
+
+// WebP keeps EXIF and XMP in their own chunks, announced by flags in the VP8X header
+const WEBP_METADATA_CHUNKS = new Set(['EXIF', 'XMP ']);
+const WEBP_EXIF_FLAG = 0x08;
+const WEBP_XMP_FLAG = 0x04;
+
+const stripWebp = (bytes: Uint8Array): BlobPart[] | null => {
+  const fourcc = (offset: number) => String.fromCharCode(...bytes.subarray(offset, offset + 4));
+  if (fourcc(0) !== 'RIFF' || fourcc(8) !== 'WEBP') return null;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: Uint8Array[] = [];
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const size = view.getUint32(offset + 4, true);
+    const end = Math.min(offset + 8 + size + (size % 2), bytes.length);
+    const type = fourcc(offset);
+    if (type === 'VP8X') {
+      const header = bytes.slice(offset, end);
+      header[8] &= ~(WEBP_EXIF_FLAG | WEBP_XMP_FLAG);
+      chunks.push(header);
+    } else if (!WEBP_METADATA_CHUNKS.has(type)) {
+      chunks.push(bytes.subarray(offset, end));
+    }
+    offset = end;
+  }
+
+  const riff = new Uint8Array(12);
+  riff.set(bytes.subarray(0, 12));
+  const riffSize = 4 + chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+  new DataView(riff.buffer).setUint32(4, riffSize, true);
+  return [riff, ...chunks];
+};
+
+// Removes metadata without touching image data; other formats are copied unchanged
+export const stripImageMetadata = async (file: Blob): Promise<Blob> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const parts = stripJpeg(bytes) || stripPng(bytes) || stripWebp(bytes);
+  return parts ? new Blob(parts, { type: file.type }) : file;
+};
+
+// --- Size estimate ---
+// Pixel counts come from the measured sizes once the background pass has read them. Until then
+// they are inferred from the source size with typical compression ratios, which is good enough
+// to tell 50 MB from 2 GB.
+
+const SOURCE_BYTES_PER_PIXEL: Record<string, number> = {
+  'image/jpeg': 0.35,
+  'image/webp': 0.25,
+  'image/png': 1.5,
+  'image/gif': 0.5,
+};
+
+const outputBytesPerPixel = (profile: ExportProfile) => {
+  switch (profile.format) {
+    case 'image/jpeg': return 0.05 + 0.4 * profile.quality * profile.quality;
+    case 'image/webp': return 0.03 + 0.3 * profile.quality * profile.quality;
+    case 'image/png': return 1.5;
+    default: return 1;
+  }
+};
+
+// Assumes a 3:2 aspect ratio when turning the edge limit into a pixel budget for unmeasured images
+const ASSUMED_ASPECT = 1.5;
+
+export const estimateExportSize = (images: FileNode[], profile: ExportProfile): number => {
+  const maxPixels = profile.maxEdge
+    ? profile.edge === 'short'
+      ? profile.maxEdge * profile.maxEdge * ASSUMED_ASPECT
+      : (profile.maxEdge * profile.maxEdge) / ASSUMED_ASPECT
+    : Infinity;
+
+  return Math.round(images.reduce((sum, node) => {
+    const file = node.file;
+    if (!file) return sum;
+    if (profile.format === 'original') return sum + file.size;
+
+    if (node.width && node.height) {
+      const scaled = scaledSize(node.width, node.height, profile);
+      const unchanged = scaled.width === node.width && scaled.height === node.height;
+      if (unchanged && canCopyUnchanged(file, profile)) return sum + file.size;
+      return sum + scaled.width * scaled.height * outputBytesPerPixel(profile);
+    }
+
+    const pixels = file.size / (SOURCE_BYTES_PER_PIXEL[file.type] || 1);
+    if (pixels <= maxPixels && canCopyUnchanged(file, profile)) return sum + file.size;
+    return sum + Math.min(pixels, maxPixels) * outputBytesPerPixel(profile);
+  }, 0));
+};
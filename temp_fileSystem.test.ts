@@ -0,0 +1,284 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DirectoryHandle, FileHandle, FileNode } from '../types';
+import { applyChanges, planChanges, readDirectory, removeTrashedNodes, TRASH_FOLDER } from './fileSystem';
+import { loadCaption, parseFilesToTree } from './fileUtils';
+import { editCaption, isCaptionDirty } from './captions';
+import { createMergeCommand, createMoveCommand, createRenameCommand } from './commands';
+
+// In-memory stand-in for a folder opened with showDirectoryPicker
+interface MemoryDirectory extends DirectoryHandle {
+  files: Map<string, File>;
+  directories: Map<string, MemoryDirectory>;
+  readOnly: boolean;
+}
+
+const notFound = (name: string) => new DOMException(`${name} not found`, 'NotFoundError');
+const denied = () => new DOMException('Permission denied', 'NotAllowedError');
+
+const createFileHandle = (directory: MemoryDirectory, name: string): FileHandle => ({
+  kind: 'file',
+  name,
+  getFile: async () => {
+    const file = directory.files.get(name);
+    if (!file) throw notFound(name);
+    return file;
+  },
+  createWritable: async () => {
+    if (directory.readOnly) throw denied();
+    const parts: (Blob | string)[] = [];
+    return {
+      write: async (data) => { parts.push(data); },
+      close: async () => { directory.files.set(name, new File(parts, name)); },
+    };
+  },
+});
+
+const createDirectory = (name: string): MemoryDirectory => {
+  const directory: MemoryDirectory = {
+    kind: 'directory',
+    name,
+    files: new Map(),
+    directories: new Map(),
+    readOnly: false,
+    async *values() {
+      yield* directory.directories.values();
+      for (const fileName of directory.files.keys()) yield createFileHandle(directory, fileName);
+    },
+    getDirectoryHandle: async (child, options) => {
+      let handle = directory.directories.get(child);
+      if (!handle && options?.create) {
+        handle = createDirectory(child);
+        directory.directories.set(child, handle);
+      }
+      if (!handle) throw notFound(child);
+      return handle;
+    },
+    getFileHandle: async (child, options) => {
+      if (!directory.files.has(child)) {
+        if (!options?.create) throw notFound(child);
+        if (directory.readOnly) throw denied();
+        directory.files.set(child, new File([], child));
+      }
+      return createFileHandle(directory, child);
+    },
+    removeEntry: async (child) => {
+      if (!directory.files.delete(child) && !directory.directories.delete(child)) throw notFound(child);
+    },
+  };
+  return directory;
+};
+
+const addFolder = (parent: MemoryDirectory, name: string) => {
+  const folder = createDirectory(name);
+  parent.directories.set(name, folder);
+  return folder;
+};
+
+const addFile = (directory: MemoryDirectory, name: string, content: string) => {
+  const type = name.endsWith('.jpg') ? 'image/jpeg' : 'text/plain';
+  directory.files.set(name, new File([content], name, { type }));
+};
+
+const readText = (directory: MemoryDirectory, name: string) => directory.files.get(name)?.text();
+
+const openFolder = async (root: MemoryDirectory) => {
+  const { files, directoryHandles } = await readDirectory(root);
+  return parseFilesToTree(files, directoryHandles);
+};
+
+const findImage = (images: FileNode[], path: string) => {
+  const node = images.find(image => image.path === path);
+  if (!node) throw new Error(`No image at ${path}`);
+  return node;
+};
+
+describe('applyChanges', () => {
+  let root: MemoryDirectory;
+
+  beforeEach(() => {
+    root = createDirectory('shoot');
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('moves a deleted image and its caption into a mirrored _trash folder', async () => {
+    const portraits = addFolder(root, 'portraits');
+    addFile(portraits, 'photo.jpg', 'image');
+    addFile(portraits, 'photo.txt', 'a portrait');
+    addFile(portraits, 'other.jpg', 'other image');
+
+    const { allImages } = await openFolder(root);
+    const node = findImage(allImages, 'shoot/portraits/photo.jpg');
+    node.isDeleted = true;
+
+    const changes = planChanges(allImages);
+    expect(changes).toEqual([{ kind: 'trash', node, path: 'shoot/portraits/photo.jpg', sidecar: 'photo.txt' }]);
+
+    const result = await applyChanges(changes);
+    expect(result.failed).toEqual([]);
+    expect([...portraits.files.keys()]).toEqual(['other.jpg']);
+
+    const trash = root.directories.get(TRASH_FOLDER)?.directories.get('portraits');
+    expect(await readText(trash!, 'photo.jpg')).toBe('image');
+    expect(await readText(trash!, 'photo.txt')).toBe('a portrait');
+
+    removeTrashedNodes(result.applied, allImages);
+    expect(allImages.map(image => image.path)).toEqual(['shoot/portraits/other.jpg']);
+
+    // Reopening the folder never brings trashed files back
+    const reopened = await openFolder(root);
+    expect(reopened.allImages.map(image => image.path)).toEqual(['shoot/portraits/other.jpg']);
+  });
+
+  it('keeps a file already in the trash and numbers the new one', async () => {
+    addFile(root, 'photo.jpg', 'new image');
+    addFile(addFolder(root, TRASH_FOLDER), 'photo.jpg', 'old image');
+
+    const { allImages } = await openFolder(root);
+    allImages[0].isDeleted = true;
+    await applyChanges(planChanges(allImages));
+
+    const trash = root.directories.get(TRASH_FOLDER)!;
+    expect(await readText(trash, 'photo.jpg')).toBe('old image');
+    expect(await readText(trash, 'photo (1).jpg')).toBe('new image');
+  });
+
+  it('uses the path on disk for files moved or renamed in the tree', async () => {
+    const portraits = addFolder(root, 'portraits');
+    addFile(portraits, 'photo.jpg', 'image');
+    addFile(portraits, 'photo.txt', 'a portrait');
+    addFile(portraits, 'other.jpg', 'other image');
+    addFile(addFolder(root, 'archive'), 'kept.jpg', 'kept image');
+
+    const { root: tree, allImages } = await openFolder(root);
+    const archive = tree.children[0].children.find(child => child.name === 'archive')!;
+    const moved = findImage(allImages, 'shoot/portraits/photo.jpg');
+    const renamed = findImage(allImages, 'shoot/portraits/other.jpg');
+    createRenameCommand(moved, 'best.jpg').apply();
+    createMoveCommand([moved], archive).apply();
+    createRenameCommand(renamed, 'renamed.jpg').apply();
+    expect(moved.path).toBe('shoot/archive/best.jpg');
+
+    moved.isDeleted = true;
+    editCaption(renamed, 'a caption');
+    const changes = planChanges(allImages);
+    expect(changes.map(change => [change.kind, change.path])).toEqual([
+      ['trash', 'shoot/portraits/photo.jpg'],
+      ['write-caption', 'shoot/portraits/other.txt'],
+    ]);
+
+    const result = await applyChanges(changes);
+    expect(result.failed).toEqual([]);
+    const trash = root.directories.get(TRASH_FOLDER)!;
+    expect([...trash.directories.keys()]).toEqual(['portraits']);
+    expect(await readText(trash.directories.get('portraits')!, 'photo.jpg')).toBe('image');
+    expect(await readText(portraits, 'other.txt')).toBe('a caption');
+  });
+
+  it('merges same-named sub-folders and only renames clashing files', async () => {
+    const source = addFolder(root, 'a');
+    const concept = addFolder(source, 'concept');
+    addFile(concept, 'x.jpg', 'x');
+    addFile(concept, 'y.jpg', 'new y');
+    addFile(concept, 'z.jpg', 'z');
+    addFile(source, 'top.jpg', 'top');
+    addFile(addFolder(addFolder(root, 'b'), 'concept'), 'y.jpg', 'old y');
+
+    const { root: tree, allImages } = await openFolder(root);
+    const shoot = tree.children[0];
+    const [a, b] = ['a', 'b'].map(name => shoot.children.find(child => child.name === name)!);
+    const sourceNames = a.children[0].children.map(child => child.name);
+    const merge = createMergeCommand(a, b);
+
+    merge.apply();
+    expect(shoot.children).not.toContain(a);
+    expect(b.children.filter(child => child.type === 'folder').map(child => child.name)).toEqual(['concept']);
+    expect(allImages.map(image => image.path).sort()).toEqual([
+      'shoot/b/concept/x.jpg',
+      'shoot/b/concept/y (1).jpg',
+      'shoot/b/concept/y.jpg',
+      'shoot/b/concept/z.jpg',
+      'shoot/b/top.jpg',
+    ]);
+    expect(await findImage(allImages, 'shoot/b/concept/y.jpg').file!.text()).toBe('old y');
+
+    merge.revert();
+    expect(shoot.children).toContain(a);
+    expect(a.children[0].children.map(child => child.name)).toEqual(sourceNames);
+    expect(b.children[0].children.map(child => child.name)).toEqual(['y.jpg']);
+    expect(findImage(allImages, 'shoot/a/top.jpg').parent).toBe(a);
+  });
+
+  it('updates the caption field of a JSON sidecar in place', async () => {
+    addFile(root, 'photo.jpg', 'image');
+    addFile(root, 'photo.json', JSON.stringify({ prompt: 'old caption', seed: 42 }));
+
+    const { allImages } = await openFolder(root);
+    const node = allImages[0];
+    await loadCaption(node);
+    editCaption(node, 'new caption');
+
+    const changes = planChanges(allImages);
+    expect(changes).toEqual([
+      { kind: 'write-caption', node, path: 'shoot/photo.json', before: 'old caption', after: 'new caption' },
+    ]);
+
+    const result = await applyChanges(changes);
+    expect(result.applied).toHaveLength(1);
+    expect(JSON.parse((await readText(root, 'photo.json'))!)).toEqual({ prompt: 'new caption', seed: 42 });
+    expect(isCaptionDirty(node)).toBe(false);
+    expect(planChanges(allImages)).toEqual([]);
+  });
+
+  it('keeps an edit made while the sidecar is still being read', async () => {
+    addFile(root, 'photo.jpg', 'image');
+    addFile(root, 'photo.txt', 'from disk');
+
+    const { allImages } = await openFolder(root);
+    const node = allImages[0];
+    const loading = loadCaption(node);
+    editCaption(node, 'edited');
+    expect(await loading).toBe('edited');
+
+    expect(planChanges(allImages)).toEqual([
+      { kind: 'write-caption', node, path: 'shoot/photo.txt', before: 'from disk', after: 'edited' },
+    ]);
+  });
+
+  it('writes a new .txt sidecar for an uncaptioned image', async () => {
+    addFile(root, 'photo.jpg', 'image');
+
+    const { allImages } = await openFolder(root);
+    editCaption(allImages[0], 'a caption');
+    await applyChanges(planChanges(allImages));
+
+    expect(await readText(root, 'photo.txt')).toBe('a caption');
+    expect(allImages[0].captionFile?.name).toBe('photo.txt');
+  });
+
+  it('reports a failed change and still applies the rest', async () => {
+    const locked = addFolder(root, 'locked');
+    addFile(locked, 'a.jpg', 'image');
+    addFile(root, 'b.jpg', 'image');
+    locked.readOnly = true;
+
+    const { allImages } = await openFolder(root);
+    const failing = findImage(allImages, 'shoot/locked/a.jpg');
+    const passing = findImage(allImages, 'shoot/b.jpg');
+    editCaption(failing, 'first');
+    editCaption(passing, 'second');
+
+    const progress: number[] = [];
+    const result = await applyChanges(planChanges(allImages), done => progress.push(done));
+
+    expect(result.applied.map(change => change.node)).toEqual([passing]);
+    expect(result.failed).toEqual([{ change: expect.objectContaining({ node: failing }), error: 'Permission denied' }]);
+    expect(progress).toEqual([1, 2]);
+    expect(locked.files.has('a.txt')).toBe(false);
+    expect(isCaptionDirty(failing)).toBe(true);
+    expect(isCaptionDirty(passing)).toBe(false);
+  });
+});
@@ -0,0 +1,202 @@
+import { ApplyResult, DirectoryHandle, FileNode, PendingChange, SourceFile } from '../types';
+import { JSON_CAPTION_FIELDS } from './fileUtils';
+import { isCaptionDirty, markCaptionSaved } from './captions';
+import { revokeImageUrl } from './imageUrls';
+
+// Soft-deleted files are moved here, inside the opened folder, instead of being removed
+export const TRASH_FOLDER = '_trash';
+
+export const isFileSystemAccessSupported = () => 'showDirectoryPicker' in window;
+
+export const pickDirectory = async (): Promise<DirectoryHandle> => {
+  if (!window.showDirectoryPicker) throw new Error('Read/write folders are not supported in this browser');
+  return window.showDirectoryPicker({ mode: 'readwrite' });
+};
+
+// Walks the folder the same way <input webkitdirectory> would, recording every folder handle by path
+export const readDirectory = async (
+  root: DirectoryHandle
+): Promise<{ files: SourceFile[], directoryHandles: Map<string, DirectoryHandle> }> => {
+  const files: SourceFile[] = [];
+  const directoryHandles = new Map<string, DirectoryHandle>();
+
+  const walk = async (handle: DirectoryHandle, path: string) => {
+    directoryHandles.set(path, handle);
+    for await (const entry of handle.values()) {
+      if (entry.kind === 'directory') {
+        // Never re-import what a previous "Apply changes" moved away
+        if (handle === root && entry.name === TRASH_FOLDER) continue;
+        await walk(entry, `${path}/${entry.name}`);
+      } else {
+        files.push({ file: await entry.getFile(), path: `${path}/${entry.name}` });
+      }
+    }
+  };
+
+  await walk(root, root.name);
+  return { files, directoryHandles };
+};
+
+// Name of the image on disk. Tree edits may have renamed the node to avoid a clash, but the
+// File read from disk keeps the real name.
+const diskName = (node: FileNode) => node.file?.name || node.name;
+
+// Path of the image on disk. Moves and renames in the tree only change node.path.
+const diskPath = (node: FileNode) => node.diskPath || node.path;
+
+const sidecarName = (node: FileNode) => node.captionFile?.name || diskName(node).replace(/\.[^/.]+$/, '.txt');
+
+// Dry run: lists what "Apply changes" would do without touching the disk
+export const planChanges = (images: FileNode[]): PendingChange[] => {
+  const changes: PendingChange[] = [];
+
+  images.forEach(node => {
+    if (!node.directoryHandle) return;
+
+    if (node.isDeleted) {
+      changes.push({ kind: 'trash', node, path: diskPath(node), sidecar: node.captionFile?.name });
+      return;
+    }
+
+    if (isCaptionDirty(node) && node.caption !== undefined) {
+      const path = diskPath(node);
+      const dir = path.substring(0, path.lastIndexOf('/'));
+      changes.push({
+        kind: 'write-caption',
+        node,
+        path: dir ? `${dir}/${sidecarName(node)}` : sidecarName(node),
+        before: node.captionHistory?.saved,
+        after: node.caption,
+      });
+    }
+  });
+
+  return changes;
+};
+
+// The folder the user picked is the shallowest one with a handle. It starts out as the top-level
+// folder, but images and folders may since have been moved around it.
+const findOpenedFolder = (node: FileNode): FileNode | undefined => {
+  let root = node;
+  while (root.parent) root = root.parent;
+  const queue = [...root.children];
+  for (let current = queue.shift(); current; current = queue.shift()) {
+    if (current.type !== 'folder') continue;
+    if (current.directoryHandle) return current;
+    queue.push(...current.children);
+  }
+  return undefined;
+};
+
+const entryExists = async (directory: DirectoryHandle, name: string) => {
+  try {
+    await directory.getFileHandle(name);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Picks a name that does not clobber an earlier trashed file of the same name
+const freeName = async (directory: DirectoryHandle, name: string) => {
+  if (!(await entryExists(directory, name))) return name;
+  const dotIndex = name.lastIndexOf('.');
+  const base = dotIndex === -1 ? name : name.substring(0, dotIndex);
+  const extension = dotIndex === -1 ? '' : name.substring(dotIndex);
+  let counter = 1;
+  while (await entryExists(directory, `${base} (${counter})${extension}`)) counter++;
+  return `${base} (${counter})${extension}`;
+};
+
+const writeFile = async (directory: DirectoryHandle, name: string, data: Blob | string) => {
+  const handle = await directory.getFileHandle(name, { create: true });
+  const writable = await handle.createWritable();
+  await writable.write(data);
+  await writable.close();
+  return handle;
+};
+
+// Copy then remove: FileSystemHandle.move() is not available in every browser that supports the picker
+const moveToTrash = async (source: DirectoryHandle, name: string, trash: DirectoryHandle) => {
+  const file = await (await source.getFileHandle(name)).getFile();
+  await writeFile(trash, await freeName(trash, name), file);
+  await source.removeEntry(name);
+};
+
+const trashNode = async (node: FileNode) => {
+  const opened = findOpenedFolder(node);
+  if (!opened?.directoryHandle || !node.directoryHandle) throw new Error('Folder is not writable');
+
+  // Mirror the sub-folder layout on disk under _trash
+  let trash = await opened.directoryHandle.getDirectoryHandle(TRASH_FOLDER, { create: true });
+  const relativeDirs = diskPath(node).split('/').slice(1, -1);
+  for (const dir of relativeDirs) {
+    trash = await trash.getDirectoryHandle(dir, { create: true });
+  }
+
+  await moveToTrash(node.directoryHandle, diskName(node), trash);
+  if (node.captionFile) {
+    await moveToTrash(node.directoryHandle, node.captionFile.name, trash);
+  }
+};
+
+const serializeCaption = async (node: FileNode, caption: string): Promise<string> => {
+  if (!node.captionFile?.name.toLowerCase().endsWith('.json')) return caption;
+
+  // Keep any other fields of a JSON sidecar and update the caption field in place
+  try {
+    const data = JSON.parse(await node.captionFile.text());
+    if (data && typeof data === 'object' && !Array.isArray(data)) {
+      const field = JSON_CAPTION_FIELDS.find(key => typeof data[key] === 'string') || 'caption';
+      return JSON.stringify({ ...data, [field]: caption }, null, 2);
+    }
+  } catch {
+    console.warn('Replacing unreadable JSON sidecar', node.captionFile.name);
+  }
+  return JSON.stringify({ caption }, null, 2);
+};
+
+const writeCaption = async (node: FileNode, caption: string) => {
+  if (!node.directoryHandle) throw new Error('Folder is not writable');
+  const name = sidecarName(node);
+  const handle = await writeFile(node.directoryHandle, name, await serializeCaption(node, caption));
+  node.captionFile = await handle.getFile();
+  markCaptionSaved(node);
+};
+
+export const applyChanges = async (
+  changes: PendingChange[],
+  onProgress?: (done: number) => void
+): Promise<ApplyResult> => {
+  const result: ApplyResult = { applied: [], failed: [] };
+
+  for (const change of changes) {
+    try {
+      if (change.kind === 'trash') {
+        await trashNode(change.node);
+      } else {
+        await writeCaption(change.node, change.after);
+      }
+      result.applied.push(change);
+    } catch (e) {
+      console.error('Failed to apply change', change.path, e);
+      result.failed.push({ change, error: e instanceof Error ? e.message : String(e) });
+    }
+    if (onProgress) onProgress(result.applied.length + result.failed.length);
+  }
+
+  return result;
+};
+
+// Drops trashed files from the in-memory tree once they are gone from disk. allImages is
+// updated in place: replacing it would revoke the preview URLs of every remaining image.
+export const removeTrashedNodes = (applied: PendingChange[], allImages: FileNode[]) => {
+  const trashed = new Set(applied.filter(change => change.kind === 'trash').map(change => change.node));
+  trashed.forEach(node => {
+    if (node.parent) node.parent.children = node.parent.children.filter(child => child !== node);
+    revokeImageUrl(node);
+  });
+  for (let i = allImages.length - 1; i >= 0; i--) {
+    if (trashed.has(allImages[i])) allImages.splice(i, 1);
+  }
+};
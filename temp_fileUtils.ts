@@ -1,6 +1,39 @@
-import { FileNode, SerializedNode } from '../types';
+import { CaptionReport, DirectoryHandle, ExportProfile, FileNode, SerializedNode, SourceFile } from '../types';
+import { ZipWriter } from './zip';
+import { ImageCache, isAbortError, ThumbnailPool } from './exportPool';
+import { EXTENSIONS_BY_TYPE } from './exportProfiles';
+import { hasMetadata, readImageHeader } from './metadata';
+import { bakesTransform, isIdentityTransform, swapsAxes } from './orientation';
+
+// Sidecar extensions in order of preference when several exist for the same image
+export const CAPTION_EXTENSIONS = ['txt', 'caption', 'json'];
+
+export const splitExtension = (name: string): [string, string] => {
+  const dotIndex = name.lastIndexOf('.');
+  return dotIndex === -1 ? [name, ''] : [name.substring(0, dotIndex), name.substring(dotIndex + 1).toLowerCase()];
+};
+
+// Key shared by an image and its sidecar: directory plus basename without extension
+const pairingKey = (path: string): string => {
+  const lastSlash = path.lastIndexOf('/');
+  const dir = lastSlash === -1 ? '' : path.substring(0, lastSlash);
+  const [basename] = splitExtension(path.substring(lastSlash + 1));
+  return dir ? `${dir}/${basename}` : basename;
+};
+
+// <input webkitdirectory> yields a FileList; read/write folders are walked into SourceFiles
+const toSourceFiles = (files: FileList | SourceFile[]): SourceFile[] =>
+  Array.isArray(files)
+    ? files
+    : Array.from(files).map(file => ({ file, path: file.webkitRelativePath || file.name }));
+
+// `directoryHandles` maps folder paths to their handles when the folder was opened read/write
+export const parseFilesToTree = (
+  files: FileList | SourceFile[],
+  directoryHandles?: Map<string, DirectoryHandle>
+): { root: FileNode, allImages: FileNode[], captionReport: CaptionReport } => {
+  const sources = toSourceFiles(files);
 
-export const parseFilesToTree = (files: FileList): { root: FileNode, allImages: FileNode[] } => {
   const root: FileNode = {
     id: 'root',
     name: 'Root',
@@ -11,12 +44,26 @@ export const parseFilesToTree = (files: FileList): { root: FileNode, allImages:
 
   const allImages: FileNode[] = [];
 
-  Array.from(files).forEach((file) => {
-    // webkitRelativePath is something like "MyFolder/Sub/image.jpg"
-    // If not available (rare in modern browsers for directory upload), use name
-    const pathParts = file.webkitRelativePath 
-      ? file.webkitRelativePath.split('/') 
-      : [file.name];
+  // First pass: collect caption sidecars so images can be paired regardless of file order
+  const captionFiles = new Map<string, SourceFile>();
+  sources.forEach((source) => {
+    const { file } = source;
+    if (file.name.startsWith('.')) return;
+    const [, extension] = splitExtension(file.name);
+    const rank = CAPTION_EXTENSIONS.indexOf(extension);
+    if (rank === -1) return;
+
+    const key = pairingKey(source.path);
+    const existing = captionFiles.get(key);
+    if (!existing || rank < CAPTION_EXTENSIONS.indexOf(splitExtension(existing.file.name)[1])) {
+      captionFiles.set(key, source);
+    }
+  });
+  const pairedKeys = new Set<string>();
+
+  sources.forEach(({ file, path }) => {
+    // path is something like "MyFolder/Sub/image.jpg"
+    const pathParts = path.split('/');
     
     // Ignore dotfiles or system files if necessary
     if (file.name.startsWith('.')) return;
@@ -24,6 +71,10 @@ export const parseFilesToTree = (files: FileList): { root: FileNode, allImages:
     // Only process images
     if (!file.type.startsWith('image/')) return;
 
+    const key = pairingKey(path);
+    const captionFile = captionFiles.get(key)?.file;
+    if (captionFile) pairedKeys.add(key);
+
     let currentNode = root;
 
     // Traverse/Build the tree structure
@@ -34,13 +85,15 @@ export const parseFilesToTree = (files: FileList): { root: FileNode, allImages:
         const fileNode: FileNode = {
           id: `${currentNode.path}/${part}`,
           name: part,
-          path: file.webkitRelativePath,
+          path: path,
           type: 'file',
           children: [],
-          file: file,
-          url: URL.createObjectURL(file),
+          file: file, // Object URLs are created on demand, see utils/imageUrls
           parent: currentNode,
-          isDeleted: false
+          isDeleted: false,
+          captionFile,
+          directoryHandle: currentNode.directoryHandle,
+          diskPath: directoryHandles ? path : undefined
         };
         currentNode.children.push(fileNode);
         allImages.push(fileNode);
@@ -57,6 +110,7 @@ export const parseFilesToTree = (files: FileList): { root: FileNode, allImages:
             children: [],
             parent: currentNode
           };
+          folderNode.directoryHandle = directoryHandles?.get(folderNode.path);
           currentNode.children.push(folderNode);
         }
         currentNode = folderNode;
@@ -64,7 +118,78 @@ export const parseFilesToTree = (files: FileList): { root: FileNode, allImages:
     });
   });
 
-  return { root, allImages };
+  const captionReport: CaptionReport = {
+    orphanCaptions: Array.from(captionFiles.entries())
+      .filter(([key]) => !pairedKeys.has(key))
+      .map(([, source]) => source.path),
+    uncaptionedImages: allImages.filter(node => !node.captionFile),
+  };
+
+  return { root, allImages, captionReport };
+};
+
+// JSON sidecars either hold a bare string or an object with one of these fields
+export const JSON_CAPTION_FIELDS = ['caption', 'text', 'prompt', 'description'];
+
+const extractJsonCaption = (text: string): string | undefined => {
+  try {
+    const data = JSON.parse(text);
+    if (typeof data === 'string') return data;
+    if (data && typeof data === 'object') {
+      const field = JSON_CAPTION_FIELDS.find(key => typeof data[key] === 'string');
+      if (field) return data[field];
+    }
+  } catch {
+    console.warn('Caption sidecar is not valid JSON');
+  }
+  return undefined;
+};
+
+// Reads the sidecar once and caches the text on the node
+export const loadCaption = async (node: FileNode): Promise<string | undefined> => {
+  const captionFile = node.captionFile;
+  if (node.caption !== undefined || !captionFile) return node.caption;
+
+  const text = await captionFile.text();
+  const [, extension] = splitExtension(captionFile.name);
+  const loaded = extension === 'json' ? extractJsonCaption(text) : text.trim();
+  // The node may have been edited or saved while the file was read. An edit wins, but the file
+  // text is still what it changes from.
+  if (node.captionFile !== captionFile) return node.caption;
+  if (node.captionHistory && node.captionHistory.saved === undefined) node.captionHistory.saved = loaded;
+  if (node.caption === undefined) node.caption = loaded;
+  return node.caption;
+};
+
+export const loadCaptions = async (nodes: FileNode[]): Promise<void> => {
+  for (const node of nodes) {
+    try {
+      await loadCaption(node);
+    } catch (e) {
+      console.warn('Failed to read caption for', node.name, e);
+    }
+  }
+};
+
+// Learns each image's pixel size once, from the file header where the format has one and by
+// decoding otherwise. Sequential, like caption loading, so a big library does not decode
+// thousands of images at the same time.
+export const loadDimensions = async (nodes: FileNode[], signal?: AbortSignal): Promise<void> => {
+  for (const node of nodes) {
+    if (signal?.aborted) return;
+    if (!node.file || node.width !== undefined) continue;
+    try {
+      let { width, height } = await readImageHeader(node.file).catch(() => ({ width: undefined, height: undefined }));
+      if (!width || !height) {
+        const bitmap = await createImageBitmap(node.file, { imageOrientation: 'from-image' });
+        [width, height] = [bitmap.width, bitmap.height];
+        bitmap.close();
+      }
+      [node.width, node.height] = swapsAxes(node.transform) ? [height, width] : [width, height];
+    } catch (e) {
+      console.warn('Failed to read dimensions for', node.name, e);
+    }
+  }
 };
 
 export const formatBytes = (bytes: number, decimals = 2) => {
@@ -78,85 +203,142 @@ export const formatBytes = (bytes: number, decimals = 2) => {
 
 // --- Export/Import Logic ---
 
-const processImageForExport = (file: File): Promise<string> => {
-  return new Promise((resolve) => {
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      const img = new Image();
-      img.onload = () => {
-        // Smart HD Scaling: Short edge 1024px
-        const SHORT_EDGE_TARGET = 1024;
-        let width = img.width;
-        let height = img.height;
-        const shortEdge = Math.min(width, height);
-
-        // Only scale down if image is larger than target
-        if (shortEdge > SHORT_EDGE_TARGET) {
-            const scale = SHORT_EDGE_TARGET / shortEdge;
-            width = Math.round(width * scale);
-            height = Math.round(height * scale);
-        }
+export interface SerializeOptions {
+  pool: ThumbnailPool;
+  profile: ExportProfile;
+  cache?: ImageCache | null; // Checkpoint of finished encodes, reused when an export is resumed
+  signal?: AbortSignal;
+  onProgress?: () => void;
+}
 
-        const canvas = document.createElement('canvas');
-        canvas.width = width;
-        canvas.height = height;
-        
-        const ctx = canvas.getContext('2d');
-        if (ctx) {
-            // Enable high quality image scaling
-            ctx.imageSmoothingEnabled = true;
-            ctx.imageSmoothingQuality = 'high';
-            ctx.drawImage(img, 0, 0, width, height);
-            // High Quality JPEG (0.85) - Good balance for HD display
-            resolve(canvas.toDataURL('image/jpeg', 0.85)); 
-        } else {
-            // Fallback if canvas context fails
-            resolve('');
-        }
-      };
-      
-      img.onerror = () => {
-          console.warn('Failed to load image for processing:', file.name);
-          resolve('');
-      };
-      
-      img.src = e.target?.result as string;
-    };
-    
-    reader.onerror = () => {
-        console.warn('Failed to read file:', file.name);
-        resolve('');
+// Which part of the tree goes into an export
+export interface ExportFilter {
+  include?: (node: FileNode) => boolean; // Everything when omitted
+  deleted: 'omit' | 'stub'; // Stubs keep the node and its flag but no image data
+}
+
+// Includes the given nodes together with everything below them
+export const createSubsetFilter = (nodes: FileNode[]) => {
+  const picked = new Set(nodes);
+  return (node: FileNode) => {
+    for (let current: FileNode | undefined = node; current; current = current.parent) {
+      if (picked.has(current)) return true;
+    }
+    return false;
+  };
+};
+
+const isExportedFile = (node: FileNode, filter: ExportFilter) =>
+  (!filter.include || filter.include(node)) && !(node.isDeleted && filter.deleted === 'omit');
+
+// Images that will actually be encoded; their count is the progress total
+export const collectExportImages = (node: FileNode, filter: ExportFilter, acc: FileNode[] = []): FileNode[] => {
+  if (node.type === 'file') {
+    if (node.file && !node.isDeleted && isExportedFile(node, filter)) acc.push(node);
+  } else {
+    node.children.forEach(child => collectExportImages(child, filter, acc));
+  }
+  return acc;
+};
+
+// Image bytes go into the archive as separate entries; the returned tree only references them.
+// The structure is built up front and every image is handed to the pool, which bounds concurrency.
+export const serializeTree = async (
+  root: FileNode,
+  archive: ZipWriter,
+  options: SerializeOptions & ExportFilter
+): Promise<SerializedNode> => {
+  const { pool, profile, cache, signal, onProgress } = options;
+  const pending: Promise<void>[] = [];
+  let imageCount = 0;
+
+  const exportFile = async (node: FileNode, serialized: SerializedNode) => {
+    const caption = await loadCaption(node).catch(() => undefined);
+    if (caption !== undefined) {
+      serialized.caption = caption;
+      serialized.captionSource = node.captionFile?.name;
+    }
+    if (!node.file || node.isDeleted) return;
+
+    try {
+      signal?.throwIfAborted();
+      let image = cache ? await cache.get(node, profile) : null;
+      if (!image) {
+        image = await pool.encode({ file: node.file, profile, transform: node.transform });
+        await cache?.put(node, profile, image).catch(e => console.warn('Failed to checkpoint', node.name, e));
+      }
+      signal?.throwIfAborted();
+      const extension = EXTENSIONS_BY_TYPE[image.type] || 'bin';
+      serialized.imageRef = `images/${imageCount++}.${extension}`;
+      if (image.type) serialized.mimeType = image.type;
+      if (!isIdentityTransform(node.transform) && !bakesTransform(profile, node.file.type)) serialized.transform = node.transform;
+      await archive.add(serialized.imageRef, image);
+    } catch (e) {
+      if (signal?.aborted || isAbortError(e)) throw e;
+      console.error("Error processing file", node.name, e);
+    }
+    if (onProgress) onProgress();
+  };
+
+  // Folders outside the filter are kept only while they lead to something that is exported
+  const visit = (node: FileNode): SerializedNode | null => {
+    if (node.type === 'file' && !isExportedFile(node, options)) return null;
+
+    const serialized: SerializedNode = {
+      id: node.id,
+      name: node.name,
+      path: node.path,
+      type: node.type,
+      children: [],
+      isDeleted: node.isDeleted
     };
-    
-    reader.readAsDataURL(file);
-  });
+    if (node.tags?.length) serialized.tags = [...node.tags];
+    if (node.rating) serialized.rating = node.rating;
+    if (node.colorLabel) serialized.colorLabel = node.colorLabel;
+    if (node.review) serialized.review = node.review;
+    if (hasMetadata(node.metadata) && !options.profile.stripMetadata) serialized.metadata = node.metadata;
+    if (node.hashes) serialized.hashes = node.hashes;
+    if (node.type === 'file') pending.push(exportFile(node, serialized));
+    serialized.children = node.children.map(visit).filter((child): child is SerializedNode => child !== null);
+
+    const included = !options.include || options.include(node);
+    if (node.type === 'folder' && node !== root && !included && serialized.children.length === 0) return null;
+    return serialized;
+  };
+
+  const serializedRoot = visit(root)!;
+  await Promise.all(pending);
+  return serializedRoot;
 };
 
-export const serializeTree = async (node: FileNode, onProgress?: () => void): Promise<SerializedNode> => {
+// Structure-only serialization used for session autosave: nothing is re-encoded, images are
+// referenced by the OPFS entry they were copied to when the session started
+export const serializeStructure = (node: FileNode): SerializedNode => {
   const serialized: SerializedNode = {
     id: node.id,
     name: node.name,
     path: node.path,
     type: node.type,
-    children: [],
+    children: node.children.map(serializeStructure),
     isDeleted: node.isDeleted
   };
 
-  if (node.type === 'file' && node.file) {
-    try {
-        serialized.thumbnailData = await processImageForExport(node.file);
-    } catch (e) {
-        console.error("Error processing file", node.name, e);
-    }
-    if (onProgress) onProgress();
+  if (node.sessionImageRef) {
+    serialized.imageRef = node.sessionImageRef;
+    serialized.mimeType = node.file?.type;
   }
-
-  if (node.children) {
-    // Process children sequentially to avoid freezing browser with too many parallel canvas ops
-    for (const child of node.children) {
-      serialized.children.push(await serializeTree(child, onProgress));
-    }
+  if (node.caption !== undefined) {
+    serialized.caption = node.caption;
+    serialized.captionSource = node.captionFile?.name;
   }
+  if (node.tags?.length) serialized.tags = [...node.tags];
+  if (node.rating) serialized.rating = node.rating;
+  if (node.colorLabel) serialized.colorLabel = node.colorLabel;
+  if (node.review) serialized.review = node.review;
+  if (node.metadata) serialized.metadata = node.metadata;
+  if (!isIdentityTransform(node.transform)) serialized.transform = node.transform;
+  if (node.hashes) serialized.hashes = node.hashes;
+  if (node.width !== undefined && node.height !== undefined) [serialized.width, serialized.height] = [node.width, node.height];
 
   return serialized;
 };
@@ -173,10 +355,13 @@ const base64ToBlob = (base64: string): Blob => {
   return new Blob([u8arr], { type: mime });
 };
 
+// `images` maps archive entry names to lazy Blob slices of the snapshot file, so building the
+// tree reads no image data; bytes are only pulled in when a preview actually renders.
 export const deserializeTree = (
   node: SerializedNode, 
   allImagesAccumulator: FileNode[], 
-  parent?: FileNode
+  parent?: FileNode,
+  images?: Map<string, Blob>
 ): FileNode => {
   const restoredNode: FileNode = {
     id: node.id,
@@ -188,18 +373,39 @@ export const deserializeTree = (
     isDeleted: node.isDeleted || false
   };
 
-  if (node.type === 'file' && node.thumbnailData) {
-    const blob = base64ToBlob(node.thumbnailData);
-    restoredNode.url = URL.createObjectURL(blob);
+  const blob = node.type !== 'file'
+    ? undefined
+    : node.imageRef
+      ? images?.get(node.imageRef)
+      : node.thumbnailData ? base64ToBlob(node.thumbnailData) : undefined;
+
+  if (blob) {
     // Note: We don't have the original File object anymore, but we have a viewable blob
-    // We create a File object so the UI treats it correctly (though size is the compressed size)
-    restoredNode.file = new File([blob], node.name, { type: blob.type }); 
+    // We create a File object so the UI treats it correctly (though size is the compressed size).
+    // A stable lastModified keeps cached thumbnails valid across imports of the same snapshot.
+    const lastModified = blob instanceof File ? blob.lastModified : 0;
+    restoredNode.file = new File([blob], node.name, { type: blob.type, lastModified });
     allImagesAccumulator.push(restoredNode);
   }
 
+  if (node.type === 'file' && node.caption !== undefined) {
+    restoredNode.caption = node.caption;
+    const captionName = node.captionSource || node.name.replace(/\.[^/.]+$/, '.txt');
+    restoredNode.captionFile = new File([node.caption], captionName, { type: 'text/plain' });
+  }
+
+  if (node.tags?.length) restoredNode.tags = [...node.tags];
+  if (node.rating) restoredNode.rating = node.rating;
+  if (node.colorLabel) restoredNode.colorLabel = node.colorLabel;
+  if (node.review) restoredNode.review = node.review;
+  if (node.metadata) restoredNode.metadata = node.metadata;
+  if (node.transform) restoredNode.transform = { ...node.transform };
+  if (node.hashes) restoredNode.hashes = node.hashes;
+  if (blob && node.width !== undefined && node.height !== undefined) [restoredNode.width, restoredNode.height] = [node.width, node.height];
+
   if (node.children) {
     node.children.forEach(child => {
-      restoredNode.children.push(deserializeTree(child, allImagesAccumulator, restoredNode));
+      restoredNode.children.push(deserializeTree(child, allImagesAccumulator, restoredNode, images));
     });
   }
 
@@ -0,0 +1,14 @@
+import { HashRequest, HashResponse } from '../types';
+import { computeHashes } from './hashing';
+
+// Entry point of the hashing worker: fingerprints one image per message
+self.onmessage = async (event: MessageEvent<HashRequest>) => {
+  const { id, file } = event.data;
+  let response: HashResponse;
+  try {
+    response = { id, hashes: await computeHashes(file) };
+  } catch (e) {
+    response = { id, error: e instanceof Error ? e.message : String(e) };
+  }
+  self.postMessage(response);
+};
@@ -0,0 +1,136 @@
+import { FileNode, HashRequest, HashResponse, ImageHashes } from '../types';
+
+// Images are reduced to this size first, which averages away noise and compression artifacts
+const SAMPLE_SIZE = 32;
+const HASH_COLUMNS = 9;
+const HASH_ROWS = 8;
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+
+const samplePixels = async (file: Blob): Promise<Uint8ClampedArray> => {
+  const bitmap = await createImageBitmap(file, {
+    imageOrientation: 'from-image',
+    resizeWidth: SAMPLE_SIZE,
+    resizeHeight: SAMPLE_SIZE,
+    resizeQuality: 'high',
+  });
+  try {
+    const canvas = typeof OffscreenCanvas !== 'undefined'
+      ? new OffscreenCanvas(SAMPLE_SIZE, SAMPLE_SIZE)
+      : Object.assign(document.createElement('canvas'), { width: SAMPLE_SIZE, height: SAMPLE_SIZE });
+    const ctx = canvas.getContext('2d', { willReadFrequently: true }) as OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D | null;
+    if (!ctx) throw new Error('2D canvas is not available');
+    // Transparent areas count as white, like in the flattened exports
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, SAMPLE_SIZE, SAMPLE_SIZE);
+    ctx.drawImage(bitmap, 0, 0);
+    return ctx.getImageData(0, 0, SAMPLE_SIZE, SAMPLE_SIZE).data;
+  } finally {
+    bitmap.close();
+  }
+};
+
+// Difference hash: each bit says whether a cell of a 9x8 grayscale version is darker than its
+// right neighbour. Resizing, re-encoding and small edits flip only a few bits.
+const differenceHash = (pixels: Uint8ClampedArray) => {
+  const sums = new Float64Array(HASH_COLUMNS * HASH_ROWS);
+  const counts = new Uint16Array(HASH_COLUMNS * HASH_ROWS);
+  for (let y = 0; y < SAMPLE_SIZE; y++) {
+    for (let x = 0; x < SAMPLE_SIZE; x++) {
+      const i = (y * SAMPLE_SIZE + x) * 4;
+      const cell = Math.floor((y * HASH_ROWS) / SAMPLE_SIZE) * HASH_COLUMNS + Math.floor((x * HASH_COLUMNS) / SAMPLE_SIZE);
+      sums[cell] += 0.299 * pixels[i] + 0.587 * pixels[i + 1] + 0.114 * pixels[i + 2];
+      counts[cell]++;
+    }
+  }
+
+  let hex = '';
+  for (let row = 0; row < HASH_ROWS; row++) {
+    let byte = 0;
+    for (let column = 0; column < HASH_COLUMNS - 1; column++) {
+      const cell = row * HASH_COLUMNS + column;
+      const darker = sums[cell] / counts[cell] < sums[cell + 1] / counts[cell + 1];
+      byte = (byte << 1) | (darker ? 1 : 0);
+    }
+    hex += byte.toString(16).padStart(2, '0');
+  }
+  return hex;
+};
+
+// Works in a worker and on the main thread, like the thumbnail encoder
+export const computeHashes = async (file: Blob): Promise<ImageHashes> => {
+  const sha256 = toHex(await crypto.subtle.digest('SHA-256', await file.arrayBuffer()));
+  const dhash = differenceHash(await samplePixels(file));
+  return { sha256, dhash };
+};
+
+const canUseWorker = () => typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined';
+
+// One worker hashes one image at a time; reading and decoding is what takes the time, so more
+// workers would mostly compete for memory
+const createHasher = () => {
+  if (!canUseWorker()) return { hash: computeHashes, terminate: () => {} };
+
+  const pending = new Map<number, { resolve: (hashes: ImageHashes) => void; reject: (error: Error) => void }>();
+  let worker: Worker | null = null;
+  let nextId = 0;
+
+  const spawn = () => {
+    const spawned = new Worker(new URL('./hashWorker.ts', import.meta.url), { type: 'module' });
+    spawned.onmessage = (event: MessageEvent<HashResponse>) => {
+      const job = pending.get(event.data.id);
+      pending.delete(event.data.id);
+      if (!job) return;
+      if ('error' in event.data) job.reject(new Error(event.data.error));
+      else job.resolve(event.data.hashes);
+    };
+    spawned.onerror = (event) => {
+      // A crashed worker (usually out of memory on a huge image) fails its image; the next one gets a fresh worker
+      event.preventDefault();
+      pending.forEach(job => job.reject(new Error(event.message || 'Hashing worker crashed')));
+      pending.clear();
+      spawned.terminate();
+      worker = null;
+    };
+    return spawned;
+  };
+
+  return {
+    hash: (file: Blob) => new Promise<ImageHashes>((resolve, reject) => {
+      const id = nextId++;
+      pending.set(id, { resolve, reject });
+      const request: HashRequest = { id, file };
+      worker = worker || spawn();
+      worker.postMessage(request);
+    }),
+    terminate: () => worker?.terminate(),
+  };
+};
+
+// Hashes every image that has no hashes yet. Images that fail to decode are skipped and
+// simply never show up as duplicates.
+export const loadHashes = async (
+  nodes: FileNode[],
+  onProgress?: (done: number, total: number) => void,
+  signal?: AbortSignal
+): Promise<void> => {
+  const todo = nodes.filter(node => node.file && !node.hashes);
+  if (todo.length === 0) return;
+
+  const hasher = createHasher();
+  try {
+    for (let i = 0; i < todo.length; i++) {
+      if (signal?.aborted) return;
+      const node = todo[i];
+      try {
+        node.hashes = await hasher.hash(node.file!);
+      } catch (e) {
+        console.warn('Failed to hash', node.name, e);
+      }
+      onProgress?.(i + 1, todo.length);
+    }
+  } finally {
+    hasher.terminate();
+  }
+};
@@ -0,0 +1,148 @@
+import { useEffect, useRef, useState } from 'react';
+import { ExportProfile, FileNode } from '../types';
+import { createThumbnailPool, ImageCache, isAbortError, openImageCache, ThumbnailPool } from './exportPool';
+
+// Small enough to decode quickly, large enough for the widest grid column on a HiDPI screen
+export const GRID_THUMBNAIL_PROFILE: ExportProfile = {
+  id: 'grid-thumbnail',
+  name: 'Grid thumbnail',
+  edge: 'short',
+  maxEdge: 384,
+  format: 'image/webp',
+  quality: 0.75,
+  keepAlpha: true,
+  stripMetadata: true,
+};
+
+const THUMBNAIL_CACHE_DIR = 'thumbnail-cache';
+
+// --- Full-size object URLs ---
+// Created when something on screen needs the original and revoked when the last user lets go,
+// so a library of 100k images only holds URLs for what is actually displayed.
+
+const urlUsers = new Map<FileNode, number>();
+
+export const acquireImageUrl = (node: FileNode): string | undefined => {
+  if (!node.file) return node.url;
+  if (!node.url) node.url = URL.createObjectURL(node.file);
+  urlUsers.set(node, (urlUsers.get(node) || 0) + 1);
+  return node.url;
+};
+
+export const releaseImageUrl = (node: FileNode) => {
+  const users = (urlUsers.get(node) || 0) - 1;
+  if (users > 0) {
+    urlUsers.set(node, users);
+    return;
+  }
+  revokeImageUrl(node);
+};
+
+// Drops the URL whatever still uses it, for nodes that leave the workspace
+export const revokeImageUrl = (node: FileNode) => {
+  urlUsers.delete(node);
+  if (node.url && node.url.startsWith('blob:')) URL.revokeObjectURL(node.url);
+  node.url = undefined;
+};
+
+// --- Grid thumbnails ---
+
+let pool: ThumbnailPool | null = null;
+let cachePromise: Promise<ImageCache | null> | null = null;
+
+// Generated once per file in the shared worker pool, then served from OPFS on every later visit
+export const loadGridThumbnail = async (node: FileNode, signal?: AbortSignal): Promise<Blob> => {
+  if (!node.file) throw new Error('Node has no image data');
+  if (!cachePromise) cachePromise = openImageCache(THUMBNAIL_CACHE_DIR);
+  const cache = await cachePromise;
+
+  const cached = await cache?.get(node, GRID_THUMBNAIL_PROFILE);
+  if (cached) return cached;
+
+  if (!pool) pool = createThumbnailPool();
+  const blob = await pool.encode({ file: node.file, profile: GRID_THUMBNAIL_PROFILE, transform: node.transform }, signal);
+  await cache?.put(node, GRID_THUMBNAIL_PROFILE, blob).catch(e => console.warn('Failed to cache thumbnail', node.name, e));
+  return blob;
+};
+
+// --- Hooks ---
+
+// URL of the full-size original while the component is mounted
+export const useImageUrl = (node: FileNode | null): string | undefined => {
+  const [url, setUrl] = useState<string | undefined>();
+
+  useEffect(() => {
+    if (!node) {
+      setUrl(undefined);
+      return;
+    }
+    setUrl(acquireImageUrl(node));
+    return () => releaseImageUrl(node);
+  }, [node]);
+
+  return url;
+};
+
+// Holds and decodes the originals of `nodes`, so whichever of them is shown next appears at once.
+// The new set is acquired before the old one is released: an image in both keeps its URL, and the
+// browser its decoded copy.
+export const usePreloadedImages = (nodes: FileNode[]) => {
+  const held = useRef<{ node: FileNode; image: HTMLImageElement }[]>([]);
+  const key = nodes.map(node => node.id).join('\n'); // A new array of the same nodes changes nothing
+
+  useEffect(() => {
+    const next = nodes.flatMap(node => {
+      const url = acquireImageUrl(node);
+      if (!url) return [];
+      const image = held.current.find(entry => entry.node === node)?.image || new Image();
+      if (image.src !== url) {
+        image.src = url;
+        image.decode().catch(() => {}); // A broken file reports its error once it is opened
+      }
+      return [{ node, image }];
+    });
+    held.current.forEach(entry => releaseImageUrl(entry.node));
+    held.current = next;
+  }, [key]);
+
+  useEffect(() => () => {
+    held.current.forEach(entry => releaseImageUrl(entry.node));
+    held.current = [];
+  }, []);
+};
+
+// URL of the cached grid thumbnail; falls back to the original if the thumbnail cannot be made
+export const useGridThumbnail = (node: FileNode): string | undefined => {
+  const [url, setUrl] = useState<string | undefined>();
+
+  useEffect(() => {
+    if (!node.file) return;
+    const controller = new AbortController();
+    let thumbnailUrl: string | undefined;
+    let usesOriginal = false;
+
+    loadGridThumbnail(node, controller.signal)
+      .then(blob => {
+        if (controller.signal.aborted) return;
+        thumbnailUrl = URL.createObjectURL(blob);
+        setUrl(thumbnailUrl);
+      })
+      .catch(e => {
+        if (controller.signal.aborted || isAbortError(e)) return;
+        console.warn('Thumbnail failed, showing the original', node.name, e);
+        usesOriginal = true;
+        setUrl(acquireImageUrl(node));
+      });
+
+    return () => {
+      // Scrolled out of view: skip the encode if it has not started and free the URL
+      controller.abort();
+      if (thumbnailUrl) URL.revokeObjectURL(thumbnailUrl);
+      if (usesOriginal) releaseImageUrl(node);
+      setUrl(undefined);
+    };
+    // A rotate or flip is baked into the thumbnail, so it needs a new one
+  }, [node, node.transform]);
+
+  return url;
+};
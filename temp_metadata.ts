@@ -0,0 +1,495 @@
+import { FileNode, ImageMetadata } from '../types';
+import { swapsAxes } from './orientation';
+
+// Pure-TypeScript reader for the metadata blocks of JPEG, PNG and WebP files: EXIF (TIFF IFDs),
+// XMP packets, IPTC records inside Photoshop APP13, and PNG text chunks. Only headers and
+// metadata segments are read, never the image data, so it is cheap enough to run at import.
+
+export interface ImageHeader {
+  metadata: ImageMetadata;
+  width?: number; // As displayed, i.e. with the EXIF orientation applied
+  height?: number;
+}
+
+// Bytes read up front; segments beyond this are fetched individually
+const PREFIX_BYTES = 64 * 1024;
+// Generation workflows can be huge; longer text values are cut
+const MAX_TEXT_LENGTH = 32 * 1024;
+
+// --- Byte access ---
+
+interface ByteReader {
+  size: number;
+  read(start: number, length: number): Promise<Uint8Array>;
+}
+
+const createByteReader = async (file: Blob): Promise<ByteReader> => {
+  const prefix = new Uint8Array(await file.slice(0, PREFIX_BYTES).arrayBuffer());
+  return {
+    size: file.size,
+    read: async (start, length) => {
+      const end = Math.min(start + length, file.size);
+      if (end <= prefix.length) return prefix.subarray(start, end);
+      return new Uint8Array(await file.slice(start, end).arrayBuffer());
+    },
+  };
+};
+
+const latin1 = new TextDecoder('latin1');
+const utf8 = new TextDecoder('utf-8');
+
+const ascii = (bytes: Uint8Array, start: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(start, start + length));
+
+const startsWith = (bytes: Uint8Array, text: string) => ascii(bytes, 0, text.length) === text;
+
+const clean = (text: string) => text.replace(/\0+$/, '').trim();
+
+const capText = (text: string) => (text.length > MAX_TEXT_LENGTH ? `${text.slice(0, MAX_TEXT_LENGTH)}…` : text);
+
+// First value wins: EXIF is read before XMP and IPTC, which only fill the gaps
+const assign = <K extends keyof ImageMetadata>(metadata: ImageMetadata, key: K, value: ImageMetadata[K] | undefined) => {
+  if (value === undefined || value === '' || metadata[key] !== undefined) return;
+  metadata[key] = value;
+};
+
+const addKeywords = (metadata: ImageMetadata, keywords: string[]) => {
+  const merged = new Set([...(metadata.keywords || []), ...keywords.map(k => k.trim()).filter(Boolean)]);
+  if (merged.size > 0) metadata.keywords = Array.from(merged);
+};
+
+const addText = (metadata: ImageMetadata, key: string, value: string) => {
+  if (!value.trim()) return;
+  metadata.text = { ...metadata.text, [key]: capText(value) };
+};
+
+// EXIF and IPTC write "2024:03:09 14:05:00"; ISO 8601 is easier to sort and parse
+const exifDate = (value: string | undefined) => {
+  const match = value && /^(\d{4})[:-](\d{2})[:-](\d{2})(?:[ T](\d{2}):(\d{2}):?(\d{2})?)?/.exec(value);
+  if (!match || match[1] === '0000') return undefined;
+  const [, year, month, day, hour = '00', minute = '00', second = '00'] = match;
+  return `${year}-${month}-${day}T${hour}:${minute}:${second}`;
+};
+
+// --- EXIF (TIFF structure) ---
+
+type TiffValue = string | number[] | Uint8Array;
+
+const TIFF_TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+const TAG = {
+  imageDescription: 0x010e,
+  make: 0x010f,
+  model: 0x0110,
+  orientation: 0x0112,
+  software: 0x0131,
+  dateTime: 0x0132,
+  artist: 0x013b,
+  copyright: 0x8298,
+  exifIfd: 0x8769,
+  gpsIfd: 0x8825,
+  exposureTime: 0x829a,
+  fNumber: 0x829d,
+  iso: 0x8827,
+  dateTimeOriginal: 0x9003,
+  focalLength: 0x920a,
+  userComment: 0x9286,
+  lensMake: 0xa433,
+  lensModel: 0xa434,
+} as const;
+
+const GPS_TAG = { latitudeRef: 1, latitude: 2, longitudeRef: 3, longitude: 4, altitudeRef: 5, altitude: 6 } as const;
+
+// UserComment starts with an 8-byte charset id; Stable Diffusion front-ends store their
+// generation parameters here in JPEG and WebP files
+const decodeUserComment = (bytes: Uint8Array, littleEndian: boolean) => {
+  const charset = ascii(bytes, 0, 8).replace(/\0+$/, '');
+  const body = bytes.subarray(8);
+  if (charset === 'UNICODE') return new TextDecoder(littleEndian ? 'utf-16le' : 'utf-16be').decode(body);
+  return (charset === 'ASCII' ? latin1 : utf8).decode(body);
+};
+
+const readTiff = (bytes: Uint8Array, metadata: ImageMetadata) => {
+  if (bytes.length < 8) return;
+  const littleEndian = bytes[0] === 0x49 && bytes[1] === 0x49;
+  if (!littleEndian && !(bytes[0] === 0x4d && bytes[1] === 0x4d)) return;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const u16 = (offset: number) => view.getUint16(offset, littleEndian);
+  const u32 = (offset: number) => view.getUint32(offset, littleEndian);
+
+  const readValue = (type: number, offset: number, count: number): TiffValue => {
+    switch (type) {
+      case 2: return clean(latin1.decode(bytes.subarray(offset, offset + count)));
+      case 1: case 7: return bytes.subarray(offset, offset + count);
+      case 3: return Array.from({ length: count }, (_, i) => u16(offset + i * 2));
+      case 4: return Array.from({ length: count }, (_, i) => u32(offset + i * 4));
+      case 9: return Array.from({ length: count }, (_, i) => view.getInt32(offset + i * 4, littleEndian));
+      case 5: return Array.from({ length: count }, (_, i) => u32(offset + i * 8) / (u32(offset + i * 8 + 4) || 1));
+      default: return Array.from({ length: count }, (_, i) =>
+        view.getInt32(offset + i * 8, littleEndian) / (view.getInt32(offset + i * 8 + 4, littleEndian) || 1));
+    }
+  };
+
+  const readIfd = (offset: number) => {
+    const entries = new Map<number, TiffValue>();
+    if (offset <= 0 || offset + 2 > bytes.length) return entries;
+    const count = u16(offset);
+    for (let i = 0; i < count; i++) {
+      const entry = offset + 2 + i * 12;
+      if (entry + 12 > bytes.length) break;
+      const type = u16(entry + 2);
+      const valueCount = u32(entry + 4);
+      const size = TIFF_TYPE_SIZES[type];
+      if (!size) continue;
+      const valueOffset = size * valueCount <= 4 ? entry + 8 : u32(entry + 8);
+      if (valueOffset + size * valueCount > bytes.length) continue;
+      entries.set(u16(entry), readValue(type, valueOffset, valueCount));
+    }
+    return entries;
+  };
+
+  const text = (entries: Map<number, TiffValue>, tag: number) => {
+    const value = entries.get(tag);
+    return typeof value === 'string' && value ? value : undefined;
+  };
+  const number = (entries: Map<number, TiffValue>, tag: number) => {
+    const value = entries.get(tag);
+    return Array.isArray(value) && Number.isFinite(value[0]) ? value[0] : undefined;
+  };
+
+  const ifd0 = readIfd(u32(4));
+  const exif = readIfd(number(ifd0, TAG.exifIfd) || 0);
+  const gps = readIfd(number(ifd0, TAG.gpsIfd) || 0);
+
+  const make = text(ifd0, TAG.make);
+  const model = text(ifd0, TAG.model);
+  // Many models already start with the make ("Canon Canon EOS R5" otherwise)
+  assign(metadata, 'camera', make && model && !model.toLowerCase().startsWith(make.toLowerCase().split(' ')[0])
+    ? `${make} ${model}`
+    : model || make);
+  const lensMake = text(exif, TAG.lensMake);
+  const lensModel = text(exif, TAG.lensModel);
+  assign(metadata, 'lens', lensMake && lensModel && !lensModel.startsWith(lensMake) ? `${lensMake} ${lensModel}` : lensModel);
+  assign(metadata, 'capturedAt', exifDate(text(exif, TAG.dateTimeOriginal) || text(ifd0, TAG.dateTime)));
+  assign(metadata, 'orientation', number(ifd0, TAG.orientation));
+  assign(metadata, 'software', text(ifd0, TAG.software));
+  assign(metadata, 'description', text(ifd0, TAG.imageDescription));
+  assign(metadata, 'creator', text(ifd0, TAG.artist));
+  assign(metadata, 'copyright', text(ifd0, TAG.copyright));
+
+  const exposure: NonNullable<ImageMetadata['exposure']> = {};
+  const exposureTime = number(exif, TAG.exposureTime);
+  const fNumber = number(exif, TAG.fNumber);
+  const iso = number(exif, TAG.iso);
+  const focalLength = number(exif, TAG.focalLength);
+  if (exposureTime) exposure.exposureTime = exposureTime;
+  if (fNumber) exposure.fNumber = fNumber;
+  if (iso) exposure.iso = iso;
+  if (focalLength) exposure.focalLength = focalLength;
+  if (Object.keys(exposure).length > 0) assign(metadata, 'exposure', exposure);
+
+  const comment = exif.get(TAG.userComment);
+  if (comment instanceof Uint8Array && comment.length > 8) {
+    const decoded = clean(decodeUserComment(comment, littleEndian));
+    if (decoded) addText(metadata, 'UserComment', decoded);
+  }
+
+  const coordinate = (tag: number, refTag: number, negativeRef: string) => {
+    const value = gps.get(tag);
+    if (!Array.isArray(value) || value.length < 3) return undefined;
+    const degrees = value[0] + value[1] / 60 + value[2] / 3600;
+    return text(gps, refTag) === negativeRef ? -degrees : degrees;
+  };
+  const latitude = coordinate(GPS_TAG.latitude, GPS_TAG.latitudeRef, 'S');
+  const longitude = coordinate(GPS_TAG.longitude, GPS_TAG.longitudeRef, 'W');
+  if (latitude !== undefined && longitude !== undefined && (latitude !== 0 || longitude !== 0)) {
+    const altitude = number(gps, GPS_TAG.altitude);
+    const altitudeRef = gps.get(GPS_TAG.altitudeRef);
+    const belowSeaLevel = altitudeRef instanceof Uint8Array && altitudeRef[0] === 1;
+    assign(metadata, 'gps', {
+      latitude,
+      longitude,
+      ...(altitude !== undefined ? { altitude: belowSeaLevel ? -altitude : altitude } : {}),
+    });
+  }
+};
+
+// --- XMP ---
+
+const decodeXml = (text: string) => text
+  .replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&apos;/g, "'")
+  .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+  .replace(/&amp;/g, '&');
+
+const xmpList = (xml: string, tag: string) => {
+  const block = new RegExp(`<${tag}[^>]*>([\\s\\S]*?)</${tag}>`).exec(xml);
+  if (!block) return [];
+  return Array.from(block[1].matchAll(/<rdf:li[^>]*>([\s\S]*?)<\/rdf:li>/g), match => decodeXml(match[1]).trim()).filter(Boolean);
+};
+
+// Properties appear either as attributes of rdf:Description or as elements, possibly wrapping an rdf:Alt/Seq
+const xmpValue = (xml: string, tag: string) => {
+  const attribute = new RegExp(`${tag}="([^"]*)"`).exec(xml);
+  if (attribute) return decodeXml(attribute[1]).trim() || undefined;
+  const list = xmpList(xml, tag);
+  if (list.length > 0) return list[0];
+  const element = new RegExp(`<${tag}>([^<]*)</${tag}>`).exec(xml);
+  return element ? decodeXml(element[1]).trim() || undefined : undefined;
+};
+
+const readXmp = (xml: string, metadata: ImageMetadata) => {
+  addKeywords(metadata, xmpList(xml, 'dc:subject'));
+  assign(metadata, 'title', xmpValue(xml, 'dc:title'));
+  assign(metadata, 'description', xmpValue(xml, 'dc:description'));
+  assign(metadata, 'creator', xmpValue(xml, 'dc:creator'));
+  assign(metadata, 'copyright', xmpValue(xml, 'dc:rights'));
+  assign(metadata, 'lens', xmpValue(xml, 'aux:Lens') || xmpValue(xml, 'exifEX:LensModel'));
+  assign(metadata, 'software', xmpValue(xml, 'xmp:CreatorTool'));
+  const created = xmpValue(xml, 'exif:DateTimeOriginal') || xmpValue(xml, 'photoshop:DateCreated') || xmpValue(xml, 'xmp:CreateDate');
+  assign(metadata, 'capturedAt', created ? exifDate(created) : undefined);
+  const rating = Number(xmpValue(xml, 'xmp:Rating'));
+  if (Number.isInteger(rating) && rating > 0) assign(metadata, 'rating', Math.min(rating, 5));
+};
+
+// --- IPTC (inside Photoshop image resources) ---
+
+const IPTC_RESOURCE_ID = 0x0404;
+
+const readIptc = (bytes: Uint8Array, metadata: ImageMetadata) => {
+  const keywords: string[] = [];
+  let date: string | undefined;
+  let offset = 0;
+  while (offset + 5 <= bytes.length && bytes[offset] === 0x1c) {
+    const record = bytes[offset + 1];
+    const dataset = bytes[offset + 2];
+    const length = (bytes[offset + 3] << 8) | bytes[offset + 4];
+    // Extended datasets (high bit set) are not used by the fields we read
+    if (length & 0x8000) break;
+    const value = utf8.decode(bytes.subarray(offset + 5, offset + 5 + length)).trim();
+    if (record === 2) {
+      if (dataset === 25) keywords.push(value);
+      else if (dataset === 5) assign(metadata, 'title', value);
+      else if (dataset === 120) assign(metadata, 'description', value);
+      else if (dataset === 80) assign(metadata, 'creator', value);
+      else if (dataset === 116) assign(metadata, 'copyright', value);
+      else if (dataset === 55 && /^\d{8}$/.test(value)) date = `${value.slice(0, 4)}:${value.slice(4, 6)}:${value.slice(6, 8)}`;
+    }
+    offset += 5 + length;
+  }
+  addKeywords(metadata, keywords);
+  assign(metadata, 'capturedAt', exifDate(date));
+};
+
+const readPhotoshopResources = (bytes: Uint8Array, metadata: ImageMetadata) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 0;
+  while (offset + 12 <= bytes.length && ascii(bytes, offset, 4) === '8BIM') {
+    const id = view.getUint16(offset + 4);
+    const nameLength = bytes[offset + 6];
+    const nameEnd = offset + 6 + 1 + nameLength;
+    const sizeOffset = nameEnd + (nameEnd - offset) % 2; // Pascal name is padded to an even length
+    if (sizeOffset + 4 > bytes.length) break;
+    const size = view.getUint32(sizeOffset);
+    const data = bytes.subarray(sizeOffset + 4, sizeOffset + 4 + size);
+    if (id === IPTC_RESOURCE_ID) readIptc(data, metadata);
+    offset = sizeOffset + 4 + size + (size % 2);
+  }
+};
+
+// --- Containers ---
+
+const EXIF_HEADER = 'Exif\0\0';
+const XMP_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+const PHOTOSHOP_HEADER = 'Photoshop 3.0\0';
+
+const readJpeg = async (reader: ByteReader, header: ImageHeader) => {
+  let offset = 2;
+  while (offset + 4 <= reader.size) {
+    const marker = await reader.read(offset, 4);
+    if (marker[0] !== 0xff) break;
+    const type = marker[1];
+    // Fill bytes and standalone markers carry no length
+    if (type === 0xff) {
+      offset++;
+      continue;
+    }
+    if (type === 0xd8 || (type >= 0xd0 && type <= 0xd7) || type === 0x01) {
+      offset += 2;
+      continue;
+    }
+    // Start of scan: entropy-coded data follows, no more metadata segments
+    if (type === 0xda || type === 0xd9) break;
+
+    const length = (marker[2] << 8) | marker[3];
+    const dataStart = offset + 4;
+    if (type === 0xe1 || type === 0xed) {
+      const data = await reader.read(dataStart, length - 2);
+      if (startsWith(data, EXIF_HEADER)) readTiff(data.subarray(EXIF_HEADER.length), header.metadata);
+      else if (startsWith(data, XMP_HEADER)) readXmp(utf8.decode(data.subarray(XMP_HEADER.length)), header.metadata);
+      else if (startsWith(data, PHOTOSHOP_HEADER)) readPhotoshopResources(data.subarray(PHOTOSHOP_HEADER.length), header.metadata);
+    } else if (type >= 0xc0 && type <= 0xcf && type !== 0xc4 && type !== 0xc8 && type !== 0xcc) {
+      // Start of frame: precision, then height and width
+      const frame = await reader.read(dataStart, 5);
+      header.height = (frame[1] << 8) | frame[2];
+      header.width = (frame[3] << 8) | frame[4];
+    }
+    offset = dataStart + length - 2;
+  }
+};
+
+const inflate = async (bytes: Uint8Array) => {
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const PNG_SIGNATURE_LENGTH = 8;
+const XMP_PNG_KEYWORD = 'XML:com.adobe.xmp';
+
+// tEXt, zTXt and iTXt: a Latin-1 keyword terminated by a NUL, then the (possibly compressed) text
+const readPngText = async (type: string, data: Uint8Array, metadata: ImageMetadata) => {
+  const keywordEnd = data.indexOf(0);
+  if (keywordEnd <= 0) return;
+  const keyword = latin1.decode(data.subarray(0, keywordEnd));
+  let text: string;
+
+  if (type === 'tEXt') {
+    text = latin1.decode(data.subarray(keywordEnd + 1));
+  } else if (type === 'zTXt') {
+    text = latin1.decode(await inflate(data.subarray(keywordEnd + 2)));
+  } else {
+    const compressed = data[keywordEnd + 1] === 1;
+    const languageEnd = data.indexOf(0, keywordEnd + 3);
+    const translatedEnd = languageEnd === -1 ? -1 : data.indexOf(0, languageEnd + 1);
+    if (translatedEnd === -1) return;
+    const body = data.subarray(translatedEnd + 1);
+    text = utf8.decode(compressed ? await inflate(body) : body);
+  }
+
+  if (keyword === XMP_PNG_KEYWORD) {
+    readXmp(text, metadata);
+    return;
+  }
+  addText(metadata, keyword, text);
+  if (keyword === 'Software') assign(metadata, 'software', text.trim());
+  if (keyword === 'Title') assign(metadata, 'title', text.trim());
+  if (keyword === 'Description') assign(metadata, 'description', text.trim());
+  if (keyword === 'Author') assign(metadata, 'creator', text.trim());
+  if (keyword === 'Copyright') assign(metadata, 'copyright', text.trim());
+};
+
+const readPng = async (reader: ByteReader, header: ImageHeader) => {
+  let offset = PNG_SIGNATURE_LENGTH;
+  while (offset + 12 <= reader.size) {
+    const chunk = await reader.read(offset, 8);
+    const length = new DataView(chunk.buffer, chunk.byteOffset, 8).getUint32(0);
+    const type = ascii(chunk, 4, 4);
+    // Text written after the image data is rare and would mean reading the whole file
+    if (type === 'IDAT' || type === 'IEND') break;
+
+    if (type === 'IHDR') {
+      const data = await reader.read(offset + 8, 8);
+      const view = new DataView(data.buffer, data.byteOffset, 8);
+      header.width = view.getUint32(0);
+      header.height = view.getUint32(4);
+    } else if (type === 'tEXt' || type === 'zTXt' || type === 'iTXt') {
+      try {
+        await readPngText(type, await reader.read(offset + 8, length), header.metadata);
+      } catch (e) {
+        console.warn('Skipping unreadable PNG text chunk', e);
+      }
+    } else if (type === 'eXIf') {
+      readTiff(await reader.read(offset + 8, length), header.metadata);
+    }
+    offset += 12 + length;
+  }
+};
+
+// Metadata chunks of WebP files come after the image data, so chunks are walked by seeking
+const readWebp = async (reader: ByteReader, header: ImageHeader) => {
+  let offset = 12;
+  while (offset + 8 <= reader.size) {
+    const chunk = await reader.read(offset, 8);
+    const type = ascii(chunk, 0, 4);
+    const size = new DataView(chunk.buffer, chunk.byteOffset, 8).getUint32(4, true);
+    const dataStart = offset + 8;
+
+    if (type === 'VP8X') {
+      const data = await reader.read(dataStart, 10);
+      header.width = 1 + (data[4] | (data[5] << 8) | (data[6] << 16));
+      header.height = 1 + (data[7] | (data[8] << 8) | (data[9] << 16));
+    } else if (type === 'VP8 ' && header.width === undefined) {
+      const data = await reader.read(dataStart, 10);
+      header.width = (data[6] | (data[7] << 8)) & 0x3fff;
+      header.height = (data[8] | (data[9] << 8)) & 0x3fff;
+    } else if (type === 'VP8L' && header.width === undefined) {
+      const data = await reader.read(dataStart, 5);
+      header.width = 1 + (((data[2] & 0x3f) << 8) | data[1]);
+      header.height = 1 + (((data[4] & 0x0f) << 10) | (data[3] << 2) | ((data[2] & 0xc0) >> 6));
+    } else if (type === 'EXIF') {
+      const data = await reader.read(dataStart, size);
+      readTiff(startsWith(data, EXIF_HEADER) ? data.subarray(EXIF_HEADER.length) : data, header.metadata);
+    } else if (type === 'XMP ') {
+      readXmp(utf8.decode(await reader.read(dataStart, size)), header.metadata);
+    }
+    offset = dataStart + size + (size % 2);
+  }
+};
+
+// GIF and BMP carry no metadata we read, only their size in a fixed-position header
+const readGif = (signature: Uint8Array, header: ImageHeader) => {
+  header.width = signature[6] | (signature[7] << 8);
+  header.height = signature[8] | (signature[9] << 8);
+};
+
+const readBmp = async (reader: ByteReader, header: ImageHeader) => {
+  const data = await reader.read(18, 8);
+  if (data.length < 8) return;
+  const view = new DataView(data.buffer, data.byteOffset, 8);
+  header.width = Math.abs(view.getInt32(0, true));
+  header.height = Math.abs(view.getInt32(4, true)); // Negative for top-down bitmaps
+};
+
+// Orientations 5-8 rotate by 90 degrees, so the displayed width is the stored height
+const applyOrientation = (header: ImageHeader) => {
+  const orientation = header.metadata.orientation;
+  if (orientation && orientation >= 5 && orientation <= 8 && header.width !== undefined) {
+    [header.width, header.height] = [header.height, header.width];
+  }
+};
+
+export const readImageHeader = async (file: Blob): Promise<ImageHeader> => {
+  const reader = await createByteReader(file);
+  const signature = await reader.read(0, 12);
+  const header: ImageHeader = { metadata: {} };
+
+  if (signature[0] === 0xff && signature[1] === 0xd8) await readJpeg(reader, header);
+  else if (signature[0] === 0x89 && ascii(signature, 1, 3) === 'PNG') await readPng(reader, header);
+  else if (ascii(signature, 0, 4) === 'RIFF' && ascii(signature, 8, 4) === 'WEBP') await readWebp(reader, header);
+  else if (ascii(signature, 0, 4) === 'GIF8') readGif(signature, header);
+  else if (ascii(signature, 0, 2) === 'BM') await readBmp(reader, header);
+
+  applyOrientation(header);
+  return header;
+};
+
+export const hasMetadata = (metadata: ImageMetadata | undefined): metadata is ImageMetadata =>
+  !!metadata && Object.keys(metadata).length > 0;
+
+// Reads every image once, in the background after import. An empty object marks an image that
+// has been read and carries nothing, so it is not read again.
+export const loadMetadata = async (nodes: FileNode[], signal?: AbortSignal): Promise<void> => {
+  for (const node of nodes) {
+    if (signal?.aborted) return;
+    if (!node.file || node.metadata) continue;
+    try {
+      const header = await readImageHeader(node.file);
+      node.metadata = header.metadata;
+      if (node.width === undefined && header.width && header.height) {
+        [node.width, node.height] = swapsAxes(node.transform) ? [header.height, header.width] : [header.width, header.height];
+      }
+    } catch (e) {
+      console.warn('Failed to read metadata for', node.name, e);
+      node.metadata = {};
+    }
+  }
+};
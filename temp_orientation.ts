@@ -0,0 +1,121 @@
+import { ExportProfile, ImageTransform } from '../types';
+
+// Orientation is handled in two layers: the EXIF tag written by the camera, which browsers and
+// createImageBitmap already apply, and the manual transform a user sets on top of it. Both are
+// described the same way: mirror horizontally (optional), then rotate clockwise.
+
+export const IDENTITY_TRANSFORM: ImageTransform = { rotate: 0, flip: false };
+
+export const isIdentityTransform = (transform: ImageTransform | undefined) =>
+  !transform || (transform.rotate === 0 && !transform.flip);
+
+const normalizeRotation = (degrees: number) => (((degrees % 360) + 360) % 360) as ImageTransform['rotate'];
+
+// Rotation and mirror as seen on screen, whatever was applied before
+export const rotateTransform = (transform: ImageTransform | undefined, degrees: number): ImageTransform => {
+  const current = transform || IDENTITY_TRANSFORM;
+  return { rotate: normalizeRotation(current.rotate + degrees), flip: current.flip };
+};
+
+// A mirror after a rotation equals a mirror before the opposite rotation
+export const flipTransform = (transform: ImageTransform | undefined): ImageTransform => {
+  const current = transform || IDENTITY_TRANSFORM;
+  return { rotate: normalizeRotation(-current.rotate), flip: !current.flip };
+};
+
+// Applies `second` after `first`
+const composeTransforms = (first: ImageTransform, second: ImageTransform): ImageTransform => ({
+  rotate: normalizeRotation(second.flip ? second.rotate - first.rotate : second.rotate + first.rotate),
+  flip: first.flip !== second.flip,
+});
+
+// EXIF orientations 1-8 in the same mirror-then-rotate terms
+const ORIENTATIONS: ImageTransform[] = [
+  { rotate: 0, flip: false },
+  { rotate: 0, flip: true },
+  { rotate: 180, flip: false },
+  { rotate: 180, flip: true },
+  { rotate: 270, flip: true },
+  { rotate: 90, flip: false },
+  { rotate: 90, flip: true },
+  { rotate: 270, flip: false },
+];
+
+export const orientationToTransform = (orientation: number | undefined) =>
+  ORIENTATIONS[(orientation || 1) - 1] || IDENTITY_TRANSFORM;
+
+const transformToOrientation = (transform: ImageTransform) =>
+  ORIENTATIONS.findIndex(o => o.rotate === transform.rotate && o.flip === transform.flip) + 1;
+
+// The EXIF orientation that shows the stored pixels the way the user sees them
+export const composeOrientation = (orientation: number | undefined, transform: ImageTransform | undefined) =>
+  transformToOrientation(composeTransforms(orientationToTransform(orientation), transform || IDENTITY_TRANSFORM));
+
+// CSS applies the right-most function first, so this mirrors and then rotates
+export const transformToCss = (transform: ImageTransform | undefined) =>
+  isIdentityTransform(transform) ? undefined : `rotate(${transform!.rotate}deg)${transform!.flip ? ' scaleX(-1)' : ''}`;
+
+export const swapsAxes = (transform: ImageTransform | undefined) => !!transform && transform.rotate % 180 !== 0;
+
+// Re-encoded images get the transform baked into their pixels, and JPEG copies carry it in the
+// orientation tag. Other copies keep their pixels, so the transform has to travel alongside them.
+export const bakesTransform = (profile: ExportProfile, type: string) =>
+  profile.format !== 'original' || type === 'image/jpeg';
+
+// --- JPEG orientation tag ---
+
+const EXIF_HEADER = [0x45, 0x78, 0x69, 0x66, 0, 0]; // "Exif\0\0"
+const ORIENTATION_TAG = 0x0112;
+
+// Offset of the orientation value inside an APP1 Exif payload, or -1
+const findOrientationValue = (bytes: Uint8Array, tiffStart: number, end: number) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const littleEndian = bytes[tiffStart] === 0x49;
+  const ifd = tiffStart + view.getUint32(tiffStart + 4, littleEndian);
+  if (ifd + 2 > end) return -1;
+  const count = view.getUint16(ifd, littleEndian);
+  for (let i = 0; i < count; i++) {
+    const entry = ifd + 2 + i * 12;
+    if (entry + 12 > end) break;
+    if (view.getUint16(entry, littleEndian) === ORIENTATION_TAG) return entry + 8;
+  }
+  return -1;
+};
+
+// Smallest APP1 segment that only says how to orient the image
+const orientationSegment = (orientation: number) => new Uint8Array([
+  0xff, 0xe1, 0x00, 0x22,
+  ...EXIF_HEADER,
+  0x4d, 0x4d, 0x00, 0x2a, 0x00, 0x00, 0x00, 0x08, // Big-endian TIFF header, IFD0 at 8
+  0x00, 0x01, // One entry
+  0x01, 0x12, 0x00, 0x03, 0x00, 0x00, 0x00, 0x01, 0x00, orientation, 0x00, 0x00,
+  0x00, 0x00, 0x00, 0x00, // No next IFD
+]);
+
+// Rewrites the orientation tag in place, or adds a minimal EXIF segment when there is none.
+// Image data is untouched, so this is lossless.
+export const setJpegOrientation = async (file: Blob, orientation: number): Promise<Blob> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) return file;
+
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    if (marker === 0xda) break;
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    const payload = offset + 4;
+    if (marker === 0xe1 && EXIF_HEADER.every((byte, i) => bytes[payload + i] === byte)) {
+      const value = findOrientationValue(bytes, payload + EXIF_HEADER.length, offset + 2 + length);
+      if (value !== -1) {
+        const patched = bytes.slice();
+        const littleEndian = bytes[payload + EXIF_HEADER.length] === 0x49;
+        new DataView(patched.buffer).setUint16(value, orientation, littleEndian);
+        return new Blob([patched], { type: file.type });
+      }
+    }
+    offset += 2 + length;
+  }
+
+  if (orientation === 1) return file;
+  return new Blob([bytes.subarray(0, 2), orientationSegment(orientation), bytes.subarray(2)], { type: file.type });
+};
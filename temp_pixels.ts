@@ -0,0 +1,82 @@
+import { ImageHistogram, ImageTransform } from '../types';
+
+// Pixel reads for the lightbox overlay. Both go through a canvas, which browsers draw with the
+// EXIF orientation applied, matching what the <img> shows before the manual transform.
+
+// Enough pixels for a faithful histogram while staying instant on 50-megapixel files
+const HISTOGRAM_SAMPLE_EDGE = 512;
+
+export const computeHistogram = (image: HTMLImageElement): ImageHistogram | null => {
+  const ratio = Math.min(1, HISTOGRAM_SAMPLE_EDGE / Math.max(image.naturalWidth, image.naturalHeight));
+  const width = Math.max(1, Math.round(image.naturalWidth * ratio));
+  const height = Math.max(1, Math.round(image.naturalHeight * ratio));
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) return null;
+  context.drawImage(image, 0, 0, width, height);
+  const { data } = context.getImageData(0, 0, width, height);
+  const histogram: ImageHistogram = {
+    red: new Uint32Array(256),
+    green: new Uint32Array(256),
+    blue: new Uint32Array(256),
+    luma: new Uint32Array(256),
+  };
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] === 0) continue; // Transparent pixels have no colour to count
+    const [r, g, b] = [data[i], data[i + 1], data[i + 2]];
+    histogram.red[r]++;
+    histogram.green[g]++;
+    histogram.blue[b]++;
+    histogram.luma[Math.round(0.2126 * r + 0.7152 * g + 0.0722 * b)]++;
+  }
+  return histogram;
+};
+
+// SVG path of one channel. Scaled to the tallest inner bin, since clipped shadows or highlights
+// pile up in the end bins and would flatten everything else.
+export const histogramPath = (bins: Uint32Array, width: number, height: number) => {
+  const peak = Math.max(1, ...bins.subarray(1, 255));
+  let path = `M0 ${height}`;
+  bins.forEach((count, i) => {
+    path += ` L${((i / 255) * width).toFixed(1)} ${(height - Math.min(1, count / peak) * height).toFixed(1)}`;
+  });
+  return `${path} L${width} ${height} Z`;
+};
+
+let sampleContext: CanvasRenderingContext2D | null = null;
+
+// Colour of one pixel, read through a 1×1 canvas so the full image is never copied
+export const samplePixel = (image: HTMLImageElement, x: number, y: number): [number, number, number, number] | null => {
+  if (!sampleContext) {
+    const canvas = document.createElement('canvas');
+    canvas.width = 1;
+    canvas.height = 1;
+    sampleContext = canvas.getContext('2d', { willReadFrequently: true });
+  }
+  if (!sampleContext) return null;
+  sampleContext.clearRect(0, 0, 1, 1);
+  sampleContext.drawImage(image, x, y, 1, 1, 0, 0, 1, 1);
+  const [r, g, b, a] = sampleContext.getImageData(0, 0, 1, 1).data;
+  return [r, g, b, a];
+};
+
+// Pixel of the image under a screen point, undoing pan, zoom and the manual transform.
+// `scale` is the lightbox zoom; the element's layout size is the fitted size.
+export const pointToPixel = (
+  image: HTMLImageElement, transform: ImageTransform | undefined, scale: number, clientX: number, clientY: number
+): { x: number; y: number } | null => {
+  const rect = image.getBoundingClientRect();
+  const dx = clientX - (rect.left + rect.width / 2);
+  const dy = clientY - (rect.top + rect.height / 2);
+  // CSS mirrors first and rotates second, so undo the rotation first
+  const radians = ((transform?.rotate || 0) * Math.PI) / 180;
+  let x = dx * Math.cos(radians) + dy * Math.sin(radians);
+  const y = -dx * Math.sin(radians) + dy * Math.cos(radians);
+  if (transform?.flip) x = -x;
+  const u = x / (image.offsetWidth * scale) + 0.5;
+  const v = y / (image.offsetHeight * scale) + 0.5;
+  if (u < 0 || u >= 1 || v < 0 || v >= 1) return null;
+  return { x: Math.floor(u * image.naturalWidth), y: Math.floor(v * image.naturalHeight) };
+};
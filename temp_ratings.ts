@@ -0,0 +1,30 @@
+import { ColorLabel } from '../types';
+
+export const MAX_RATING = 5;
+
+export const isValidRating = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 1 && value <= MAX_RATING;
+
+export const COLOR_LABELS: ColorLabel[] = ['red', 'yellow', 'green', 'blue', 'purple'];
+
+// Swatch classes, written out so Tailwind keeps them
+export const COLOR_LABEL_CLASSES: Record<ColorLabel, string> = {
+  red: 'bg-red-500',
+  yellow: 'bg-yellow-400',
+  green: 'bg-emerald-500',
+  blue: 'bg-sky-500',
+  purple: 'bg-purple-500',
+};
+
+// Lightroom's keys: 0-5 set the rating, 6-9 toggle the first four labels
+export const COLOR_LABEL_KEYS: Partial<Record<ColorLabel, string>> = { red: '6', yellow: '7', green: '8', blue: '9' };
+
+export type ReviewKeyAction = { kind: 'rating'; rating: number | undefined } | { kind: 'label'; label: ColorLabel };
+
+// Shared by the lightbox and the grid so both answer to the same keys
+export const reviewKeyAction = (e: KeyboardEvent): ReviewKeyAction | null => {
+  if (e.ctrlKey || e.metaKey || e.altKey) return null;
+  if (/^[0-5]$/.test(e.key)) return { kind: 'rating', rating: Number(e.key) || undefined };
+  const label = COLOR_LABELS.find(candidate => COLOR_LABEL_KEYS[candidate] === e.key);
+  return label ? { kind: 'label', label } : null;
+};
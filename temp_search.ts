@@ -0,0 +1,244 @@
+import { FileNode, ImageMetadata } from '../types';
+import { hasMetadata } from './metadata';
+import { countWords, estimateTokens, splitCaptionTags } from './captionStats';
+
+// --- Query language ---
+// Clauses are separated by whitespace and must all match. A clause is either free text, which
+// is looked up in names, paths and captions, or `field:value`. Values can be quoted, offer
+// alternatives with `|`, and a leading `-` negates the clause:
+//
+//   path:portraits caption:"red dress" width:<768 deleted:false ext:png|jpg -tag:draft
+//   camera:canon iso:>=3200 keyword:beach meta:"steps: 30" has:gps
+//   ctag:"red dress" tokens:>77 words:<5 -has:sidecar
+//   rating:>=4 label:red|green -has:label
+//   review:keep|unreviewed has:review
+
+type TextField = 'name' | 'path' | 'caption' | 'ext' | 'tag' | 'ctag' | 'label' | 'review' | 'camera' | 'lens' | 'keyword' | 'meta';
+type NumberField = 'width' | 'height' | 'size' | 'iso' | 'tokens' | 'words' | 'rating';
+type HasField = 'caption' | 'sidecar' | 'tags' | 'rating' | 'label' | 'review' | 'metadata' | 'gps';
+
+export type QueryClause =
+  | { kind: 'text'; field: TextField | 'any'; values: string[]; negate: boolean }
+  | { kind: 'number'; field: NumberField; range: NumberRange; negate: boolean }
+  | { kind: 'deleted'; value: boolean; negate: boolean }
+  | { kind: 'has'; value: HasField; negate: boolean };
+
+// Inclusive bounds unless one side is marked exclusive, as `<768` and `>2mb` are
+interface NumberRange {
+  min: number;
+  max: number;
+  exclusive?: 'min' | 'max';
+}
+
+export interface ParsedQuery {
+  clauses: QueryClause[];
+  errors: string[]; // Clauses that could not be understood; they are left out of the match
+}
+
+const TEXT_FIELDS: TextField[] = ['name', 'path', 'caption', 'ext', 'tag', 'ctag', 'label', 'review', 'camera', 'lens', 'keyword', 'meta'];
+const NUMBER_FIELDS: NumberField[] = ['width', 'height', 'size', 'iso', 'tokens', 'words', 'rating'];
+const HAS_FIELDS: HasField[] = ['caption', 'sidecar', 'tags', 'rating', 'label', 'review', 'metadata', 'gps'];
+
+const SIZE_UNITS: Record<string, number> = { '': 1, b: 1, kb: 1024, mb: 1024 ** 2, gb: 1024 ** 3 };
+
+const CLAUSE_PATTERN = /(-?)(?:([a-z]+):)?(?:"([^"]*)"?|(\S+))/gi;
+
+const parseAmount = (text: string, field: NumberField): number | null => {
+  const match = /^(\d+(?:\.\d+)?)([a-z]*)$/i.exec(text);
+  if (!match) return null;
+  const unit = match[2].toLowerCase();
+  const scale = field === 'size' ? SIZE_UNITS[unit] : unit === '' || unit === 'px' ? 1 : undefined;
+  return scale === undefined ? null : parseFloat(match[1]) * scale;
+};
+
+// Accepts `<768`, `<=768`, `>2mb`, `=512`, `512`, and ranges like `512..1024`
+const parseRange = (text: string, field: NumberField): NumberRange | null => {
+  const range = /^(.+)\.\.(.+)$/.exec(text);
+  if (range) {
+    const min = parseAmount(range[1], field);
+    const max = parseAmount(range[2], field);
+    return min === null || max === null ? null : { min, max };
+  }
+
+  const comparison = /^(<=|>=|<|>|=)?(.+)$/.exec(text)!;
+  const amount = parseAmount(comparison[2], field);
+  if (amount === null) return null;
+  switch (comparison[1]) {
+    case '<': return { min: -Infinity, max: amount, exclusive: 'max' };
+    case '<=': return { min: -Infinity, max: amount };
+    case '>': return { min: amount, max: Infinity, exclusive: 'min' };
+    case '>=': return { min: amount, max: Infinity };
+    default: return { min: amount, max: amount };
+  }
+};
+
+const parseBoolean = (text: string): boolean | null => {
+  const value = text.toLowerCase();
+  if (value === 'true' || value === 'yes' || value === '1') return true;
+  if (value === 'false' || value === 'no' || value === '0') return false;
+  return null;
+};
+
+export const parseQuery = (input: string): ParsedQuery => {
+  const clauses: QueryClause[] = [];
+  const errors: string[] = [];
+
+  for (const match of input.matchAll(CLAUSE_PATTERN)) {
+    const [raw, minus, rawField, quoted, bare] = match;
+    const negate = minus === '-';
+    const value = quoted ?? bare ?? '';
+    const field = rawField?.toLowerCase();
+    if (!value && !field) continue;
+
+    if (!field) {
+      clauses.push({ kind: 'text', field: 'any', values: [value.toLowerCase()], negate });
+    } else if ((TEXT_FIELDS as string[]).includes(field)) {
+      const values = value.toLowerCase().split('|').map(v => (field === 'ext' ? v.replace(/^\./, '') : v)).filter(Boolean);
+      if (values.length === 0) errors.push(`"${raw}" needs a value`);
+      else clauses.push({ kind: 'text', field: field as TextField, values, negate });
+    } else if ((NUMBER_FIELDS as string[]).includes(field)) {
+      const range = parseRange(value, field as NumberField);
+      if (range) clauses.push({ kind: 'number', field: field as NumberField, range, negate });
+      else errors.push(`"${raw}" is not a valid ${field === 'size' ? 'size (e.g. <2mb)' : 'number (e.g. >=512)'}`);
+    } else if (field === 'deleted') {
+      const flag = parseBoolean(value);
+      if (flag === null) errors.push(`"${raw}" should be deleted:true or deleted:false`);
+      else clauses.push({ kind: 'deleted', value: flag, negate });
+    } else if (field === 'has') {
+      const what = value.toLowerCase() as HasField;
+      if (HAS_FIELDS.includes(what)) clauses.push({ kind: 'has', value: what, negate });
+      else errors.push(`"${raw}" should be has:${HAS_FIELDS.join(', has:')}`);
+    } else {
+      errors.push(`Unknown field "${rawField}"`);
+    }
+  }
+
+  return { clauses, errors };
+};
+
+// --- Index ---
+// Lower-cased copies of every searchable field, keyed by node. An entry is rebuilt whenever the
+// caption, tags, metadata or path it was made from are replaced, so edits, bulk commands and moves show up
+// in the next search without the app having to notify the index. Soft deletes, ratings, labels and
+// review decisions are read live.
+
+interface IndexEntry {
+  caption: string | undefined; // Sources the entry was built from
+  tags: string[] | undefined;
+  metadata: ImageMetadata | undefined;
+  path: string;
+  text: Record<Exclude<TextField, 'tag' | 'ctag' | 'label' | 'review' | 'keyword'>, string>;
+  tagSet: Set<string>;
+  captionTagSet: Set<string>; // Comma-separated tags within the caption
+  keywordSet: Set<string>;
+  tokens: number | undefined; // Caption length, undefined without a caption
+  words: number | undefined;
+}
+
+// Every free-text metadata value, generation parameters included
+const metadataText = (metadata: ImageMetadata | undefined) => {
+  if (!metadata) return '';
+  const { camera, lens, software, title, description, creator, copyright, keywords, text } = metadata;
+  return [camera, lens, software, title, description, creator, copyright, ...(keywords || []), ...Object.values(text || {})]
+    .filter(Boolean)
+    .join('\n')
+    .toLowerCase();
+};
+
+const index = new WeakMap<FileNode, IndexEntry>();
+
+const buildEntry = (node: FileNode): IndexEntry => {
+  const name = node.name.toLowerCase();
+  const dot = name.lastIndexOf('.');
+  const caption = node.caption?.trim();
+  return {
+    caption: node.caption,
+    tags: node.tags,
+    metadata: node.metadata,
+    path: node.path,
+    text: {
+      name,
+      path: node.path.toLowerCase(),
+      caption: (node.caption || '').toLowerCase(),
+      ext: dot === -1 ? '' : name.slice(dot + 1),
+      camera: (node.metadata?.camera || '').toLowerCase(),
+      lens: (node.metadata?.lens || '').toLowerCase(),
+      meta: metadataText(node.metadata),
+    },
+    tagSet: new Set((node.tags || []).map(tag => tag.toLowerCase())),
+    captionTagSet: new Set(splitCaptionTags(caption || '').map(tag => tag.toLowerCase())),
+    tokens: caption ? estimateTokens(caption) : undefined,
+    words: caption ? countWords(caption) : undefined,
+    keywordSet: new Set((node.metadata?.keywords || []).map(keyword => keyword.toLowerCase())),
+  };
+};
+
+const entryFor = (node: FileNode): IndexEntry => {
+  const entry = index.get(node);
+  if (entry && entry.caption === node.caption && entry.tags === node.tags && entry.metadata === node.metadata && entry.path === node.path) return entry;
+  const fresh = buildEntry(node);
+  index.set(node, fresh);
+  return fresh;
+};
+
+const matchesText = (node: FileNode, entry: IndexEntry, field: TextField | 'any', value: string) => {
+  switch (field) {
+    case 'any': return entry.text.name.includes(value) || entry.text.path.includes(value) || entry.text.caption.includes(value);
+    case 'ext': return entry.text.ext === value;
+    case 'tag': return entry.tagSet.has(value);
+    case 'ctag': return entry.captionTagSet.has(value);
+    case 'label': return node.colorLabel === value;
+    case 'review': return (node.review || 'unreviewed') === value;
+    case 'keyword': return entry.keywordSet.has(value);
+    default: return entry.text[field].includes(value);
+  }
+};
+
+const numberValue = (node: FileNode, entry: IndexEntry, field: NumberField) => {
+  switch (field) {
+    case 'size': return node.file?.size;
+    case 'width': return node.width;
+    case 'height': return node.height;
+    case 'iso': return node.metadata?.exposure?.iso;
+    case 'tokens': return entry.tokens;
+    case 'words': return entry.words;
+    case 'rating': return node.rating || 0; // Unrated counts as 0, so rating:<3 includes it
+  }
+};
+
+const matchesClause = (node: FileNode, entry: IndexEntry, clause: QueryClause): boolean => {
+  switch (clause.kind) {
+    case 'text':
+      return clause.values.some(value => matchesText(node, entry, clause.field, value));
+    case 'number': {
+      // Images whose value is unknown (not decoded yet, no EXIF) never match a number filter
+      const value = numberValue(node, entry, clause.field);
+      const { min, max, exclusive } = clause.range;
+      if (value === undefined) return false;
+      return (exclusive === 'min' ? value > min : value >= min) && (exclusive === 'max' ? value < max : value <= max);
+    }
+    case 'deleted':
+      return !!node.isDeleted === clause.value;
+    case 'has':
+      switch (clause.value) {
+        case 'caption': return !!node.caption?.trim();
+        case 'sidecar': return node.captionFile !== undefined || node.caption !== undefined;
+        case 'tags': return entry.tagSet.size > 0;
+        case 'rating': return !!node.rating;
+        case 'label': return !!node.colorLabel;
+        case 'review': return !!node.review;
+        case 'metadata': return hasMetadata(node.metadata);
+        case 'gps': return !!node.metadata?.gps;
+      }
+  }
+};
+
+// Compiles a parsed query into a predicate over image nodes
+export const compileQuery = (query: ParsedQuery): ((node: FileNode) => boolean) => {
+  const { clauses } = query;
+  return (node: FileNode) => {
+    if (node.type !== 'file') return false;
+    const entry = entryFor(node);
+    return clauses.every(clause => matchesClause(node, entry, clause) !== clause.negate);
+  };
+};
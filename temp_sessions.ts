@@ -0,0 +1,192 @@
+import { DirectoryHandle, FileNode, SerializedNode, SessionSummary, SessionWorkspace, ViewMode } from '../types';
+import { deserializeTree, formatBytes, serializeStructure } from './fileUtils';
+import { EXTENSIONS_BY_TYPE } from './exportProfiles';
+import { findNodeById } from './tree';
+
+// Workspace structure lives in IndexedDB; image bytes are copied into OPFS so a resumed
+// session does not depend on the original folder or snapshot file still being available.
+
+const DB_NAME = 'instant-oss';
+const DB_VERSION = 1;
+const SUMMARY_STORE = 'sessionSummaries';
+const WORKSPACE_STORE = 'sessionWorkspaces';
+const OPFS_SESSIONS_DIR = 'sessions';
+
+export const isSessionStorageSupported = () =>
+  typeof indexedDB !== 'undefined' && typeof navigator.storage?.getDirectory === 'function';
+
+// --- IndexedDB helpers ---
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SUMMARY_STORE)) db.createObjectStore(SUMMARY_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(WORKSPACE_STORE)) db.createObjectStore(WORKSPACE_STORE, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+// --- OPFS helpers ---
+
+const getSessionsDirectory = async (): Promise<DirectoryHandle> => {
+  const root = (await navigator.storage.getDirectory()) as unknown as DirectoryHandle;
+  return root.getDirectoryHandle(OPFS_SESSIONS_DIR, { create: true });
+};
+
+const getSessionDirectory = async (id: string): Promise<DirectoryHandle> =>
+  (await getSessionsDirectory()).getDirectoryHandle(id, { create: true });
+
+// --- Public API ---
+
+export const createSessionId = () => crypto.randomUUID();
+
+export const listSessions = async (): Promise<SessionSummary[]> => {
+  const db = await openDb();
+  const summaries = await requestToPromise<SessionSummary[]>(
+    db.transaction(SUMMARY_STORE, 'readonly').objectStore(SUMMARY_STORE).getAll()
+  );
+  return summaries.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+// Assigns every image an OPFS entry up front so autosaves can reference it before the copy finishes
+export const assignSessionImageRefs = (images: FileNode[]) => {
+  images.forEach((node, index) => {
+    if (node.sessionImageRef) return;
+    const extension = EXTENSIONS_BY_TYPE[node.file?.type || ''] || 'bin';
+    node.sessionImageRef = `${index}.${extension}`;
+  });
+};
+
+// Copies image bytes into the session's OPFS folder. Files are streamed by the browser, nothing is decoded.
+// A writable only replaces the file on close, so an interrupted copy leaves an empty entry behind.
+export const persistSessionImages = async (
+  id: string,
+  images: FileNode[],
+  onProgress?: (done: number) => void
+): Promise<void> => {
+  const needed = images.reduce((sum, node) => sum + (node.file?.size || 0), 0);
+  const { quota, usage } = await navigator.storage.estimate();
+  if (quota !== undefined && usage !== undefined && needed > quota - usage) {
+    throw new Error(`${formatBytes(needed, 0)} needed, ${formatBytes(quota - usage, 0)} free`);
+  }
+
+  const directory = await getSessionDirectory(id);
+  let done = 0;
+  for (const node of images) {
+    if (node.file && node.sessionImageRef) {
+      const handle = await directory.getFileHandle(node.sessionImageRef, { create: true });
+      const writable = await handle.createWritable();
+      await writable.write(node.file);
+      await writable.close();
+    }
+    done++;
+    if (onProgress) onProgress(done);
+  }
+};
+
+export const saveSession = async (
+  summary: Omit<SessionSummary, 'updatedAt'>,
+  root: FileNode,
+  currentNode: FileNode | null,
+  viewMode: ViewMode,
+  query?: string
+): Promise<void> => {
+  const workspace: SessionWorkspace = {
+    id: summary.id,
+    root: serializeStructure(root),
+    currentNodeId: currentNode?.id || null,
+    viewMode,
+    query,
+  };
+
+  const db = await openDb();
+  const transaction = db.transaction([SUMMARY_STORE, WORKSPACE_STORE], 'readwrite');
+  transaction.objectStore(SUMMARY_STORE).put({ ...summary, updatedAt: new Date().toISOString() });
+  transaction.objectStore(WORKSPACE_STORE).put(workspace);
+  await transactionDone(transaction);
+};
+
+// Serialized and restored trees have the same shape, so OPFS refs can be copied across by position.
+// Images whose copy never finished keep their ref too, so the next autosave does not forget them.
+const restoreImageRefs = (serialized: SerializedNode, restored: FileNode) => {
+  if (serialized.imageRef && restored.type === 'file') restored.sessionImageRef = serialized.imageRef;
+  serialized.children.forEach((child, index) => {
+    const restoredChild = restored.children[index];
+    if (restoredChild) restoreImageRefs(child, restoredChild);
+  });
+};
+
+export const loadSession = async (id: string): Promise<{
+  root: FileNode;
+  allImages: FileNode[];
+  currentNode: FileNode;
+  viewMode: ViewMode;
+  query: string;
+}> => {
+  const db = await openDb();
+  const workspace = await requestToPromise<SessionWorkspace | undefined>(
+    db.transaction(WORKSPACE_STORE, 'readonly').objectStore(WORKSPACE_STORE).get(id)
+  );
+  if (!workspace) throw new Error(`Session ${id} not found`);
+
+  // OPFS files are disk-backed, so this only collects handles; bytes load when previews render
+  const directory = await getSessionDirectory(id);
+  const images = new Map<string, Blob>();
+  for await (const entry of directory.values()) {
+    if (entry.kind !== 'file') continue;
+    const file = await entry.getFile();
+    // Empty entries were still being copied when the tab went away; those images come back as stubs
+    if (file.size > 0) images.set(entry.name, file);
+  }
+
+  const allImages: FileNode[] = [];
+  const root = deserializeTree(workspace.root, allImages, undefined, images);
+  restoreImageRefs(workspace.root, root);
+
+  return {
+    root,
+    allImages,
+    currentNode: (workspace.currentNodeId && findNodeById(root, workspace.currentNodeId)) || root,
+    viewMode: workspace.viewMode,
+    query: workspace.query || '',
+  };
+};
+
+export const deleteSession = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const transaction = db.transaction([SUMMARY_STORE, WORKSPACE_STORE], 'readwrite');
+  transaction.objectStore(SUMMARY_STORE).delete(id);
+  transaction.objectStore(WORKSPACE_STORE).delete(id);
+  await transactionDone(transaction);
+
+  try {
+    await (await getSessionsDirectory()).removeEntry(id, { recursive: true });
+  } catch (e) {
+    console.warn('Failed to remove session images', id, e);
+  }
+};
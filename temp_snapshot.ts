@@ -0,0 +1,437 @@
+import { ColorLabel, ExportProfile, FileNode, SerializedNode, SnapshotIssue, SnapshotManifest } from '../types';
+import { ExportFilter, serializeTree } from './fileUtils';
+import { createThumbnailPool, openExportCache } from './exportPool';
+import { DEFAULT_EXPORT_PROFILE } from './exportProfiles';
+import { COLOR_LABELS, isValidRating } from './ratings';
+import { createZipWriter, isZipBlob, readZip, readZipEntry, readZipText, ZipArchive } from './zip';
+
+export const SNAPSHOT_FORMAT = 'instant-oss-snapshot';
+export const SNAPSHOT_VERSION = 2;
+export const MANIFEST_ENTRY = 'manifest.json';
+
+// How many local headers are resolved concurrently when indexing archive images
+const IMAGE_RESOLVE_BATCH = 64;
+
+// How many issues the import alert lists before summarising the rest
+const MAX_REPORTED_ISSUES = 5;
+
+export class SnapshotError extends Error {
+  issues: SnapshotIssue[];
+
+  constructor(message: string, issues: SnapshotIssue[] = []) {
+    super(message);
+    this.name = 'SnapshotError';
+    this.issues = issues;
+  }
+}
+
+export interface LoadedSnapshot {
+  manifest: SnapshotManifest;
+  images: Map<string, Blob>; // imageRef -> lazy slice of the archive
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isStringList = (value: unknown) => Array.isArray(value) && value.every(item => typeof item === 'string');
+
+// Shape check only; unknown fields are tolerated so newer readers can add to the metadata
+const isValidMetadata = (value: unknown) =>
+  isObject(value)
+  && (value.keywords === undefined || isStringList(value.keywords))
+  && (value.text === undefined || (isObject(value.text) && Object.values(value.text).every(text => typeof text === 'string')))
+  && (value.gps === undefined || (isObject(value.gps) && typeof value.gps.latitude === 'number' && typeof value.gps.longitude === 'number'));
+
+const isValidTransform = (value: unknown) =>
+  isObject(value) && typeof value.rotate === 'number' && [0, 90, 180, 270].includes(value.rotate)
+  && typeof value.flip === 'boolean';
+
+const isValidHashes = (value: unknown) =>
+  isObject(value)
+  && typeof value.sha256 === 'string' && /^[0-9a-f]{64}$/.test(value.sha256)
+  && typeof value.dhash === 'string' && /^[0-9a-f]{16}$/.test(value.dhash);
+
+export const createSnapshotManifest = (root: SerializedNode, profile?: ExportProfile): SnapshotManifest => ({
+  format: SNAPSHOT_FORMAT,
+  version: SNAPSHOT_VERSION,
+  createdAt: new Date().toISOString(),
+  ...(profile ? { profile } : {}),
+  root,
+});
+
+export interface ExportOptions {
+  filter?: ExportFilter; // Defaults to the whole tree with deleted images left out
+  profile?: ExportProfile;
+  concurrency?: number;
+  signal?: AbortSignal;
+  onProgress?: () => void;
+}
+
+// Writes the tree as a zip: one raw entry per image plus manifest.json describing the tree.
+// Finished encodes are checkpointed, so a cancelled or crashed export resumes where it stopped.
+export const exportSnapshotArchive = async (root: FileNode, options: ExportOptions = {}): Promise<Blob> => {
+  const { filter = { deleted: 'omit' }, profile = DEFAULT_EXPORT_PROFILE, concurrency, signal, onProgress } = options;
+  const archive = createZipWriter();
+  const pool = createThumbnailPool(concurrency);
+  const cache = await openExportCache();
+  const cancel = () => pool.terminate();
+  signal?.addEventListener('abort', cancel);
+
+  try {
+    const serializedRoot = await serializeTree(root, archive, { ...filter, pool, profile, cache, signal, onProgress });
+    const manifest = JSON.stringify(createSnapshotManifest(serializedRoot, profile));
+    await archive.add(MANIFEST_ENTRY, new Blob([manifest], { type: 'application/json' }));
+    const blob = archive.finish();
+    await cache?.clear().catch(e => console.warn('Failed to clear export checkpoints', e));
+    return blob;
+  } finally {
+    signal?.removeEventListener('abort', cancel);
+    pool.terminate();
+  }
+};
+
+// --- Validation ---
+
+interface ValidationContext {
+  seenIds: Set<string>;
+  availableRefs?: Set<string>; // Entries present in the archive, when validating a zip snapshot
+  issues: SnapshotIssue[];
+}
+
+const validateNode = (node: unknown, location: string, context: ValidationContext) => {
+  const { seenIds, availableRefs, issues } = context;
+  if (!isObject(node)) {
+    issues.push({ nodePath: location, message: 'Node is not an object' });
+    return;
+  }
+
+  // Prefer the human readable path; fall back to the structural location for broken nodes
+  const label = typeof node.path === 'string' && node.path ? node.path : location;
+  const report = (message: string) => issues.push({ nodePath: label, message });
+
+  if (typeof node.id !== 'string' || !node.id) {
+    report("Missing or empty 'id'");
+  } else if (seenIds.has(node.id)) {
+    report(`Duplicate id '${node.id}'`);
+  } else {
+    seenIds.add(node.id);
+  }
+
+  if (typeof node.name !== 'string') report("Missing 'name'");
+  if (typeof node.path !== 'string') report("Missing 'path'");
+  if (node.type !== 'file' && node.type !== 'folder') report(`Unknown node type '${String(node.type)}'`);
+  if (node.isDeleted !== undefined && typeof node.isDeleted !== 'boolean') report("'isDeleted' must be a boolean");
+  if (node.tags !== undefined && (!Array.isArray(node.tags) || node.tags.some(tag => typeof tag !== 'string'))) {
+    report("'tags' must be a list of strings");
+  }
+  if (node.rating !== undefined && !isValidRating(node.rating)) report("'rating' must be a whole number from 1 to 5");
+  if (node.colorLabel !== undefined && !COLOR_LABELS.includes(node.colorLabel as ColorLabel)) {
+    report(`'colorLabel' must be one of ${COLOR_LABELS.join(', ')}`);
+  }
+  if (node.review !== undefined && node.review !== 'keep' && node.review !== 'reject') report("'review' must be keep or reject");
+  if (node.metadata !== undefined && !isValidMetadata(node.metadata)) {
+    report("'metadata' is not a valid metadata object");
+  }
+  if (node.transform !== undefined && !isValidTransform(node.transform)) {
+    report("'transform' must have a rotate of 0, 90, 180 or 270 and a boolean flip");
+  }
+  if (node.hashes !== undefined && !isValidHashes(node.hashes)) {
+    report("'hashes' must hold a hex SHA-256 digest and a 16-digit difference hash");
+  }
+  if ([node.width, node.height].some(size => size !== undefined && !(typeof size === 'number' && Number.isInteger(size) && size > 0))) {
+    report("'width' and 'height' must be positive whole numbers");
+  }
+
+  if (node.thumbnailData !== undefined) {
+    if (typeof node.thumbnailData !== 'string' || !node.thumbnailData.startsWith('data:image/')) {
+      report("'thumbnailData' is not an image data URL");
+    } else if (node.type === 'folder') {
+      report('Folders cannot carry image data');
+    }
+  }
+
+  if (node.imageRef !== undefined) {
+    if (typeof node.imageRef !== 'string' || !node.imageRef) {
+      report("'imageRef' must be a non-empty string");
+    } else if (node.type === 'folder') {
+      report('Folders cannot carry image data');
+    } else if (availableRefs && !availableRefs.has(node.imageRef)) {
+      report(`Image entry '${node.imageRef}' is missing from the archive`);
+    }
+  }
+  if (node.mimeType !== undefined && (typeof node.mimeType !== 'string' || !node.mimeType.startsWith('image/'))) {
+    report("'mimeType' is not an image type");
+  }
+
+  if (node.caption !== undefined) {
+    if (typeof node.caption !== 'string') {
+      report("'caption' must be a string");
+    } else if (node.type === 'folder') {
+      report('Folders cannot carry captions');
+    }
+  }
+  if (node.captionSource !== undefined && typeof node.captionSource !== 'string') {
+    report("'captionSource' must be a string");
+  }
+
+  if (!Array.isArray(node.children)) {
+    report("'children' must be an array");
+    return;
+  }
+  if (node.type === 'file' && node.children.length > 0) report('Files cannot have children');
+
+  node.children.forEach((child: unknown, index: number) => {
+    validateNode(child, `${location}.children[${index}]`, context);
+  });
+};
+
+export const validateSnapshot = (data: unknown, availableRefs?: Set<string>): SnapshotIssue[] => {
+  const issues: SnapshotIssue[] = [];
+  if (!isObject(data)) {
+    return [{ nodePath: '(manifest)', message: 'Snapshot is not a JSON object' }];
+  }
+
+  if (data.format !== SNAPSHOT_FORMAT) {
+    issues.push({ nodePath: '(manifest)', message: `Unknown format '${String(data.format)}'` });
+  }
+  if (typeof data.version !== 'number') {
+    issues.push({ nodePath: '(manifest)', message: "Missing 'version'" });
+  } else if (data.version > SNAPSHOT_VERSION) {
+    issues.push({
+      nodePath: '(manifest)',
+      message: `Snapshot version ${data.version} is newer than this app supports (${SNAPSHOT_VERSION})`,
+    });
+  }
+
+  if (data.profile !== undefined && (!isObject(data.profile) || typeof data.profile.id !== 'string')) {
+    issues.push({ nodePath: '(manifest)', message: "'profile' is not a valid export profile" });
+  }
+
+  if (!isObject(data.root)) {
+    issues.push({ nodePath: '(manifest)', message: "Missing 'root' node" });
+    return issues;
+  }
+  if (data.root.type !== 'folder') {
+    issues.push({ nodePath: 'root', message: 'Root node must be a folder' });
+  }
+  validateNode(data.root, 'root', { seenIds: new Set(), availableRefs, issues });
+
+  return issues;
+};
+
+// --- Migrations ---
+
+type Migration = (manifest: SnapshotManifest) => SnapshotManifest;
+
+const mapTree = (node: SerializedNode, fn: (node: SerializedNode) => SerializedNode): SerializedNode => {
+  // Malformed nodes are left untouched so the validator can report them afterwards
+  if (!isObject(node)) return node;
+  const mapped = fn(node);
+  return {
+    ...mapped,
+    children: Array.isArray(mapped.children) ? mapped.children.map(child => mapTree(child, fn)) : mapped.children,
+  };
+};
+
+// Keyed by the version a migration upgrades *from*
+const MIGRATIONS: Record<number, Migration> = {
+  // v0 -> v1: legacy .afm files were the bare tree. Failed exports left an empty
+  // thumbnailData string behind and older builds omitted isDeleted entirely.
+  0: (manifest) => ({
+    ...manifest,
+    version: 1,
+    root: mapTree(manifest.root, (node) => {
+      const { thumbnailData, ...rest } = node;
+      return {
+        ...rest,
+        ...(thumbnailData ? { thumbnailData } : {}),
+        isDeleted: node.isDeleted === true,
+      };
+    }),
+  }),
+  // v1 -> v2: images moved out of the JSON into archive entries. Inline images from JSON
+  // snapshots stay inline, but every image node now records its content type.
+  1: (manifest) => ({
+    ...manifest,
+    version: 2,
+    root: mapTree(manifest.root, (node) => {
+      const mimeType = node.thumbnailData?.match(/^data:(.*?)[;,]/)?.[1];
+      return mimeType ? { ...node, mimeType } : node;
+    }),
+  }),
+};
+
+export const migrateSnapshot = (manifest: SnapshotManifest): SnapshotManifest => {
+  let current = manifest;
+  while (current.version < SNAPSHOT_VERSION) {
+    const migrate = MIGRATIONS[current.version];
+    if (!migrate) {
+      throw new SnapshotError(`Cannot upgrade snapshot from version ${current.version}`);
+    }
+    current = migrate(current);
+  }
+  return current;
+};
+
+// --- Legacy sources ---
+
+// Wraps a pre-manifest .afm tree (a bare SerializedNode) into a version 0 manifest
+const wrapLegacyTree = (data: unknown): unknown => {
+  if (isObject(data) && !('format' in data) && 'type' in data && 'children' in data) {
+    return { format: SNAPSHOT_FORMAT, version: 0, createdAt: '', root: data };
+  }
+  return data;
+};
+
+const EXTENSION_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  gif: 'image/gif',
+  avif: 'image/avif',
+  bmp: 'image/bmp',
+};
+
+const guessImageType = (name: string): string | undefined => {
+  const extension = name.split('.').pop()?.toLowerCase() || '';
+  return EXTENSION_TYPES[extension];
+};
+
+// The pair UI zip stores the tree in data.json, each image under images/<imageRef> and its
+// caption under images/<textRef>. Images are already archive entries, so they map straight
+// onto the current version; captions are small enough to inline into the manifest.
+const convertPairUiNode = async (node: unknown, archive: ZipArchive): Promise<SerializedNode> => {
+  // Left as is for validation to report
+  if (!isObject(node)) return node as SerializedNode;
+
+  // Field types are checked by the validator once the whole tree is converted
+  const converted = {
+    id: node.id,
+    name: node.name,
+    path: node.path,
+    type: node.type,
+    children: [] as SerializedNode[],
+    isDeleted: node.isDeleted === true,
+  } as SerializedNode;
+
+  // An imageRef with no matching entry is dropped, so the file comes in as an image-less stub
+  // instead of failing the whole archive
+  if (node.type === 'file' && typeof node.imageRef === 'string' && archive.entries.has(`images/${node.imageRef}`)) {
+    converted.imageRef = `images/${node.imageRef}`;
+    // Resized images were re-encoded as JPEG under the original name; browsers sniff the bytes anyway
+    const mimeType = typeof node.name === 'string' ? guessImageType(node.name) : undefined;
+    if (mimeType) converted.mimeType = mimeType;
+  }
+
+  if (node.type === 'file' && typeof node.textRef === 'string') {
+    const caption = await readZipText(archive, `images/${node.textRef}`);
+    if (caption !== null) {
+      converted.caption = caption.trim();
+      converted.captionSource = typeof node.name === 'string' ? node.name.replace(/\.[^/.]+$/, '.txt') : undefined;
+    }
+  }
+
+  if (Array.isArray(node.children)) {
+    for (const child of node.children) {
+      converted.children.push(await convertPairUiNode(child, archive));
+    }
+  } else {
+    converted.children = node.children as SerializedNode[];
+  }
+
+  return converted;
+};
+
+// Only the envelope: nodes are migrated first and validated afterwards
+const isManifestEnvelope = (data: unknown): data is SnapshotManifest =>
+  isObject(data) && data.format === SNAPSHOT_FORMAT && typeof data.version === 'number' && isObject(data.root);
+
+const collectImageRefs = (node: SerializedNode, refs: Map<string, string>) => {
+  if (node.imageRef) refs.set(node.imageRef, node.mimeType || '');
+  node.children.forEach(child => collectImageRefs(child, refs));
+};
+
+// Reads only the local headers, so every image stays a lazy slice of the archive file
+const resolveImages = async (archive: ZipArchive, root: SerializedNode): Promise<Map<string, Blob>> => {
+  const refs = new Map<string, string>();
+  collectImageRefs(root, refs);
+
+  const images = new Map<string, Blob>();
+  const pending = Array.from(refs.entries());
+  for (let i = 0; i < pending.length; i += IMAGE_RESOLVE_BATCH) {
+    await Promise.all(pending.slice(i, i + IMAGE_RESOLVE_BATCH).map(async ([ref, type]) => {
+      const entry = archive.entries.get(ref);
+      if (entry) images.set(ref, await readZipEntry(archive, entry, type));
+    }));
+  }
+  return images;
+};
+
+const parseJson = (text: string, what: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new SnapshotError(`${what} is not valid JSON`);
+  }
+};
+
+// --- Import entry point ---
+
+// Reads any supported snapshot file (zip archive, pair UI zip, or .afm JSON of any version),
+// upgrades it to the current manifest version and validates every node.
+export const loadSnapshot = async (file: Blob): Promise<LoadedSnapshot> => {
+  let data: unknown;
+  let archive: ZipArchive | null = null;
+
+  if (await isZipBlob(file)) {
+    archive = await readZip(file);
+    const manifestJson = await readZipText(archive, MANIFEST_ENTRY);
+    if (manifestJson !== null) {
+      data = parseJson(manifestJson, MANIFEST_ENTRY);
+    } else {
+      const dataJson = await readZipText(archive, 'data.json');
+      if (dataJson === null) {
+        throw new SnapshotError(`Archive does not contain a snapshot (missing ${MANIFEST_ENTRY})`);
+      }
+      const structure = parseJson(dataJson, 'data.json');
+      if (!isObject(structure)) {
+        throw new SnapshotError('data.json does not describe a folder tree');
+      }
+      data = { format: SNAPSHOT_FORMAT, version: 2, createdAt: '', root: await convertPairUiNode(structure, archive) };
+    }
+  } else {
+    data = wrapLegacyTree(parseJson(await file.text(), 'Snapshot file'));
+  }
+
+  // Reject anything whose envelope is unusable before attempting to migrate it
+  if (!isManifestEnvelope(data)) {
+    throw new SnapshotError('Not an Instant OSS snapshot', validateSnapshot(data));
+  }
+  if (data.version > SNAPSHOT_VERSION) {
+    throw new SnapshotError('Snapshot was created by a newer version of the app', validateSnapshot(data));
+  }
+
+  const manifest = migrateSnapshot(data);
+  const availableRefs = archive ? new Set(archive.entries.keys()) : new Set<string>();
+  const issues = validateSnapshot(manifest, availableRefs);
+  if (issues.length > 0) {
+    throw new SnapshotError(`Snapshot contains ${issues.length} invalid node(s)`, issues);
+  }
+
+  const images = archive ? await resolveImages(archive, manifest.root) : new Map<string, Blob>();
+  return { manifest, images };
+};
+
+export const formatSnapshotError = (error: unknown): string => {
+  if (!(error instanceof SnapshotError)) {
+    return 'Invalid snapshot file or corrupted archive.';
+  }
+  const lines = error.issues
+    .slice(0, MAX_REPORTED_ISSUES)
+    .map(issue => `• ${issue.nodePath}: ${issue.message}`);
+  if (error.issues.length > MAX_REPORTED_ISSUES) {
+    lines.push(`…and ${error.issues.length - MAX_REPORTED_ISSUES} more`);
+  }
+  return [error.message, ...lines].join('\n');
+};
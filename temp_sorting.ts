@@ -0,0 +1,133 @@
+import { FileNode, GalleryGroup, GalleryGrouping, GallerySort, GallerySortKey } from '../types';
+
+export const SORT_LABELS: Record<GallerySortKey, string> = {
+  name: 'Name',
+  size: 'File size',
+  modified: 'Modified',
+  captured: 'Capture date',
+  dimensions: 'Dimensions',
+  aspect: 'Aspect ratio',
+  captionLength: 'Caption length',
+};
+
+export const GROUPING_LABELS: Record<GalleryGrouping, string> = {
+  none: 'No grouping',
+  folder: 'Folder',
+  aspect: 'Aspect ratio',
+  date: 'Date',
+};
+
+export const DEFAULT_SORT: GallerySort = { key: 'name', direction: 'asc' };
+
+// Numeric collation, so img2 sorts before img10
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+export const compareNames = (a: string, b: string) => collator.compare(a, b);
+
+// Capture times are local without a zone; parsing them all the same way keeps the order right
+const capturedTime = (node: FileNode) => {
+  const captured = node.metadata?.capturedAt;
+  const time = captured ? Date.parse(captured) : NaN;
+  return Number.isNaN(time) ? undefined : time;
+};
+
+const pixelCount = (node: FileNode) => (node.width !== undefined && node.height ? node.width * node.height : undefined);
+const aspectRatio = (node: FileNode) => (node.width !== undefined && node.height ? node.width / node.height : undefined);
+
+// Undefined means "not known yet"; those images go last whatever the direction
+const sortValue = (node: FileNode, key: GallerySortKey): number | undefined => {
+  switch (key) {
+    case 'size': return node.file?.size;
+    case 'modified': return node.file?.lastModified || undefined;
+    case 'captured': return capturedTime(node);
+    case 'dimensions': return pixelCount(node);
+    case 'aspect': return aspectRatio(node);
+    case 'captionLength': return node.caption?.trim().length ?? 0;
+    default: return undefined;
+  }
+};
+
+// Folders stay first and in name order; files follow the chosen sort with the name as tie-breaker
+export const sortNodes = (nodes: FileNode[], sort: GallerySort): FileNode[] => {
+  const sign = sort.direction === 'asc' ? 1 : -1;
+  const compareFiles = (a: FileNode, b: FileNode) => {
+    if (sort.key !== 'name') {
+      const valueA = sortValue(a, sort.key);
+      const valueB = sortValue(b, sort.key);
+      if (valueA === undefined || valueB === undefined) {
+        if (valueA !== valueB) return valueA === undefined ? 1 : -1;
+      } else if (valueA !== valueB) {
+        return (valueA - valueB) * sign;
+      }
+    }
+    return compareNames(a.name, b.name) * (sort.key === 'name' ? sign : 1);
+  };
+
+  return [...nodes].sort((a, b) => {
+    if (a.type !== b.type) return a.type === 'folder' ? -1 : 1;
+    return a.type === 'folder' ? compareNames(a.name, b.name) : compareFiles(a, b);
+  });
+};
+
+// --- Grouping ---
+
+const ASPECT_BUCKETS = [
+  { key: 'portrait', label: 'Portrait', max: 0.9 },
+  { key: 'square', label: 'Square', max: 1.1 },
+  { key: 'landscape', label: 'Landscape', max: 1.9 },
+  { key: 'panorama', label: 'Panorama', max: Infinity },
+];
+
+const monthFormat = new Intl.DateTimeFormat(undefined, { month: 'long', year: 'numeric' });
+
+interface GroupKey {
+  key: string;
+  label: string;
+  order: number | string; // Groups are listed by this, ascending
+}
+
+const groupKeyFor = (node: FileNode, grouping: Exclude<GalleryGrouping, 'none'>): GroupKey => {
+  if (grouping === 'folder') {
+    const folder = node.parent;
+    const path = folder?.path || '';
+    return { key: path, label: path || folder?.name || 'Workspace', order: path };
+  }
+
+  if (grouping === 'aspect') {
+    const ratio = aspectRatio(node);
+    if (ratio === undefined) return { key: 'unknown', label: 'Unknown size', order: ASPECT_BUCKETS.length };
+    const index = ASPECT_BUCKETS.findIndex(bucket => ratio < bucket.max);
+    return { key: ASPECT_BUCKETS[index].key, label: ASPECT_BUCKETS[index].label, order: index };
+  }
+
+  // Capture date when the camera recorded one, else the file date. Snapshot images carry no
+  // modification time; they are collected at the end.
+  const time = capturedTime(node) ?? node.file?.lastModified;
+  if (!time) return { key: 'unknown', label: 'Unknown date', order: Infinity };
+  const date = new Date(time);
+  const month = date.getFullYear() * 12 + date.getMonth();
+  return { key: String(month), label: monthFormat.format(date), order: -month }; // Newest first
+};
+
+const compareOrder = (a: number | string, b: number | string) =>
+  typeof a === 'number' && typeof b === 'number' ? a - b : compareNames(String(a), String(b));
+
+// Splits already sorted files into groups; each group keeps the sort order of its files
+export const groupNodes = (files: FileNode[], grouping: GalleryGrouping): GalleryGroup[] => {
+  if (grouping === 'none') return [{ key: 'all', label: '', nodes: files }];
+
+  const groups = new Map<string, GalleryGroup & { order: number | string }>();
+  files.forEach(node => {
+    const { key, label, order } = groupKeyFor(node, grouping);
+    let group = groups.get(key);
+    if (!group) {
+      group = { key, label, order, nodes: [] };
+      groups.set(key, group);
+    }
+    group.nodes.push(node);
+  });
+
+  return Array.from(groups.values())
+    .sort((a, b) => compareOrder(a.order, b.order))
+    .map(({ key, label, nodes }) => ({ key, label, nodes }));
+};
@@ -0,0 +1,33 @@
+import React, { useEffect, useState } from 'react';
+import { ImageTransform } from '../types';
+import { swapsAxes, transformToCss } from './orientation';
+
+// Shared by the full-screen image views: the lightbox, culling and compare
+
+export type StageSize = { width: number; height: number };
+
+// Keys typed into a field belong to it, not to the view's shortcuts
+export const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLTextAreaElement || target instanceof HTMLInputElement || target instanceof HTMLSelectElement;
+
+// Inner size of the element behind `ref`, kept current while it is mounted
+export const useStageSize = (ref: React.RefObject<HTMLElement | null>): StageSize => {
+  const [size, setSize] = useState<StageSize>({ width: 0, height: 0 });
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element) return;
+    const observer = new ResizeObserver(() => setSize({ width: element.clientWidth, height: element.clientHeight }));
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [ref]);
+
+  return size;
+};
+
+// Style for an image fitted into the stage with max-width and max-height. A quarter turn swaps the
+// image's axes, so its size limits have to be swapped as well.
+export const fittedImageStyle = (transform: ImageTransform | undefined, stage: StageSize): React.CSSProperties => ({
+  transform: transformToCss(transform),
+  ...(swapsAxes(transform) ? { maxWidth: stage.height, maxHeight: stage.width } : {}),
+});
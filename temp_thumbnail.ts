@@ -0,0 +1,90 @@
+import { ExportProfile, ImageTransform, ThumbnailRequest } from '../types';
+import { canCopyUnchanged, scaledSize, stripImageMetadata } from './exportProfiles';
+import { readImageHeader } from './metadata';
+import { composeOrientation, isIdentityTransform, setJpegOrientation, swapsAxes } from './orientation';
+
+type Canvas2D = OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D;
+
+// `width` and `height` are the output size; a quarter turn draws the bitmap with its axes swapped
+const draw = (
+  ctx: Canvas2D | null,
+  bitmap: ImageBitmap,
+  width: number,
+  height: number,
+  profile: ExportProfile,
+  transform: ImageTransform | undefined
+) => {
+  if (!ctx) throw new Error('2D canvas is not available');
+  if (!profile.keepAlpha || profile.format === 'image/jpeg') {
+    // JPEG has no alpha channel; flatten onto white instead of the encoder's default black
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, width, height);
+  }
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+
+  if (isIdentityTransform(transform)) {
+    ctx.drawImage(bitmap, 0, 0, width, height);
+    return;
+  }
+  const [drawWidth, drawHeight] = swapsAxes(transform) ? [height, width] : [width, height];
+  ctx.translate(width / 2, height / 2);
+  ctx.rotate((transform!.rotate * Math.PI) / 180);
+  if (transform!.flip) ctx.scale(-1, 1);
+  ctx.drawImage(bitmap, -drawWidth / 2, -drawHeight / 2, drawWidth, drawHeight);
+};
+
+// Copies keep the stored pixels, so how to show them has to survive in the JPEG orientation tag,
+// including any manual rotate/flip. Stripping metadata would otherwise drop it.
+const copyJpeg = async (file: Blob, profile: ExportProfile, transform: ImageTransform | undefined) => {
+  const { metadata } = await readImageHeader(file);
+  const orientation = composeOrientation(metadata.orientation, transform);
+  const copy = profile.stripMetadata ? await stripImageMetadata(file) : file;
+  return setJpegOrientation(copy, orientation);
+};
+
+// Works both in a worker (OffscreenCanvas) and on the main thread (<canvas>) so the export
+// pool can fall back when workers are unavailable. The EXIF orientation and the manual
+// transform are applied, so the output always shows the image the way it looks in the app.
+export const encodeThumbnail = async ({ file, profile, transform }: ThumbnailRequest): Promise<Blob> => {
+  if (profile.format === 'original') {
+    if (file.type === 'image/jpeg') return copyJpeg(file, profile, transform);
+    // Other originals keep their pixels; the snapshot lists the transform next to them
+    return profile.stripMetadata ? stripImageMetadata(file) : file;
+  }
+
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  try {
+    const scaled = scaledSize(bitmap.width, bitmap.height, profile);
+    const unchanged = scaled.width === bitmap.width && scaled.height === bitmap.height;
+    if (unchanged && canCopyUnchanged(file, profile)) {
+      if (file.type === 'image/jpeg') return await copyJpeg(file, profile, transform);
+      // Other formats can only be copied when nothing needs rotating
+      const { metadata } = await readImageHeader(file);
+      if (isIdentityTransform(transform) && (metadata.orientation || 1) === 1) {
+        return profile.stripMetadata ? await stripImageMetadata(file) : file;
+      }
+    }
+
+    const [width, height] = swapsAxes(transform) ? [scaled.height, scaled.width] : [scaled.width, scaled.height];
+    if (typeof OffscreenCanvas !== 'undefined') {
+      const canvas = new OffscreenCanvas(width, height);
+      draw(canvas.getContext('2d'), bitmap, width, height, profile, transform);
+      return await canvas.convertToBlob({ type: profile.format, quality: profile.quality });
+    }
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    draw(canvas.getContext('2d'), bitmap, width, height, profile, transform);
+    return await new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob(
+        blob => (blob ? resolve(blob) : reject(new Error('Canvas encoding failed'))),
+        profile.format,
+        profile.quality
+      );
+    });
+  } finally {
+    bitmap.close();
+  }
+};
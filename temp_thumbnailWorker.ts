@@ -0,0 +1,13 @@
+import { ThumbnailRequest, ThumbnailResponse } from '../types';
+import { encodeThumbnail } from './thumbnail';
+
+// Entry point of each export worker: converts one image per message with the requested profile
+self.onmessage = async (event: MessageEvent<ThumbnailRequest>) => {
+  let response: ThumbnailResponse;
+  try {
+    response = { blob: await encodeThumbnail(event.data) };
+  } catch (e) {
+    response = { error: e instanceof Error ? e.message : String(e) };
+  }
+  self.postMessage(response);
+};
@@ -0,0 +1,82 @@
+import { FileNode } from '../types';
+
+// --- Workspace tree helpers ---
+// Paths and ids follow parseFilesToTree: a node's path is its parent's path plus its name, and
+// its id is the parent's path, a slash and the name.
+
+export const joinPath = (folder: FileNode, name: string) => (folder.path ? `${folder.path}/${name}` : name);
+
+// True when `node` is `folder` or one of its ancestors
+export const isInside = (node: FileNode, folder: FileNode) => {
+  for (let current: FileNode | undefined = folder; current; current = current.parent) {
+    if (current === node) return true;
+  }
+  return false;
+};
+
+export const findNodeById = (node: FileNode, id: string): FileNode | null => {
+  if (node.id === id) return node;
+  for (const child of node.children) {
+    const found = findNodeById(child, id);
+    if (found) return found;
+  }
+  return null;
+};
+
+// Puts a node under `parent` as `name` and re-derives id and path for its whole subtree. Does not
+// touch any children list; callers insert the node where it belongs.
+export const relocateNode = (node: FileNode, parent: FileNode, name: string) => {
+  node.parent = parent;
+  node.name = name;
+  node.id = `${parent.path}/${name}`;
+  node.path = joinPath(parent, name);
+  node.children.forEach(child => relocateNode(child, node, child.name));
+};
+
+// Names are compared case-insensitively, since most file systems and zip tools do
+export const hasChildNamed = (folder: FileNode, name: string, except?: FileNode) =>
+  folder.children.some(child => child !== except && child.name.toLowerCase() === name.toLowerCase());
+
+// `photo.jpg` becomes `photo (1).jpg` and so on, like a file manager pasting a second copy.
+// `taken` holds lower-cased names already handed out in the same operation.
+export const uniqueChildName = (folder: FileNode, name: string, taken = new Set<string>(), except?: FileNode) => {
+  const isFree = (candidate: string) => !taken.has(candidate.toLowerCase()) && !hasChildNamed(folder, candidate, except);
+  const dot = name.lastIndexOf('.');
+  const [base, extension] = dot > 0 ? [name.slice(0, dot), name.slice(dot)] : [name, ''];
+  let candidate = name;
+  for (let i = 1; !isFree(candidate); i++) candidate = `${base} (${i})${extension}`;
+  taken.add(candidate.toLowerCase());
+  return candidate;
+};
+
+// Null when the name can be used for a new or renamed folder inside `parent`
+export const validateFolderName = (parent: FileNode, name: string, except?: FileNode): string | null => {
+  const trimmed = name.trim();
+  if (!trimmed) return 'Enter a folder name';
+  if (/[\\/]/.test(trimmed)) return 'Folder names cannot contain slashes';
+  if (trimmed === '.' || trimmed === '..') return 'That name is reserved';
+  if (hasChildNamed(parent, trimmed, except)) return `${parent.name === 'Root' ? 'My Library' : parent.name} already has an entry named ${trimmed}`;
+  return null;
+};
+
+// --- Drag and drop ---
+// Dragged nodes travel as ids, so a drop only needs the tree to find them again
+
+export const NODE_DRAG_TYPE = 'application/x-instant-oss-nodes';
+
+export const setDraggedNodes = (dataTransfer: DataTransfer, nodes: FileNode[]) => {
+  dataTransfer.setData(NODE_DRAG_TYPE, JSON.stringify(nodes.map(node => node.id)));
+  dataTransfer.effectAllowed = 'move';
+};
+
+// The payload itself is only readable on drop; while dragging over, only its type is visible
+export const isNodeDrag = (dataTransfer: DataTransfer) => dataTransfer.types.includes(NODE_DRAG_TYPE);
+
+export const getDraggedIds = (dataTransfer: DataTransfer): string[] => {
+  try {
+    const ids = JSON.parse(dataTransfer.getData(NODE_DRAG_TYPE) || '[]');
+    return Array.isArray(ids) ? ids.filter((id): id is string => typeof id === 'string') : [];
+  } catch {
+    return [];
+  }
+};
@@ -0,0 +1,295 @@
+// Minimal ZIP reader and writer used for snapshot archives.
+// Only the central directory is parsed up front; entry data is sliced out of the
+// source Blob on demand, so large archives are never loaded into memory at once.
+
+export interface ZipEntry {
+  name: string;
+  method: number; // 0 = stored, 8 = deflate
+  compressedSize: number;
+  size: number;
+  localHeaderOffset: number;
+}
+
+export interface ZipArchive {
+  source: Blob;
+  entries: Map<string, ZipEntry>;
+}
+
+const EOCD_SIGNATURE = 0x06054b50;
+const ZIP64_EOCD_SIGNATURE = 0x06064b50;
+const ZIP64_LOCATOR_SIGNATURE = 0x07064b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const EOCD_MIN_SIZE = 22;
+const ZIP64_EOCD_SIZE = 56;
+const ZIP64_LOCATOR_SIZE = 20;
+const ZIP64_EXTRA_ID = 0x0001;
+const MAX_COMMENT_SIZE = 0xffff;
+
+// A 16-bit count or 32-bit size/offset at its maximum means the real value is in a ZIP64 record
+const MAX_UINT16 = 0xffff;
+const MAX_UINT32 = 0xffffffff;
+
+const textDecoder = new TextDecoder();
+
+export const isZipBlob = async (blob: Blob): Promise<boolean> => {
+  if (blob.size < 4) return false;
+  const head = new DataView(await blob.slice(0, 4).arrayBuffer());
+  return head.getUint32(0, true) === LOCAL_HEADER_SIGNATURE;
+};
+
+export const readZip = async (source: Blob): Promise<ZipArchive> => {
+  // The end-of-central-directory record sits at the very end, followed only by an optional comment
+  const tailStart = Math.max(0, source.size - EOCD_MIN_SIZE - MAX_COMMENT_SIZE);
+  const tail = new DataView(await source.slice(tailStart).arrayBuffer());
+
+  let eocd = -1;
+  for (let i = tail.byteLength - EOCD_MIN_SIZE; i >= 0; i--) {
+    if (tail.getUint32(i, true) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) throw new Error('Not a zip archive: end of central directory not found');
+
+  let entryCount = tail.getUint16(eocd + 10, true);
+  let directorySize = tail.getUint32(eocd + 12, true);
+  let directoryOffset = tail.getUint32(eocd + 16, true);
+
+  if (entryCount === MAX_UINT16 || directorySize === MAX_UINT32 || directoryOffset === MAX_UINT32) {
+    const locatorStart = tailStart + eocd - ZIP64_LOCATOR_SIZE;
+    const locator = locatorStart >= 0
+      ? new DataView(await source.slice(locatorStart, locatorStart + ZIP64_LOCATOR_SIZE).arrayBuffer())
+      : null;
+    // Without a locator the maximum values are real, as in an archive of exactly 65535 entries
+    if (locator && locator.getUint32(0, true) === ZIP64_LOCATOR_SIGNATURE) {
+      const recordStart = Number(locator.getBigUint64(8, true));
+      const record = new DataView(await source.slice(recordStart, recordStart + ZIP64_EOCD_SIZE).arrayBuffer());
+      if (record.getUint32(0, true) !== ZIP64_EOCD_SIGNATURE) {
+        throw new Error('Corrupted zip archive: bad ZIP64 end of central directory');
+      }
+      entryCount = Number(record.getBigUint64(32, true));
+      directorySize = Number(record.getBigUint64(40, true));
+      directoryOffset = Number(record.getBigUint64(48, true));
+    }
+  }
+
+  const directory = new DataView(
+    await source.slice(directoryOffset, directoryOffset + directorySize).arrayBuffer()
+  );
+
+  const entries = new Map<string, ZipEntry>();
+  let cursor = 0;
+  for (let i = 0; i < entryCount; i++) {
+    if (directory.getUint32(cursor, true) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new Error(`Corrupted zip archive: bad central directory header at entry ${i}`);
+    }
+    const method = directory.getUint16(cursor + 10, true);
+    let compressedSize = directory.getUint32(cursor + 20, true);
+    let size = directory.getUint32(cursor + 24, true);
+    const nameLength = directory.getUint16(cursor + 28, true);
+    const extraLength = directory.getUint16(cursor + 30, true);
+    const commentLength = directory.getUint16(cursor + 32, true);
+    let localHeaderOffset = directory.getUint32(cursor + 42, true);
+    const name = textDecoder.decode(
+      new Uint8Array(directory.buffer, directory.byteOffset + cursor + 46, nameLength)
+    );
+
+    // The ZIP64 extra field holds only the values that overflowed, in this fixed order
+    const extraEnd = cursor + 46 + nameLength + extraLength;
+    for (let extra = cursor + 46 + nameLength; extra + 4 <= extraEnd;) {
+      const id = directory.getUint16(extra, true);
+      const length = directory.getUint16(extra + 2, true);
+      if (id === ZIP64_EXTRA_ID) {
+        let field = extra + 4;
+        const next = () => {
+          const value = Number(directory.getBigUint64(field, true));
+          field += 8;
+          return value;
+        };
+        if (size === MAX_UINT32) size = next();
+        if (compressedSize === MAX_UINT32) compressedSize = next();
+        if (localHeaderOffset === MAX_UINT32) localHeaderOffset = next();
+      }
+      extra += 4 + length;
+    }
+
+    // Directory entries carry no data
+    if (!name.endsWith('/')) {
+      entries.set(name, { name, method, compressedSize, size, localHeaderOffset });
+    }
+    cursor += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return { source, entries };
+};
+
+export const readZipEntry = async (archive: ZipArchive, entry: ZipEntry, type = ''): Promise<Blob> => {
+  // Local headers may carry a different extra field than the central directory, so re-read the lengths
+  const header = new DataView(
+    await archive.source.slice(entry.localHeaderOffset, entry.localHeaderOffset + 30).arrayBuffer()
+  );
+  if (header.getUint32(0, true) !== LOCAL_HEADER_SIGNATURE) {
+    throw new Error(`Corrupted zip archive: bad local header for ${entry.name}`);
+  }
+  const dataStart = entry.localHeaderOffset + 30 + header.getUint16(26, true) + header.getUint16(28, true);
+  const raw = archive.source.slice(dataStart, dataStart + entry.compressedSize);
+
+  if (entry.method === 0) {
+    return new Blob([raw], { type });
+  }
+  if (entry.method === 8) {
+    const inflated = raw.stream().pipeThrough(new DecompressionStream('deflate-raw'));
+    const blob = await new Response(inflated).blob();
+    return new Blob([blob], { type });
+  }
+  throw new Error(`Unsupported zip compression method ${entry.method} for ${entry.name}`);
+};
+
+export const readZipText = async (archive: ZipArchive, name: string): Promise<string | null> => {
+  const entry = archive.entries.get(name);
+  if (!entry) return null;
+  return (await readZipEntry(archive, entry)).text();
+};
+
+// --- Writer ---
+
+// Store-only ZIP writer. Entries are kept as Blob parts, so the finished archive is assembled
+// by the browser without ever concatenating the image bytes into one JS string or buffer.
+// Images are already compressed, so deflating them again would only cost time. Past 65535
+// entries or 4 GB the archive switches to ZIP64 records, which every current unzip tool reads.
+
+export interface ZipWriter {
+  add: (name: string, data: Blob) => Promise<void>;
+  entryCount: () => number;
+  finish: () => Blob;
+}
+
+const UTF8_FLAG = 0x0800;
+const ZIP_VERSION = 20;
+const ZIP64_VERSION = 45;
+
+const textEncoder = new TextEncoder();
+
+let crcTable: Uint32Array | null = null;
+
+const crc32 = (bytes: Uint8Array): number => {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const toDosDateTime = (date: Date) => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+// ZIP64 extended information field: only the values that overflowed, as 64-bit integers
+const setZip64Extra = (view: DataView, at: number, values: number[]) => {
+  view.setUint16(at, ZIP64_EXTRA_ID, true);
+  view.setUint16(at + 2, values.length * 8, true);
+  values.forEach((value, i) => view.setBigUint64(at + 4 + i * 8, BigInt(value), true));
+};
+
+export const createZipWriter = (): ZipWriter => {
+  const parts: BlobPart[] = [];
+  const centralDirectory: Uint8Array[] = [];
+  const { time, date } = toDosDateTime(new Date());
+  let offset = 0;
+
+  const add = async (name: string, data: Blob) => {
+    const nameBytes = textEncoder.encode(name);
+    const crc = crc32(new Uint8Array(await data.arrayBuffer()));
+    const size = data.size;
+
+    // Only an entry that is itself too large needs ZIP64 sizes in its local header
+    const largeEntry = size >= MAX_UINT32;
+    const localFields = largeEntry ? [size, size] : [];
+    const centralFields = offset >= MAX_UINT32 ? [...localFields, offset] : localFields;
+    const localExtraLength = localFields.length ? 4 + localFields.length * 8 : 0;
+    const centralExtraLength = centralFields.length ? 4 + centralFields.length * 8 : 0;
+
+    const local = new DataView(new ArrayBuffer(30 + nameBytes.length + localExtraLength));
+    local.setUint32(0, LOCAL_HEADER_SIGNATURE, true);
+    local.setUint16(4, localFields.length ? ZIP64_VERSION : ZIP_VERSION, true);
+    local.setUint16(6, UTF8_FLAG, true);
+    local.setUint16(8, 0, true); // stored
+    local.setUint16(10, time, true);
+    local.setUint16(12, date, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, Math.min(size, MAX_UINT32), true);
+    local.setUint32(22, Math.min(size, MAX_UINT32), true);
+    local.setUint16(26, nameBytes.length, true);
+    local.setUint16(28, localExtraLength, true);
+    new Uint8Array(local.buffer).set(nameBytes, 30);
+    if (localFields.length) setZip64Extra(local, 30 + nameBytes.length, localFields);
+
+    const central = new DataView(new ArrayBuffer(46 + nameBytes.length + centralExtraLength));
+    central.setUint32(0, CENTRAL_HEADER_SIGNATURE, true);
+    central.setUint16(4, centralFields.length ? ZIP64_VERSION : ZIP_VERSION, true);
+    central.setUint16(6, centralFields.length ? ZIP64_VERSION : ZIP_VERSION, true);
+    central.setUint16(8, UTF8_FLAG, true);
+    central.setUint16(10, 0, true);
+    central.setUint16(12, time, true);
+    central.setUint16(14, date, true);
+    central.setUint32(16, crc, true);
+    central.setUint32(20, Math.min(size, MAX_UINT32), true);
+    central.setUint32(24, Math.min(size, MAX_UINT32), true);
+    central.setUint16(28, nameBytes.length, true);
+    central.setUint16(30, centralExtraLength, true);
+    central.setUint32(42, Math.min(offset, MAX_UINT32), true);
+    new Uint8Array(central.buffer).set(nameBytes, 46);
+    if (centralFields.length) setZip64Extra(central, 46 + nameBytes.length, centralFields);
+
+    parts.push(local.buffer, data);
+    centralDirectory.push(new Uint8Array(central.buffer));
+    offset += local.byteLength + size;
+  };
+
+  const finish = () => {
+    const entryCount = centralDirectory.length;
+    const directorySize = centralDirectory.reduce((sum, entry) => sum + entry.byteLength, 0);
+    const records: ArrayBuffer[] = [];
+
+    if (entryCount >= MAX_UINT16 || directorySize >= MAX_UINT32 || offset >= MAX_UINT32) {
+      const record = new DataView(new ArrayBuffer(ZIP64_EOCD_SIZE));
+      record.setUint32(0, ZIP64_EOCD_SIGNATURE, true);
+      record.setBigUint64(4, BigInt(ZIP64_EOCD_SIZE - 12), true); // Size of the rest of the record
+      record.setUint16(12, ZIP64_VERSION, true);
+      record.setUint16(14, ZIP64_VERSION, true);
+      record.setBigUint64(24, BigInt(entryCount), true);
+      record.setBigUint64(32, BigInt(entryCount), true);
+      record.setBigUint64(40, BigInt(directorySize), true);
+      record.setBigUint64(48, BigInt(offset), true);
+
+      const locator = new DataView(new ArrayBuffer(ZIP64_LOCATOR_SIZE));
+      locator.setUint32(0, ZIP64_LOCATOR_SIGNATURE, true);
+      locator.setBigUint64(8, BigInt(offset + directorySize), true);
+      locator.setUint32(16, 1, true); // Total number of disks
+      records.push(record.buffer, locator.buffer);
+    }
+
+    const eocd = new DataView(new ArrayBuffer(EOCD_MIN_SIZE));
+    eocd.setUint32(0, EOCD_SIGNATURE, true);
+    eocd.setUint16(8, Math.min(entryCount, MAX_UINT16), true);
+    eocd.setUint16(10, Math.min(entryCount, MAX_UINT16), true);
+    eocd.setUint32(12, Math.min(directorySize, MAX_UINT32), true);
+    eocd.setUint32(16, Math.min(offset, MAX_UINT32), true);
+
+    return new Blob([...parts, ...centralDirectory, ...records, eocd.buffer], { type: 'application/zip' });
+  };
+
+  return { add, entryCount: () => centralDirectory.length, finish };
+};
@@ -0,0 +1,31 @@
+import { PanZoom } from '../types';
+
+export const FITTED: PanZoom = { scale: 1, x: 0, y: 0 };
+
+export const MIN_SCALE = 1;
+export const MAX_SCALE = 16;
+
+// Multiplier for one wheel notch or one +/- key press
+export const ZOOM_STEP = 1.25;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Zooms by `factor` keeping the point under `at` in place; `at` is measured from the frame's centre.
+// Back at the fitted size the image is centred again.
+export const zoomAt = (view: PanZoom, factor: number, at = { x: 0, y: 0 }): PanZoom => {
+  const scale = clamp(view.scale * factor, MIN_SCALE, MAX_SCALE);
+  if (scale === MIN_SCALE) return FITTED;
+  const ratio = scale / view.scale;
+  return { scale, x: at.x - (at.x - view.x) * ratio, y: at.y - (at.y - view.y) * ratio };
+};
+
+export const panBy = (view: PanZoom, dx: number, dy: number): PanZoom =>
+  view.scale === MIN_SCALE ? view : { ...view, x: view.x + dx, y: view.y + dy };
+
+// Pointer position relative to the centre of the element the event is bound to
+export const offsetFromCenter = (e: { clientX: number; clientY: number; currentTarget: Element }) => {
+  const rect = e.currentTarget.getBoundingClientRect();
+  return { x: e.clientX - rect.left - rect.width / 2, y: e.clientY - rect.top - rect.height / 2 };
+};
+
+export const panZoomToCss = (view: PanZoom) => `translate(${view.x}px, ${view.y}px) scale(${view.scale})`;
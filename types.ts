@@ -8,6 +8,158 @@ export interface FileNode {
   url?: string; // Blob URL for preview
   parent?: FileNode; // Reference to parent for navigation
   isDeleted?: boolean; // Soft delete status
+  captionFile?: File; // Sidecar caption (.txt, .caption or .json) matched by basename
+  caption?: string; // Caption text, once loaded from the sidecar or restored from a snapshot
+  captionHistory?: CaptionHistory; // Present once the caption has been edited in the app
+  tags?: string[];
+  rating?: number; // 1-5 stars; unrated when unset
+  colorLabel?: ColorLabel;
+  review?: ReviewDecision; // Set by the culling mode; unreviewed when unset
+  metadata?: ImageMetadata; // Read from the file after import; empty when the file carries none
+  transform?: ImageTransform; // Manual rotate/flip on top of the EXIF orientation
+  hashes?: ImageHashes; // Computed on demand by the duplicates view
+  width?: number; // Pixel size as displayed (orientation and transform applied), once decoded
+  height?: number;
+  directoryHandle?: DirectoryHandle; // Read/write folders only. Folders: the folder itself; files: the containing folder
+  diskPath?: string; // Read/write folders only: the file's path as read from disk, kept through moves and renames
+  sessionImageRef?: string; // OPFS entry holding this image's bytes for the autosaved session
+}
+
+// A file picked from disk together with its path relative to the opened folder
+export interface SourceFile {
+  file: File;
+  path: string; // e.g. "MyFolder/Sub/image.jpg"
+}
+
+// Subset of the File System Access API used for read/write folders. Declared structurally so
+// an in-memory stand-in can be used wherever a real handle is expected.
+export interface DirectoryHandle {
+  kind: 'directory';
+  name: string;
+  values(): AsyncIterable<DirectoryHandle | FileHandle>;
+  getDirectoryHandle(name: string, options?: { create?: boolean }): Promise<DirectoryHandle>;
+  getFileHandle(name: string, options?: { create?: boolean }): Promise<FileHandle>;
+  removeEntry(name: string, options?: { recursive?: boolean }): Promise<void>;
+}
+
+export interface FileHandle {
+  kind: 'file';
+  name: string;
+  getFile(): Promise<File>;
+  createWritable(): Promise<WritableFileStream>;
+}
+
+export interface WritableFileStream {
+  write(data: Blob | string): Promise<void>;
+  close(): Promise<void>;
+}
+
+declare global {
+  interface Window {
+    showDirectoryPicker?: (options: { mode: 'readwrite' }) => Promise<DirectoryHandle>; // Chromium only
+  }
+}
+
+// One entry of the dry-run diff shown before changes are written to disk
+export type PendingChange =
+  | { kind: 'trash'; node: FileNode; path: string; sidecar?: string }
+  | { kind: 'write-caption'; node: FileNode; path: string; before?: string; after: string };
+
+export interface ApplyResult {
+  applied: PendingChange[];
+  failed: { change: PendingChange; error: string }[];
+}
+
+// Per-node edit history for captions
+export interface CaptionHistory {
+  saved: string | undefined; // Caption as last loaded or saved; the baseline for the dirty indicator
+  undoStack: (string | undefined)[];
+  redoStack: (string | undefined)[];
+}
+
+// One step of a batch caption edit; steps run in order on every caption
+export type CaptionOperation =
+  | { kind: 'trigger'; word: string; position: 'prepend' | 'append' }
+  | { kind: 'replace'; find: string; replace: string; regex: boolean; caseSensitive: boolean }
+  | { kind: 'normalize-tags'; sort: boolean } // Comma-separated tags, deduplicated
+  | { kind: 'lowercase' }
+  | { kind: 'trim' }; // Surrounding and repeated whitespace, stray commas
+
+// A caption a batch edit would change
+export interface CaptionChange {
+  node: FileNode;
+  before: string | undefined;
+  after: string | undefined;
+}
+
+// A workspace change that spans many nodes and is undone as a whole
+export interface Command {
+  label: string;
+  apply: () => void;
+  revert: () => void;
+}
+
+export interface CommandHistory {
+  undoStack: Command[];
+  redoStack: Command[];
+}
+
+// Review marks, as photo managers offer them next to star ratings
+export type ColorLabel = 'red' | 'yellow' | 'green' | 'blue' | 'purple';
+
+// Culling verdict; a rejected image is also soft deleted
+export type ReviewDecision = 'keep' | 'reject';
+
+// What a key does in the culling mode
+export type CullingAction =
+  | { kind: 'keep' }
+  | { kind: 'reject' }
+  | { kind: 'rate'; rating: number }
+  | { kind: 'tag'; tag: string }
+  | { kind: 'skip' }
+  | { kind: 'back' }
+  | { kind: 'undo' };
+
+export interface CullingBinding {
+  key: string; // As cullingKeyName reports it, e.g. "x", "Space" or "ArrowRight"; empty when unbound
+  action: CullingAction;
+}
+
+// Saved search shown in the sidebar
+export interface SmartCollection {
+  id: string;
+  name: string;
+  query: string; // In the search query language, e.g. "rating:>=4 deleted:false"
+}
+
+// Mirror horizontally (optional), then rotate clockwise
+export interface ImageTransform {
+  rotate: 0 | 90 | 180 | 270;
+  flip: boolean;
+}
+
+// Fingerprints of the imported file, used to find duplicates
+export interface ImageHashes {
+  sha256: string; // Hex digest of the file bytes; equal for exact copies
+  dhash: string; // 64-bit difference hash as 16 hex digits; close for resized or re-saved copies
+}
+
+// Photo and generator metadata embedded in an image (EXIF, XMP, IPTC, PNG text chunks)
+export interface ImageMetadata {
+  camera?: string; // Make and model
+  lens?: string;
+  capturedAt?: string; // Local time as recorded, YYYY-MM-DDTHH:MM:SS without a zone
+  gps?: { latitude: number; longitude: number; altitude?: number };
+  orientation?: number; // EXIF orientation, 1-8
+  exposure?: { exposureTime?: number; fNumber?: number; iso?: number; focalLength?: number };
+  software?: string;
+  title?: string;
+  description?: string;
+  creator?: string;
+  copyright?: string;
+  rating?: number; // XMP rating, 1-5
+  keywords?: string[];
+  text?: Record<string, string>; // PNG text chunks and EXIF user comments, e.g. generation parameters
 }
 
 // Serializable version of the node for JSON export
@@ -17,17 +169,199 @@ export interface SerializedNode {
   path: string;
   type: 'file' | 'folder';
   children: SerializedNode[];
-  thumbnailData?: string; // Base64 string for images
+  imageRef?: string; // Archive entry holding the image bytes (snapshot v2+)
+  mimeType?: string; // Content type of the image entry (snapshot v2+)
+  thumbnailData?: string; // Legacy inline base64 image (snapshot v1 and earlier)
   isDeleted?: boolean; // Persist soft delete status
+  caption?: string; // Caption text paired with the image
+  captionSource?: string; // File name of the sidecar the caption was read from
+  tags?: string[];
+  rating?: number;
+  colorLabel?: ColorLabel;
+  review?: ReviewDecision;
+  metadata?: ImageMetadata; // Left out when the export profile strips metadata
+  transform?: ImageTransform; // Rotate/flip still to apply to the stored image; baked-in transforms are not listed
+  hashes?: ImageHashes; // Of the original file, which may differ from the stored image
+  width?: number; // Sessions only; snapshots store resized images and measure them again
+  height?: number;
+}
+
+// Result of pairing images with caption sidecars during import
+export interface CaptionReport {
+  orphanCaptions: string[]; // Paths of sidecars with no matching image
+  uncaptionedImages: FileNode[];
+}
+
+// Versioned envelope around the serialized tree, written by the snapshot exporter
+export interface SnapshotManifest {
+  format: 'instant-oss-snapshot';
+  version: number;
+  createdAt: string; // ISO timestamp
+  profile?: ExportProfile; // Absent in snapshots written before export profiles existed
+  root: SerializedNode;
+}
+
+// How images are written into a snapshot
+export interface ExportProfile {
+  id: string;
+  name: string;
+  edge: 'short' | 'long'; // Which edge maxEdge applies to
+  maxEdge: number | null; // null keeps the original resolution
+  format: 'image/jpeg' | 'image/webp' | 'image/png' | 'original'; // 'original' copies files without re-encoding
+  quality: number; // 0-1, ignored by PNG
+  keepAlpha: boolean; // Otherwise transparency is flattened onto white
+  stripMetadata: boolean; // EXIF/XMP/IPTC and text chunks are removed from copied files and the manifest
+}
+
+// A single problem found while validating a snapshot, tied to the offending node
+export interface SnapshotIssue {
+  nodePath: string; // Node path inside the snapshot, or a JSON pointer-like location when the path is unusable
+  message: string;
 }
 
 export enum ViewMode {
   HIERARCHY = 'HIERARCHY',
   ALL_PHOTOS = 'ALL_PHOTOS',
+  SEARCH = 'SEARCH',
+  DUPLICATES = 'DUPLICATES',
+  STATS = 'STATS',
+  RESOLUTION = 'RESOLUTION',
+}
+
+export type GallerySortKey = 'name' | 'size' | 'modified' | 'captured' | 'dimensions' | 'aspect' | 'captionLength';
+
+export interface GallerySort {
+  key: GallerySortKey;
+  direction: 'asc' | 'desc';
+}
+
+export type GalleryGrouping = 'none' | 'folder' | 'aspect' | 'date';
+
+// A run of gallery images shown under one sticky header
+export interface GalleryGroup {
+  key: string;
+  label: string; // Empty when the view is not grouped
+  nodes: FileNode[];
+}
+
+// Listed on the landing screen so an interrupted session can be resumed
+export interface SessionSummary {
+  id: string;
+  name: string;
+  createdAt: string; // ISO timestamp
+  updatedAt: string; // ISO timestamp
+  imageCount: number;
+  incomplete?: boolean; // Set until every image is copied; a resumed incomplete session lacks the rest
+}
+
+// Everything needed to rebuild the workspace; image bytes live in OPFS under each imageRef
+export interface SessionWorkspace {
+  id: string;
+  root: SerializedNode;
+  currentNodeId: string | null;
+  viewMode: ViewMode;
+  query?: string; // Search view query
+}
+
+// Messages exchanged with the thumbnail encoding workers
+export interface ThumbnailRequest {
+  file: Blob;
+  profile: ExportProfile;
+  transform?: ImageTransform; // Manual rotate/flip baked into the output
+}
+
+export type ThumbnailResponse = { blob: Blob } | { error: string };
+
+// Messages exchanged with the hashing worker; ids pair responses with requests
+export interface HashRequest {
+  id: number;
+  file: Blob;
+}
+
+export type HashResponse = { id: number; hashes: ImageHashes } | { id: number; error: string };
+
+// Images that are copies of each other
+export interface DuplicateGroup {
+  key: string;
+  exact: boolean; // Every image has the same bytes; otherwise some only look alike
+  nodes: FileNode[];
+}
+
+// Aspect-ratio bucketing as SD trainers do it: buckets of about resolution² pixels, sides in
+// multiples of step
+export interface BucketSettings {
+  resolution: number;
+  step: number;
+  minSide: number; // Images whose shorter side is below this are flagged
+  maxAspectRatio: number; // Long side over short side; images beyond it are flagged
+}
+
+export interface ResolutionBucket {
+  width: number;
+  height: number;
+  nodes: FileNode[];
+  averageCrop: number; // Fraction of each image cut off to fit the bucket's aspect ratio
+}
+
+export type OutlierReason = 'small' | 'aspect';
+
+export interface ResolutionOutlier {
+  node: FileNode;
+  reasons: OutlierReason[];
+}
+
+// Deleted images are left out
+export interface BucketReport {
+  buckets: ResolutionBucket[]; // Only buckets that received images, widest aspect ratio first
+  outliers: ResolutionOutlier[];
+  unmeasured: FileNode[]; // Size could not be read
+}
+
+// Caption quality figures for the stats view; deleted images are not counted
+export interface CaptionStats {
+  images: number;
+  captioned: number; // Non-empty caption
+  empty: number; // Sidecar present but blank
+  missing: number; // No sidecar at all
+  overLimit: number; // Estimated token count above the limit
+  averageTokens: number; // Over captioned images
+  tagCounts: { tag: string; count: number }[]; // Comma-separated caption tags, most frequent first
+  singletonTags: string[]; // Tags used by exactly one image
+  tokenHistogram: { min: number; max: number; count: number }[]; // The last bucket is open-ended
+}
+
+// One row of the per-folder table; counts the images directly inside the folder
+export interface FolderCaptionStats {
+  folder: FileNode;
+  images: number;
+  captioned: number;
+  missing: number;
+  overLimit: number;
+  averageTokens: number;
 }
 
 export interface GalleryStats {
   totalFiles: number;
   totalFolders: number;
   totalSize: number;
+  totalCaptions: number;
+  estimatedExportSize?: number; // Bytes, for the selected export profile
+}
+
+// Zoom and pan of an image shown fitted in a frame: scaled by `scale` around the frame's centre,
+// then moved by `x` and `y` CSS pixels. Compare panes share one so they stay in step.
+export interface PanZoom {
+  scale: number; // 1 = fitted
+  x: number;
+  y: number;
+}
+
+export type CompareLayout = 'side-by-side' | 'wipe';
+
+// 256 bins per channel, from a downscaled copy of the image
+export interface ImageHistogram {
+  red: Uint32Array;
+  green: Uint32Array;
+  blue: Uint32Array;
+  luma: Uint32Array;
 }
@@ -0,0 +1,24 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { defineConfig, Plugin } from 'vite';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// Sources sit flat at the root as temp_<Module>.ts(x) next to types.ts, but import each other by
+// their src/ paths ('../types', './zip', '../utils/zip', '../components/Gallery')
+const flatLayout = (): Plugin => ({
+  name: 'flat-layout',
+  enforce: 'pre',
+  resolveId(source) {
+    if (!source.startsWith('.')) return null;
+    const name = path.basename(source);
+    const candidates = name === 'types' ? ['types.ts'] : [`temp_${name}.ts`, `temp_${name}.tsx`];
+    return candidates.map(file => path.resolve(__dirname, file)).find(file => fs.existsSync(file)) ?? null;
+  },
+});
+
+export default defineConfig({
+  plugins: [flatLayout()],
+});